@@ -7,9 +7,12 @@ import { TourProvider } from "./hooks/use-tour";
 import { ProtectedRoute } from "./lib/protected-route";
 import HomePage from "@/pages/home-page";
 import AuthPage from "@/pages/auth-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
+import VerifyEmailPage from "@/pages/verify-email-page";
 import ProfilePage from "@/pages/profile-page";
 import AboutPage from "@/pages/about-page";
 import ChatPage from "@/pages/chat-page";
+import PostPage from "@/pages/post-page";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -19,7 +22,10 @@ function Router() {
       <ProtectedRoute path="/profile" component={ProfilePage} />
       <ProtectedRoute path="/about" component={AboutPage} />
       <ProtectedRoute path="/chat" component={ChatPage} />
+      <Route path="/posts/:id" component={PostPage} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
+      <Route path="/verify-email" component={VerifyEmailPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import type { CurrentUser } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Mail } from "lucide-react";
+
+// Shows the account's email and lets accounts without a confirmed one set it.
+// A confirmed email can't be changed here.
+export function EmailSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState(false);
+  const [email, setEmail] = useState("");
+
+  const saveMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const res = await apiRequest("PUT", "/api/user/email", { email: value });
+      return (await res.json()) as CurrentUser;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/user"], updated);
+      setEditing(false);
+      setEmail("");
+      toast({
+        title: "Email saved",
+        description: `Check ${updated.email} for a link to confirm it.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't save email", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!user) return null;
+  const verified = !!user.email && !!user.emailVerifiedAt;
+
+  const renderContent = () => {
+    if (verified) {
+      return <p className="text-sm">{user.email}</p>;
+    }
+
+    if (user.email && !editing) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm">
+            {user.email} <span className="text-muted-foreground">isn't confirmed yet.</span>
+          </p>
+          <Button variant="outline" onClick={() => setEditing(true)}>
+            Use a different email
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <form
+        className="space-y-4"
+        onSubmit={(e) => {
+          e.preventDefault();
+          saveMutation.mutate(email);
+        }}
+      >
+        <div className="space-y-2">
+          <Label htmlFor="account-email">Email</Label>
+          <Input
+            id="account-email"
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+          <p className="text-sm text-muted-foreground">
+            {user.email
+              ? "We'll send a confirmation link to the new address. The old link stops working."
+              : "Your account has no email, so you can't reset a forgotten password. We'll send a link to confirm it; until then you can't post, comment or start chats."}
+          </p>
+        </div>
+        <div className="flex justify-end gap-2">
+          {user.email && (
+            <Button type="button" variant="outline" onClick={() => setEditing(false)}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={!email.trim() || saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save email
+          </Button>
+        </div>
+      </form>
+    );
+  };
+
+  return (
+    <Card className="max-w-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5 text-primary" />
+          Email
+          {verified && <Badge variant="secondary">Confirmed</Badge>}
+        </CardTitle>
+        <CardDescription>Where we send confirmation and password reset links.</CardDescription>
+      </CardHeader>
+      <CardContent>{renderContent()}</CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,78 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { forgotPasswordSchema } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2, MailCheck } from "lucide-react";
+
+type ForgotPasswordData = z.infer<typeof forgotPasswordSchema>;
+
+export function ForgotPasswordForm({ onBack }: { onBack: () => void }) {
+  const { toast } = useToast();
+  const form = useForm<ForgotPasswordData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: "" },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordData) => {
+      await apiRequest("POST", "/api/forgot-password", data);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send reset link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The server answers the same whether or not the email has an account
+  if (requestMutation.isSuccess) {
+    return (
+      <div className="space-y-4 text-center">
+        <MailCheck className="h-10 w-10 mx-auto text-primary" />
+        <p className="text-sm text-muted-foreground">
+          If an account uses {form.getValues("email")}, we've sent it a link to reset the password. The link
+          works once and expires soon, so use it today.
+        </p>
+        <Button variant="outline" className="w-full" onClick={onBack}>
+          Back to login
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => requestMutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" autoComplete="email" {...field} />
+              </FormControl>
+              <FormDescription>We'll email you a link to choose a new password.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={requestMutation.isPending}>
+          {requestMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Send reset link
+        </Button>
+        <Button type="button" variant="link" className="w-full" onClick={onBack}>
+          Back to login
+        </Button>
+      </form>
+    </Form>
+  );
+}
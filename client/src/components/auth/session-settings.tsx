@@ -0,0 +1,138 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import type { ActiveSession } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Laptop, Loader2, MonitorSmartphone, Smartphone } from "lucide-react";
+
+// A short name for the browser and system, e.g. "Firefox on Windows"
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser =
+    [
+      ["Edg/", "Edge"],
+      ["OPR/", "Opera"],
+      ["Firefox/", "Firefox"],
+      ["Chrome/", "Chrome"],
+      ["Safari/", "Safari"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "Unknown browser";
+  const system =
+    [
+      ["Android", "Android"],
+      ["iPhone", "iPhone"],
+      ["iPad", "iPad"],
+      ["Windows", "Windows"],
+      ["Mac OS X", "macOS"],
+      ["Linux", "Linux"],
+    ].find(([token]) => userAgent.includes(token))?.[1];
+  return system ? `${browser} on ${system}` : browser;
+}
+
+function isMobile(userAgent: string | null): boolean {
+  return !!userAgent && /Android|iPhone|iPad|Mobile/.test(userAgent);
+}
+
+// Lists where the user is signed in and signs out other sessions
+export function SessionSettings() {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/sessions"],
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Couldn't sign out", description: error.message, variant: "destructive" });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/sessions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({ title: "Session signed out" });
+    },
+    onError,
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/sessions");
+      return (await res.json()) as { revoked: number };
+    },
+    onSuccess: ({ revoked }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({ title: revoked === 1 ? "Signed out 1 other session" : `Signed out ${revoked} other sessions` });
+    },
+    onError,
+  });
+
+  const hasOthers = sessions.some((session) => !session.current);
+
+  return (
+    <Card className="max-w-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MonitorSmartphone className="h-5 w-5 text-primary" />
+          Where you're signed in
+        </CardTitle>
+        <CardDescription>Sign out anything you don't recognise, then change your password.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : (
+          <ul className="divide-y">
+            {sessions.map((session) => {
+              const Icon = isMobile(session.userAgent) ? Smartphone : Laptop;
+              return (
+                <li key={session.id} className="flex items-center gap-3 py-3">
+                  <Icon className="h-5 w-5 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <p className="flex items-center gap-2 text-sm font-medium">
+                      {describeUserAgent(session.userAgent)}
+                      {session.current && <Badge variant="secondary">This device</Badge>}
+                    </p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      {[
+                        session.ip,
+                        session.lastSeenAt &&
+                          `last active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ") || "No details recorded"}
+                    </p>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={revokeMutation.isPending && revokeMutation.variables === session.id}
+                      onClick={() => revokeMutation.mutate(session.id)}
+                    >
+                      Sign out
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {hasOthers && (
+          <Button
+            variant="outline"
+            className="text-destructive"
+            disabled={revokeOthersMutation.isPending}
+            onClick={() => revokeOthersMutation.mutate()}
+          >
+            {revokeOthersMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Sign out all other sessions
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { TotpCodeInput } from "./totp-code-input";
+
+// Second step of logging in to an account with two-factor authentication
+export function TwoFactorLoginForm({ onBack, onSuccess }: { onBack: () => void; onSuccess: () => void }) {
+  const { twoFactorLoginMutation } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+
+  const submit = (value: string) => {
+    if (!value.trim() || twoFactorLoginMutation.isPending) return;
+    twoFactorLoginMutation.mutate(
+      { code: value },
+      {
+        onSuccess,
+        onError: () => setCode(""),
+      },
+    );
+  };
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit(code);
+      }}
+    >
+      <div className="space-y-2 text-center">
+        <ShieldCheck className="h-10 w-10 mx-auto text-primary" />
+        <p className="text-sm text-muted-foreground">
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you turned on two-factor authentication. Each code works once."
+            : "Enter the 6-digit code from your authenticator app."}
+        </p>
+      </div>
+
+      {useRecoveryCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="recovery-code">Recovery code</Label>
+          <Input
+            id="recovery-code"
+            autoComplete="off"
+            autoFocus
+            placeholder="xxxxx-xxxxx"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+        </div>
+      ) : (
+        <TotpCodeInput
+          value={code}
+          onChange={setCode}
+          onComplete={submit}
+          disabled={twoFactorLoginMutation.isPending}
+        />
+      )}
+
+      <Button type="submit" className="w-full" disabled={twoFactorLoginMutation.isPending || !code.trim()}>
+        {twoFactorLoginMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Verify
+      </Button>
+      <div className="flex justify-between">
+        <Button type="button" variant="link" className="px-0" onClick={onBack}>
+          Back to login
+        </Button>
+        <Button
+          type="button"
+          variant="link"
+          className="px-0"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode("");
+          }}
+        >
+          {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+        </Button>
+      </div>
+    </form>
+  );
+}
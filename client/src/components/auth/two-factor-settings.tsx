@@ -0,0 +1,282 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Copy, Download, Loader2, ShieldCheck } from "lucide-react";
+import { TotpCodeInput } from "./totp-code-input";
+
+type RecoveryCodesResponse = { recoveryCodes: string[] };
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+  const text = codes.join("\n");
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each one logs you in once if you lose your authenticator app. They
+        won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => navigator.clipboard.writeText(text).then(() => toast({ title: "Recovery codes copied" }))}
+        >
+          <Copy className="mr-2 h-4 w-4" />
+          Copy
+        </Button>
+        <Button variant="outline" size="sm" asChild>
+          <a href={`data:text/plain;charset=utf-8,${encodeURIComponent(text)}`} download="mero-kamkotha-recovery-codes.txt">
+            <Download className="mr-2 h-4 w-4" />
+            Download
+          </a>
+        </Button>
+        <Button size="sm" className="ml-auto" onClick={onDone}>
+          I've saved them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Turns two-factor authentication on and off and replaces recovery codes
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  // Which change is waiting for a code to confirm it
+  const [confirming, setConfirming] = useState<"disable" | "regenerate" | null>(null);
+  const [code, setCode] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/2fa"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    setCode("");
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/setup");
+      return (await res.json()) as TwoFactorSetup;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: onError("Couldn't start setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const res = await apiRequest("POST", "/api/2fa/enable", { code: value });
+      return (await res.json()) as RecoveryCodesResponse;
+    },
+    onSuccess: (data) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      refresh();
+    },
+    onError: onError("Couldn't turn on two-factor authentication"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const res = await apiRequest("POST", "/api/2fa/recovery-codes", { code: value });
+      return (await res.json()) as RecoveryCodesResponse;
+    },
+    onSuccess: (data) => {
+      setConfirming(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      refresh();
+    },
+    onError: onError("Couldn't create new recovery codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (value: string) => {
+      await apiRequest("POST", "/api/2fa/disable", { code: value });
+    },
+    onSuccess: () => {
+      setConfirming(null);
+      setCode("");
+      refresh();
+      toast({ title: "Two-factor authentication is off" });
+    },
+    onError: onError("Couldn't turn off two-factor authentication"),
+  });
+
+  const cancel = () => {
+    setSetup(null);
+    setConfirming(null);
+    setCode("");
+  };
+
+  const renderContent = () => {
+    if (recoveryCodes) {
+      return <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />;
+    }
+
+    if (setup) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Scan this QR code with an authenticator app such as Google Authenticator, Authy or 1Password, then enter
+            the 6-digit code it shows.
+          </p>
+          <img src={setup.qrCode} alt="QR code for your authenticator app" className="mx-auto h-48 w-48" />
+          <p className="text-center text-xs text-muted-foreground">
+            Can't scan it? Enter this key instead:
+            <span className="block break-all font-mono text-sm text-foreground">{setup.secret}</span>
+          </p>
+          <TotpCodeInput
+            value={code}
+            onChange={setCode}
+            onComplete={(value) => enableMutation.mutate(value)}
+            disabled={enableMutation.isPending}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={cancel}>
+              Cancel
+            </Button>
+            <Button disabled={code.length < 6 || enableMutation.isPending} onClick={() => enableMutation.mutate(code)}>
+              {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Turn on
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (confirming === "regenerate") {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Enter a code from your authenticator app. Your current recovery codes will stop working.
+          </p>
+          <TotpCodeInput
+            value={code}
+            onChange={setCode}
+            onComplete={(value) => regenerateMutation.mutate(value)}
+            disabled={regenerateMutation.isPending}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={cancel}>
+              Cancel
+            </Button>
+            <Button
+              disabled={code.length < 6 || regenerateMutation.isPending}
+              onClick={() => regenerateMutation.mutate(code)}
+            >
+              {regenerateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create new codes
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (confirming === "disable") {
+      return (
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            disableMutation.mutate(code);
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="disable-2fa-code">Code from your authenticator app or a recovery code</Label>
+            <Input
+              id="disable-2fa-code"
+              autoComplete="one-time-code"
+              autoFocus
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={cancel}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={!code.trim() || disableMutation.isPending}>
+              {disableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Turn off
+            </Button>
+          </div>
+        </form>
+      );
+    }
+
+    if (status?.enabled) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Logging in needs a code from your authenticator app as well as your password.{" "}
+            {status.recoveryCodesRemaining === 1
+              ? "You have 1 recovery code left."
+              : `You have ${status.recoveryCodesRemaining} recovery codes left.`}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => setConfirming("regenerate")}>
+              New recovery codes
+            </Button>
+            <Button variant="outline" className="text-destructive" onClick={() => setConfirming("disable")}>
+              Turn off
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Ask for a code from an authenticator app whenever you log in, so a stolen password isn't enough to take
+          over your account.
+        </p>
+        <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+          {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Set up two-factor authentication
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <Card className="max-w-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          Two-factor authentication
+          {status?.enabled && <Badge variant="secondary">On</Badge>}
+        </CardTitle>
+        <CardDescription>Protect your account with a second step at login.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" /> : renderContent()}
+      </CardContent>
+    </Card>
+  );
+}
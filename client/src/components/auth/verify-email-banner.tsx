@@ -0,0 +1,55 @@
+import { useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Loader2, MailWarning } from "lucide-react";
+
+// Shown until the signed-in user confirms their email. Accounts without an
+// email have nothing to confirm.
+export function VerifyEmailBanner() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/verify-email/resend");
+    },
+    onSuccess: () => {
+      toast({
+        title: "Link sent",
+        description: `Check ${user?.email} for a new confirmation link.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user?.email || user.emailVerifiedAt) return null;
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200 dark:bg-amber-900/20 dark:border-amber-800">
+      <div className="container mx-auto px-4 py-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+        <p className="flex items-center gap-2 text-amber-900 dark:text-amber-100">
+          <MailWarning className="h-4 w-4 shrink-0" />
+          Confirm your email address, {user.email}, so you can use it to reset your password.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          className="border-amber-300"
+          disabled={resendMutation.isPending || resendMutation.isSuccess}
+          onClick={() => resendMutation.mutate()}
+        >
+          {resendMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {resendMutation.isSuccess ? "Link sent" : "Resend link"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
+import { showUndoDeleteToast } from "@/lib/undo-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
   AlertDialog,
@@ -60,9 +61,10 @@ export function ChatList({ onSelectChat, selectedChatId, onlineUsers }: ChatList
       queryClient.setQueryData<ChatWithParticipants[]>(["/api/chats"], (old = []) =>
         old.filter((chat) => chat.id !== chatId)
       );
-      toast({
+      showUndoDeleteToast({
         title: "Chat deleted",
-        description: "The chat has been deleted successfully.",
+        restoreUrl: `/api/chats/${chatId}/restore`,
+        queryKeys: [["/api/chats"]],
       });
     },
     onError: (error: Error) => {
@@ -214,7 +216,7 @@ export function ChatList({ onSelectChat, selectedChatId, onlineUsers }: ChatList
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Chat History</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this chat history? This action cannot be undone.
+              Are you sure you want to delete this chat history? You can undo this for a short while afterwards.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -5,8 +5,9 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { UserCircle, MoreVertical, Edit, Trash, Check, X, MessageSquare, ChevronDown, ChevronUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import type { Comment, User } from "@shared/schema";
+import type { CommentWithAuthor, CurrentUser } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { showUndoDeleteToast } from "@/lib/undo-toast";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -24,12 +25,10 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
-type CommentWithUsername = Comment & { username?: string };
-
 interface CommentThreadProps {
-  comment: CommentWithUsername;
-  replies: CommentWithUsername[];
-  currentUser: User | null;
+  comment: CommentWithAuthor;
+  replies: CommentWithAuthor[];
+  currentUser: CurrentUser | null;
   postId: number;
   level?: number;
 }
@@ -75,7 +74,7 @@ export function CommentThread({ comment, replies, currentUser, postId, level = 0
       return await res.json();
     },
     onSuccess: (updatedComment) => {
-      queryClient.setQueryData<CommentWithUsername[]>(
+      queryClient.setQueryData<CommentWithAuthor[]>(
         ["/api/posts", postId, "comments"],
         (old = []) => old.map(c => c.id === updatedComment.id ? updatedComment : c)
       );
@@ -92,20 +91,22 @@ export function CommentThread({ comment, replies, currentUser, postId, level = 0
       await apiRequest("DELETE", `/api/comments/${id}`);
     },
     onSuccess: (_, deletedId) => {
-      queryClient.setQueryData<CommentWithUsername[]>(
-        ["/api/posts", postId, "comments"],
-        (old = []) => old.filter(c => c.id !== deletedId)
-      );
+      // Refetch rather than drop it, since a comment with replies stays
+      // behind as a placeholder
+      queryClient.invalidateQueries({ queryKey: ["/api/posts", postId, "comments"] });
       setCommentToDelete(null);
-      toast({
-        title: "Success",
-        description: "Comment deleted successfully",
+      showUndoDeleteToast({
+        title: "Comment deleted",
+        restoreUrl: `/api/comments/${deletedId}/restore`,
+        queryKeys: [["/api/posts", postId, "comments"]],
       });
     },
   });
 
+  // Deleted comments with replies come back as placeholders with no content
+  const isDeleted = comment.deletedAt !== null;
   // Only allow nesting up to 3 levels
-  const canReply = level < 3;
+  const canReply = level < 3 && !isDeleted;
   const nestedReplies = replies.filter(reply => reply.parentId === comment.id);
   const hasReplies = nestedReplies.length > 0;
 
@@ -129,7 +130,7 @@ export function CommentThread({ comment, replies, currentUser, postId, level = 0
             <p className={`text-sm font-medium ${
               comment.userId === currentUser?.id ? "text-blue-600" : ""
             }`}>
-              {comment.username || "Unknown"}
+              {isDeleted ? "[deleted]" : comment.username || "Unknown"}
             </p>
             <span className="text-xs text-muted-foreground">
               {format(new Date(comment.createdAt), "MMM d, yyyy 'at' h:mm a")}
@@ -141,7 +142,7 @@ export function CommentThread({ comment, replies, currentUser, postId, level = 0
             </span>
           </div>
 
-          {currentUser && comment.userId === currentUser.id && (
+          {currentUser && comment.userId === currentUser.id && !isDeleted && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" size="icon" className="h-8 w-8">
@@ -197,13 +198,17 @@ export function CommentThread({ comment, replies, currentUser, postId, level = 0
           </div>
         ) : (
           <div className="mt-1.5 pl-6">
-            <p className={`text-sm ${
-              comment.userId === currentUser?.id
-                ? "text-blue-900 dark:text-blue-100 font-medium"
-                : "text-gray-700 dark:text-gray-300"
-            }`}>
-              {comment.content}
-            </p>
+            {isDeleted ? (
+              <p className="text-sm italic text-muted-foreground">[deleted]</p>
+            ) : (
+              <p className={`text-sm ${
+                comment.userId === currentUser?.id
+                  ? "text-blue-900 dark:text-blue-100 font-medium"
+                  : "text-gray-700 dark:text-gray-300"
+              }`}>
+                {comment.content}
+              </p>
+            )}
             <div className="flex gap-2 mt-2">
               {currentUser && canReply && (
                 <Button
@@ -278,7 +283,7 @@ export function CommentThread({ comment, replies, currentUser, postId, level = 0
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Comment</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this comment? This action cannot be undone.
+              Are you sure you want to delete this comment? You can undo this for a short while afterwards.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
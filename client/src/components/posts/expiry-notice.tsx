@@ -0,0 +1,62 @@
+import { useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import type { Post } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Clock, RefreshCw } from "lucide-react";
+
+// Shown above the owner's own posts once the expiry scheduler has warned
+// about them, and after they have expired
+export function ExpiryNotice({ post }: { post: Post }) {
+  const { toast } = useToast();
+
+  const renewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/posts/${post.id}/renew`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Post renewed",
+        description: "Your post will stay up for another expiry period",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const expired = post.status === "expired";
+  if (!expired && !post.expiryWarnedAt) return null;
+
+  const distance = formatDistanceToNow(new Date(post.expiresAt), { addSuffix: true });
+
+  return (
+    <div
+      className={`flex items-center justify-between gap-3 rounded-lg border px-4 py-2 mb-2 text-sm ${
+        expired ? "border-destructive/30 bg-destructive/10" : "border-amber-500/30 bg-amber-500/10"
+      }`}
+    >
+      <span className="flex items-center gap-2">
+        <Clock className="h-4 w-4" />
+        {expired ? `Expired ${distance}` : `Expires ${distance}`}
+      </span>
+      <Button
+        size="sm"
+        variant="outline"
+        className="gap-2"
+        disabled={renewMutation.isPending}
+        onClick={() => renewMutation.mutate()}
+      >
+        <RefreshCw className={`h-3 w-3 ${renewMutation.isPending ? "animate-spin" : ""}`} />
+        Renew
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { Fragment } from "react";
+
+interface HighlightedTextProps {
+  // Text with matched terms wrapped in <mark></mark> by the search endpoint
+  text: string;
+}
+
+// Renders search highlights as React nodes rather than HTML, so post content
+// can never inject markup
+export function HighlightedText({ text }: HighlightedTextProps) {
+  const parts = text.split(/<mark>|<\/mark>/);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200/70 dark:bg-yellow-500/30 text-inherit rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        ),
+      )}
+    </>
+  );
+}
@@ -1,18 +1,27 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { ChevronLeft, ChevronRight, X, ZoomIn } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
+import { getImageSrcSet, getImageVariantUrl } from "@shared/schema";
 
 interface ImageSliderProps {
   images: string[];
+  // Rendered width of the main image, so the browser can pick a size
+  sizes?: string;
 }
 
-export function ImageSlider({ images }: ImageSliderProps) {
+export function ImageSlider({ images, sizes = "100vw" }: ImageSliderProps) {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
 
+  // The first image is the cover, so go back to it when the owner edits the set
+  const imagesKey = images.join("\n");
+  useEffect(() => {
+    setCurrentIndex(0);
+  }, [imagesKey]);
+
   const nextImage = () => {
     setCurrentIndex((prev) => (prev + 1) % images.length);
   };
@@ -28,7 +37,9 @@ export function ImageSlider({ images }: ImageSliderProps) {
         <AnimatePresence mode="wait">
           <motion.img
             key={currentIndex}
-            src={images[currentIndex]}
+            src={getImageVariantUrl(images[currentIndex], "card")}
+            srcSet={getImageSrcSet(images[currentIndex])}
+            sizes={sizes}
             alt={`Image ${currentIndex + 1}`}
             className="absolute inset-0 w-full h-full object-cover"
             initial={{ opacity: 0, scale: 1.1 }}
@@ -86,8 +97,9 @@ export function ImageSlider({ images }: ImageSliderProps) {
             onClick={() => setCurrentIndex(index)}
           >
             <img
-              src={image}
+              src={getImageVariantUrl(image, "thumb")}
               alt={`Thumbnail ${index + 1}`}
+              loading="lazy"
               className="w-full h-full object-cover"
             />
             {hoveredIndex === index && (
@@ -119,6 +131,8 @@ export function ImageSlider({ images }: ImageSliderProps) {
               <motion.img
                 key={currentIndex}
                 src={images[currentIndex]}
+                srcSet={getImageSrcSet(images[currentIndex])}
+                sizes="95vw"
                 alt={`Fullscreen ${currentIndex + 1}`}
                 className="absolute inset-0 w-full h-full object-contain"
                 initial={{ opacity: 0, scale: 1.1 }}
@@ -0,0 +1,246 @@
+import { useState } from "react";
+import type { Control } from "react-hook-form";
+import { format, isBefore, startOfDay } from "date-fns";
+import type { InsertPost, JobDetails } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Briefcase, CalendarClock, Wallet } from "lucide-react";
+
+export const EMPLOYMENT_TYPE_LABELS: Record<JobDetails["employmentType"], string> = {
+  "full-time": "Full-time",
+  "part-time": "Part-time",
+  contract: "Contract",
+  "daily-wage": "Daily wage",
+};
+
+export const SALARY_PERIOD_LABELS: Record<JobDetails["salaryPeriod"], string> = {
+  hour: "hour",
+  day: "day",
+  month: "month",
+  year: "year",
+};
+
+export function getDefaultJobDetails(): JobDetails {
+  return {
+    salaryMin: null,
+    salaryMax: null,
+    salaryPeriod: "month",
+    employmentType: "full-time",
+    skills: [],
+    applicationDeadline: null,
+  };
+}
+
+export function isDeadlinePassed(details: JobDetails) {
+  if (!details.applicationDeadline) return false;
+  return isBefore(new Date(`${details.applicationDeadline}T00:00:00`), startOfDay(new Date()));
+}
+
+// "NPR 25,000–35,000 / month", or null when no salary was given
+export function formatSalary(details: JobDetails) {
+  const { salaryMin, salaryMax, salaryPeriod } = details;
+  if (salaryMin === null && salaryMax === null) return null;
+
+  let amount: string;
+  if (salaryMin !== null && salaryMax !== null && salaryMin !== salaryMax) {
+    amount = `${salaryMin.toLocaleString()}–${salaryMax.toLocaleString()}`;
+  } else if (salaryMin !== null && salaryMax === null) {
+    amount = `${salaryMin.toLocaleString()}+`;
+  } else if (salaryMin === null && salaryMax !== null) {
+    amount = `up to ${salaryMax.toLocaleString()}`;
+  } else {
+    amount = salaryMin!.toLocaleString();
+  }
+  return `NPR ${amount} / ${SALARY_PERIOD_LABELS[salaryPeriod]}`;
+}
+
+// Keeps the raw text locally so commas and spaces can be typed freely
+function SkillsInput({ value, onChange }: { value: string[]; onChange: (skills: string[]) => void }) {
+  const [text, setText] = useState(value.join(", "));
+
+  return (
+    <Input
+      placeholder="e.g., driving, cooking, MS Excel"
+      className="bg-background/50"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(
+          e.target.value
+            .split(",")
+            .map((skill) => skill.trim())
+            .filter(Boolean),
+        );
+      }}
+    />
+  );
+}
+
+function NullableNumberInput({ value, onChange }: { value: number | null; onChange: (value: number | null) => void }) {
+  return (
+    <Input
+      type="number"
+      min={0}
+      placeholder="Amount"
+      className="bg-background/50"
+      value={value ?? ""}
+      onChange={(e) => onChange(e.target.value ? Number(e.target.value) : null)}
+    />
+  );
+}
+
+export function JobDetailsFields({ control }: { control: Control<InsertPost> }) {
+  return (
+    <div className="bg-gradient-to-br from-blue-500/10 via-blue-500/5 to-transparent border border-muted-foreground/10 rounded-lg p-6 space-y-4">
+      <p className="flex items-center gap-2 text-sm font-medium">
+        <Briefcase className="h-5 w-5 text-blue-500" />
+        Job Details
+      </p>
+
+      <div className="grid grid-cols-3 gap-4">
+        <FormField
+          control={control}
+          name="jobDetails.salaryMin"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Salary from (NPR)</FormLabel>
+              <FormControl>
+                <NullableNumberInput value={field.value ?? null} onChange={field.onChange} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="jobDetails.salaryMax"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Salary to (NPR)</FormLabel>
+              <FormControl>
+                <NullableNumberInput value={field.value ?? null} onChange={field.onChange} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="jobDetails.salaryPeriod"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Per</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger className="bg-background/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(SALARY_PERIOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={control}
+          name="jobDetails.employmentType"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Employment type</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger className="bg-background/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(EMPLOYMENT_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name="jobDetails.applicationDeadline"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Apply by</FormLabel>
+              <FormControl>
+                <Input
+                  type="date"
+                  className="bg-background/50"
+                  value={field.value ?? ""}
+                  onChange={(e) => field.onChange(e.target.value || null)}
+                />
+              </FormControl>
+              <FormDescription>The post leaves the feed after this date</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <FormField
+        control={control}
+        name="jobDetails.skills"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Required skills</FormLabel>
+            <FormControl>
+              <SkillsInput value={field.value ?? []} onChange={field.onChange} />
+            </FormControl>
+            <FormDescription>Separate skills with commas</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
+
+export function JobDetailsSummary({ details }: { details: JobDetails }) {
+  const salary = formatSalary(details);
+  const expired = isDeadlinePassed(details);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="secondary">{EMPLOYMENT_TYPE_LABELS[details.employmentType]}</Badge>
+        {salary && (
+          <Badge variant="secondary" className="gap-1">
+            <Wallet className="h-3 w-3" />
+            {salary}
+          </Badge>
+        )}
+        {details.applicationDeadline && (
+          <Badge variant={expired ? "destructive" : "outline"} className="gap-1">
+            <CalendarClock className="h-3 w-3" />
+            {expired ? "Applications closed" : "Apply by"}{" "}
+            {format(new Date(`${details.applicationDeadline}T00:00:00`), "EEE, MMM d")}
+          </Badge>
+        )}
+      </div>
+      {details.skills.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {details.skills.map((skill) => (
+            <Badge key={skill} variant="outline" className="font-normal">{skill}</Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
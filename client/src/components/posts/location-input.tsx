@@ -0,0 +1,80 @@
+import { forwardRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Place } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { MapPin } from "lucide-react";
+
+interface LocationInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSelectPlace?: (place: Place) => void;
+  placeholder?: string;
+  className?: string;
+  disabled?: boolean;
+}
+
+// Text input with suggestions from the server's offline gazetteer. Picking a
+// suggestion fills in the canonical place name, which geocodes reliably.
+export const LocationInput = forwardRef<HTMLInputElement, LocationInputProps>(
+  ({ value, onChange, onSelectPlace, placeholder, className, disabled }, ref) => {
+    const [open, setOpen] = useState(false);
+    const query = value.split(",")[0].trim();
+
+    const { data: places = [] } = useQuery<Place[]>({
+      queryKey: ["/api/places", query],
+      queryFn: async () => {
+        const res = await fetch(`/api/places?q=${encodeURIComponent(query)}`);
+        if (!res.ok) throw new Error("Failed to fetch places");
+        return res.json();
+      },
+      enabled: open && query.length >= 2,
+      staleTime: Infinity,
+    });
+
+    const selectPlace = (place: Place) => {
+      onChange(`${place.name}, ${place.district}`);
+      onSelectPlace?.(place);
+      setOpen(false);
+    };
+
+    return (
+      <div className="relative">
+        <Input
+          ref={ref}
+          value={value}
+          placeholder={placeholder}
+          className={className}
+          disabled={disabled}
+          autoComplete="off"
+          onChange={(e) => {
+            onChange(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          // Delay so a click on a suggestion lands before the list closes
+          onBlur={() => setTimeout(() => setOpen(false), 150)}
+        />
+        {open && places.length > 0 && (
+          <ul className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+            {places.map((place) => (
+              <li key={`${place.name}-${place.district}`}>
+                <button
+                  type="button"
+                  className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => selectPlace(place)}
+                >
+                  <MapPin className="h-3 w-3 text-muted-foreground" />
+                  {place.name}
+                  <span className="text-muted-foreground">{place.district}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  },
+);
+
+LocationInput.displayName = "LocationInput";
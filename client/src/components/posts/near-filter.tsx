@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Crosshair, Navigation } from "lucide-react";
+import { LocationInput } from "./location-input";
+
+export type NearFilterValue = {
+  label: string;
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+};
+
+const RADIUS_OPTIONS = [1, 2, 5, 10, 25, 50];
+
+interface NearFilterProps {
+  value: NearFilterValue | null;
+  onChange: (value: NearFilterValue | null) => void;
+  disabled?: boolean;
+}
+
+export function NearFilter({ value, onChange, disabled }: NearFilterProps) {
+  const { toast } = useToast();
+  const [placeText, setPlaceText] = useState("");
+  const [radiusKm, setRadiusKm] = useState(value?.radiusKm ?? 5);
+
+  // Uses the device's own position, so it works without a network lookup
+  const useCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast({ title: "Location unavailable", description: "Your browser does not share location", variant: "destructive" });
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        onChange({ label: "My location", latitude: coords.latitude, longitude: coords.longitude, radiusKm });
+      },
+      (error) => {
+        toast({ title: "Location unavailable", description: error.message, variant: "destructive" });
+      },
+    );
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" disabled={disabled} className="gap-2 w-full md:w-auto bg-background/50">
+          <Navigation className="h-4 w-4" />
+          {value ? `${value.label} · ${value.radiusKm} km` : "Near"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4" align="end">
+        <div className="space-y-1.5">
+          <Label>Place</Label>
+          <LocationInput
+            value={placeText}
+            onChange={setPlaceText}
+            placeholder="e.g., Baneshwor"
+            onSelectPlace={(place) =>
+              onChange({ label: place.name, latitude: place.latitude, longitude: place.longitude, radiusKm })
+            }
+          />
+        </div>
+
+        <Button variant="secondary" size="sm" className="w-full gap-2" onClick={useCurrentLocation}>
+          <Crosshair className="h-4 w-4" />
+          Use my location
+        </Button>
+
+        <div className="space-y-1.5">
+          <Label>Within</Label>
+          <Select
+            value={String(radiusKm)}
+            onValueChange={(v) => {
+              setRadiusKm(Number(v));
+              if (value) onChange({ ...value, radiusKm: Number(v) });
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RADIUS_OPTIONS.map((km) => (
+                <SelectItem key={km} value={String(km)}>{km} km</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {value && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full"
+            onClick={() => {
+              setPlaceText("");
+              onChange(null);
+            }}
+          >
+            Clear distance filter
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
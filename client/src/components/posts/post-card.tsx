@@ -15,17 +15,26 @@ import {
   Edit,
   Trash,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  CircleDot,
+  Share2
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
-import type { Post, Comment } from "@shared/schema";
+import { Link } from "wouter";
+import { getAllowedPostStatuses, openPostStatuses } from "@shared/schema";
+import type { Post, CommentWithAuthor, PostSearchResult, PostStatus } from "@shared/schema";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
+import { showUndoDeleteToast } from "@/lib/undo-toast";
 import { socket } from "@/lib/socket";
 import { CommentThread } from './comment-thread';
 import { Input } from "@/components/ui/input";
 import { PostForm } from "./post-form";
+import { PostHistoryDialog } from "./post-history-dialog";
 import { ImageSlider } from "./image-slider";
+import { HighlightedText } from "./highlighted-text";
+import { RoomDetailsSummary } from "./room-details";
+import { JobDetailsSummary } from "./job-details";
 import { UserProfileDialog } from "@/components/user/user-profile-dialog";
 import { AlertDialog,
   AlertDialogAction,
@@ -40,31 +49,47 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
 
 
 type BookmarkResponse = { bookmarked: boolean };
 type PostWithUsername = Post & { username?: string };
-type CommentWithUsername = Comment & { username?: string };
+
+const STATUS_LABELS: Record<PostStatus, string> = {
+  available: "Available",
+  pending: "Pending",
+  rented: "Rented",
+  filled: "Filled",
+  archived: "Archived",
+  expired: "Expired",
+};
 
 type PostCardProps = {
   post: PostWithUsername;
   inSavedPosts?: boolean;
+  highlights?: PostSearchResult["highlights"];
+  // On the post's own page: full description, comments open, no self-link
+  detailed?: boolean;
 };
 
-export function PostCard({ post, inSavedPosts = false }: PostCardProps) {
+export function PostCard({ post, inSavedPosts = false, highlights, detailed = false }: PostCardProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const [comment, setComment] = useState("");
-  const [showComments, setShowComments] = useState(false);
+  const [showComments, setShowComments] = useState(detailed);
   const [isBookmarked, setIsBookmarked] = useState(false);
   const [showUnsaveConfirm, setShowUnsaveConfirm] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
-  const [isDescriptionExpanded, setIsDescriptionExpanded] = useState(false);
+  const [isDescriptionExpanded, setIsDescriptionExpanded] = useState(detailed);
   const [showProfileDialog, setShowProfileDialog] = useState(false);
+  const [showHistoryDialog, setShowHistoryDialog] = useState(false);
 
   // Function to check if description is long
   const isLongDescription = post.description.length > 150;
@@ -82,7 +107,7 @@ export function PostCard({ post, inSavedPosts = false }: PostCardProps) {
     enabled: !!user,
   });
 
-  const { data: comments = [], isLoading: commentsLoading } = useQuery<CommentWithUsername[]>({
+  const { data: comments = [], isLoading: commentsLoading } = useQuery<CommentWithAuthor[]>({
     queryKey: ["/api/posts", post.id, "comments"],
     queryFn: async () => {
       console.log(`Fetching comments for post ${post.id}`);
@@ -107,10 +132,10 @@ export function PostCard({ post, inSavedPosts = false }: PostCardProps) {
     socket.emit("join-post", post.id.toString());
     console.log(`Joined post room: ${post.id}`);
 
-    socket.on("new-comment", (newComment: CommentWithUsername) => {
+    socket.on("new-comment", (newComment: CommentWithAuthor) => {
       if (newComment.postId === post.id) {
         console.log('Received new comment:', newComment);
-        queryClient.setQueryData<CommentWithUsername[]>(
+        queryClient.setQueryData<CommentWithAuthor[]>(
           ["/api/posts", post.id, "comments"],
           (old = []) => {
             const exists = old.some(c => c.id === newComment.id);
@@ -197,9 +222,32 @@ export function PostCard({ post, inSavedPosts = false }: PostCardProps) {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      showUndoDeleteToast({
+        title: "Post deleted",
+        restoreUrl: `/api/posts/${post.id}/restore`,
+        queryKeys: [["/api/posts"], ["/api/users"], ["/api/user/bookmarks"]],
+      });
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Success",
-        description: "Post deleted successfully",
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: PostStatus) => {
+      const res = await apiRequest("PATCH", `/api/posts/${post.id}`, { status });
+      return await res.json();
+    },
+    onSuccess: (_, status) => {
+      // Lists pick up the change from the "post-updated" broadcast
+      toast({
+        title: "Status updated",
+        description: `Post marked as ${STATUS_LABELS[status].toLowerCase()}`,
       });
     },
     onError: (error: Error) => {
@@ -211,6 +259,25 @@ export function PostCard({ post, inSavedPosts = false }: PostCardProps) {
     },
   });
 
+  const isNoLongerAvailable = !openPostStatuses.includes(post.status);
+
+  const handleShare = async () => {
+    const url = `${window.location.origin}/posts/${post.id}`;
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: post.title, url });
+      } catch {
+        // The user closed the share sheet
+      }
+      return;
+    }
+    await navigator.clipboard.writeText(url);
+    toast({
+      title: "Link copied",
+      description: "Share it anywhere to show this post",
+    });
+  };
+
   const topLevelComments = comments.filter(comment => !comment.parentId);
 
   const handleBookmarkClick = () => {
@@ -229,7 +296,7 @@ export function PostCard({ post, inSavedPosts = false }: PostCardProps) {
       whileHover={{ y: -4 }}
       className="will-change-transform"
     >
-      <Card className="relative overflow-hidden bg-gradient-to-br from-card to-muted/5 border-muted-foreground/10 hover:border-primary/20 transition-colors">
+      <Card className={`${inSavedPosts && isNoLongerAvailable ? "opacity-75 " : ""}relative overflow-hidden bg-gradient-to-br from-card to-muted/5 border-muted-foreground/10 hover:border-primary/20 transition-colors`}>
         <CardHeader className="pb-3">
           <div className="flex items-start justify-between">
             <motion.div
@@ -247,13 +314,26 @@ export function PostCard({ post, inSavedPosts = false }: PostCardProps) {
                   {post.username || "Unknown"}
                 </button>
               </div>
+              {inSavedPosts && isNoLongerAvailable ? (
+                <Badge variant="destructive">No longer available</Badge>
+              ) : post.status !== "available" && (
+                <Badge variant={isNoLongerAvailable ? "secondary" : "outline"}>
+                  {STATUS_LABELS[post.status]}
+                </Badge>
+              )}
               <motion.h2
                 initial={{ y: -10, opacity: 0 }}
                 animate={{ y: 0, opacity: 1 }}
                 transition={{ delay: 0.2 }}
                 className="text-2xl font-bold leading-none tracking-tight bg-gradient-to-r from-foreground to-foreground/80 bg-clip-text text-transparent"
               >
-                {post.title}
+                {detailed ? (
+                  post.title
+                ) : (
+                  <Link href={`/posts/${post.id}`} className="hover:underline decoration-foreground/40">
+                    {highlights ? <HighlightedText text={highlights.title} /> : post.title}
+                  </Link>
+                )}
               </motion.h2>
             </motion.div>
             <div className="flex items-center gap-2">
@@ -261,9 +341,13 @@ export function PostCard({ post, inSavedPosts = false }: PostCardProps) {
                 <Clock className="h-4 w-4" />
                 {format(new Date(post.createdAt), "PPp")}
                 {post.editedAt && (
-                  <span className="text-xs text-muted-foreground ml-1">
+                  <button
+                    onClick={() => setShowHistoryDialog(true)}
+                    className="text-xs text-muted-foreground ml-1 hover:underline"
+                    title="See what changed"
+                  >
                     (edited {format(new Date(post.editedAt), "PPp")})
-                  </span>
+                  </button>
                 )}
               </div>
               {user && post.userId === user.id && (
@@ -278,6 +362,22 @@ export function PostCard({ post, inSavedPosts = false }: PostCardProps) {
                       <Edit className="h-4 w-4 mr-2" />
                       Edit
                     </DropdownMenuItem>
+                    <DropdownMenuSub>
+                      <DropdownMenuSubTrigger disabled={statusMutation.isPending}>
+                        <CircleDot className="h-4 w-4 mr-2" />
+                        Status: {STATUS_LABELS[post.status]}
+                      </DropdownMenuSubTrigger>
+                      <DropdownMenuSubContent>
+                        {getAllowedPostStatuses(post.type, post.status).map((status) => (
+                          <DropdownMenuItem
+                            key={status}
+                            onClick={() => statusMutation.mutate(status)}
+                          >
+                            Mark as {STATUS_LABELS[status].toLowerCase()}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuSubContent>
+                    </DropdownMenuSub>
                     <DropdownMenuItem
                       onClick={() => setShowDeleteConfirm(true)}
                       className="text-destructive"
@@ -300,7 +400,11 @@ export function PostCard({ post, inSavedPosts = false }: PostCardProps) {
               transition={{ delay: 0.3 }}
               className={`text-base leading-relaxed ${!isDescriptionExpanded && isLongDescription ? 'line-clamp-3' : ''}`}
             >
-              {getTruncatedDescription()}
+              {highlights && !isDescriptionExpanded ? (
+                <HighlightedText text={highlights.description} />
+              ) : (
+                getTruncatedDescription()
+              )}
             </motion.p>
 
             {isLongDescription && (
@@ -323,6 +427,14 @@ export function PostCard({ post, inSavedPosts = false }: PostCardProps) {
             )}
           </div>
 
+          {post.type === "room" && post.roomDetails && (
+            <RoomDetailsSummary details={post.roomDetails} />
+          )}
+
+          {post.type === "job" && post.jobDetails && (
+            <JobDetailsSummary details={post.jobDetails} />
+          )}
+
           {post.type === "room" && post.images && post.images.length > 0 && (
             <motion.div
               initial={{ scale: 0.95, opacity: 0 }}
@@ -330,7 +442,11 @@ export function PostCard({ post, inSavedPosts = false }: PostCardProps) {
               transition={{ delay: 0.4 }}
               className="relative -mx-6 px-6"
             >
-              <ImageSlider images={post.images} />
+              <ImageSlider
+                images={post.images}
+                // The post page gives the card two of three columns; the feed caps it at max-w-3xl
+                sizes={detailed ? "(min-width: 1024px) 66vw, 100vw" : "(min-width: 768px) 768px, 100vw"}
+              />
             </motion.div>
           )}
 
@@ -341,7 +457,7 @@ export function PostCard({ post, inSavedPosts = false }: PostCardProps) {
             className="flex gap-4 text-sm text-muted-foreground"
           >
             <span className="flex items-center gap-1">
-              📍 {post.location}
+              📍 {highlights ? <HighlightedText text={highlights.location} /> : post.location}
             </span>
             {post.price && (
               <span className="flex items-center gap-1">
@@ -389,11 +505,20 @@ export function PostCard({ post, inSavedPosts = false }: PostCardProps) {
                 variant="ghost"
                 size="sm"
                 className="flex gap-2"
-                disabled={!user}
+                disabled={!user && !detailed}
                 onClick={() => setShowComments(!showComments)}
               >
                 <MessageSquare className="h-4 w-4" />
-                {commentsLoading ? "..." : comments.length}
+                {commentsLoading ? "..." : comments.filter((comment) => !comment.deletedAt).length}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="flex gap-2"
+                onClick={handleShare}
+              >
+                <Share2 className="h-4 w-4" />
+                Share
               </Button>
             </div>
 
@@ -475,7 +600,7 @@ export function PostCard({ post, inSavedPosts = false }: PostCardProps) {
             <AlertDialogHeader>
               <AlertDialogTitle>Delete Post</AlertDialogTitle>
               <AlertDialogDescription>
-                Are you sure you want to delete this post? This action cannot be undone.
+                Are you sure you want to delete this post? You can undo this for a short while afterwards.
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
@@ -499,6 +624,13 @@ export function PostCard({ post, inSavedPosts = false }: PostCardProps) {
             onOpenChange={setShowProfileDialog}
           />
         )}
+        {post.editedAt && (
+          <PostHistoryDialog
+            postId={post.id}
+            open={showHistoryDialog}
+            onOpenChange={setShowHistoryDialog}
+          />
+        )}
       </Card>
     </motion.div>
   );
@@ -3,17 +3,31 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { insertPostSchema, type InsertPost } from "@shared/schema";
+import { insertPostSchema, getImageVariantUrl, type InsertPost } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, X, ImagePlus, Building2, Briefcase, DollarSign, MapPin } from "lucide-react";
+import { Loader2, X, ImagePlus, Building2, Briefcase, DollarSign, MapPin, GripVertical } from "lucide-react";
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DialogTitle, DialogClose } from "@/components/ui/dialog";
+import { RoomDetailsFields, getDefaultRoomDetails } from "./room-details";
+import { JobDetailsFields, getDefaultJobDetails } from "./job-details";
+import { LocationInput } from "./location-input";
+
+const MAX_IMAGES = 5;
+
+// Images already on the post are kept by URL; new ones are uploaded with the form
+type PostImage =
+  | { kind: "existing"; url: string }
+  | { kind: "new"; file: File; preview: string };
+
+function getImageSrc(image: PostImage) {
+  return image.kind === "existing" ? getImageVariantUrl(image.url, "card") : image.preview;
+}
 
 export function PostForm({ initialData, onSuccess }: {
   initialData?: InsertPost & { id?: number };
@@ -21,52 +35,82 @@ export function PostForm({ initialData, onSuccess }: {
 }) {
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [previews, setPreviews] = useState<string[]>(initialData?.images || []);
-  const [files, setFiles] = useState<File[]>([]);
+  const [images, setImages] = useState<PostImage[]>(
+    (initialData?.images || []).map((url) => ({ kind: "existing", url })),
+  );
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const closeButtonRef = useRef<HTMLButtonElement>(null);
   const isEditMode = !!initialData?.id;
 
   const form = useForm<InsertPost>({
     resolver: zodResolver(insertPostSchema),
-    defaultValues: initialData || {
-      type: "room",
-      title: "",
-      description: "",
-      price: null,
-      location: "",
-      images: [],
-    },
+    defaultValues: initialData
+      ? {
+          ...initialData,
+          // Room posts created before room details existed get editable defaults
+          roomDetails: initialData.type === "room"
+            ? initialData.roomDetails ?? getDefaultRoomDetails()
+            : null,
+          jobDetails: initialData.type === "job"
+            ? initialData.jobDetails ?? getDefaultJobDetails()
+            : null,
+        }
+      : {
+          type: "room",
+          title: "",
+          description: "",
+          price: null,
+          location: "",
+          images: [],
+          roomDetails: getDefaultRoomDetails(),
+          jobDetails: null,
+        },
   });
 
   const postType = form.watch("type");
 
   useEffect(() => {
     if (postType === "job") {
-      setPreviews([]);
-      setFiles([]);
+      clearImages();
       if (fileInputRef.current) {
         fileInputRef.current.value = "";
       }
+      // Salary lives in the job details, not the single price field
+      form.setValue("price", null);
+      form.setValue("roomDetails", null);
+      if (!form.getValues("jobDetails")) {
+        form.setValue("jobDetails", getDefaultJobDetails());
+      }
+    } else {
+      form.setValue("jobDetails", null);
+      if (!form.getValues("roomDetails")) {
+        form.setValue("roomDetails", getDefaultRoomDetails());
+      }
     }
   }, [postType]);
 
+  const clearImages = () => {
+    setImages((current) => {
+      current.forEach((image) => image.kind === "new" && URL.revokeObjectURL(image.preview));
+      return [];
+    });
+  };
+
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    console.log("Image input change triggered");
     const selectedFiles = e.target.files;
     if (!selectedFiles) return;
 
-    if (selectedFiles.length > 5) {
+    if (images.length + selectedFiles.length > MAX_IMAGES) {
       toast({
         title: "Error",
-        description: "Maximum 5 images allowed",
+        description: `Maximum ${MAX_IMAGES} images allowed`,
         variant: "destructive",
       });
+      e.target.value = "";
       return;
     }
 
-    const newFiles: File[] = [];
-    const newPreviews: string[] = [];
-
+    const added: PostImage[] = [];
     Array.from(selectedFiles).forEach((file) => {
       if (file.size > 5 * 1024 * 1024) {
         toast({
@@ -76,46 +120,50 @@ export function PostForm({ initialData, onSuccess }: {
         });
         return;
       }
-
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        if (e.target?.result) {
-          newPreviews.push(e.target.result as string);
-          if (newPreviews.length === selectedFiles.length) {
-            setPreviews(newPreviews);
-          }
-        }
-      };
-      reader.readAsDataURL(file);
-      newFiles.push(file);
+      added.push({ kind: "new", file, preview: URL.createObjectURL(file) });
     });
 
-    setFiles(newFiles);
+    setImages([...images, ...added]);
+    // Let the same file be picked again after it is removed
+    e.target.value = "";
+  };
+
+  const removeImage = (index: number) => {
+    const image = images[index];
+    if (image.kind === "new") URL.revokeObjectURL(image.preview);
+    setImages(images.filter((_, i) => i !== index));
+  };
+
+  const moveImage = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...images];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    setImages(next);
   };
 
   const createMutation = useMutation({
     mutationFn: async (data: InsertPost) => {
       console.log("Starting mutation with data:", data);
 
-      if (data.type === "room" && !isEditMode && files.length === 0) {
+      if (data.type === "room" && !isEditMode && images.length === 0) {
         throw new Error("At least one image is required for new room posts");
       }
 
-      if (isEditMode) {
-        // For editing: If no new files are uploaded, keep existing images
-        if (files.length === 0) {
-          const res = await apiRequest("PATCH", `/api/posts/${initialData.id}`, data);
-          if (!res.ok) {
-            throw new Error("Failed to update post");
-          }
-          return await res.json();
-        }
-      }
+      const endpoint = isEditMode ? `/api/posts/${initialData.id}` : "/api/posts";
+      const method = isEditMode ? "PATCH" : "POST";
+      const newFiles = images.flatMap((image) => (image.kind === "new" ? [image.file] : []));
 
-      // For new posts or edits with new images
-      if (data.type === "room" && files.length > 0) {
+      // Existing images go by URL and new ones by their position in the upload,
+      // so the server can rebuild the order with the first image as the cover
+      let uploadIndex = 0;
+      const imageOrder = images.map((image) =>
+        image.kind === "existing" ? image.url : `new:${uploadIndex++}`,
+      );
+
+      if (newFiles.length > 0) {
         const formData = new FormData();
-        files.forEach((file) => {
+        newFiles.forEach((file) => {
           formData.append('images', file);
         });
 
@@ -124,9 +172,11 @@ export function PostForm({ initialData, onSuccess }: {
         formData.append('description', data.description);
         formData.append('price', data.price?.toString() || '');
         formData.append('location', data.location);
-
-        const endpoint = isEditMode ? `/api/posts/${initialData.id}` : '/api/posts';
-        const method = isEditMode ? 'PATCH' : 'POST';
+        formData.append('roomDetails', JSON.stringify(data.roomDetails ?? null));
+        formData.append('jobDetails', JSON.stringify(data.jobDetails ?? null));
+        if (isEditMode) {
+          formData.append('imageOrder', JSON.stringify(imageOrder));
+        }
 
         const res = await fetch(endpoint, {
           method,
@@ -141,12 +191,8 @@ export function PostForm({ initialData, onSuccess }: {
 
         return await res.json();
       } else {
-        // For job posts or room posts without new images
-        const res = await apiRequest(
-          isEditMode ? "PATCH" : "POST",
-          isEditMode ? `/api/posts/${initialData.id}` : "/api/posts",
-          data
-        );
+        // For job posts or edits that only keep, remove or reorder images
+        const res = await apiRequest(method, endpoint, isEditMode ? { ...data, imageOrder } : data);
         if (!res.ok) {
           throw new Error(`Failed to ${isEditMode ? 'update' : 'create'} post`);
         }
@@ -155,13 +201,13 @@ export function PostForm({ initialData, onSuccess }: {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/posts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
       toast({
         title: "Success",
         description: `Post ${isEditMode ? 'updated' : 'created'} successfully`,
       });
       form.reset();
-      setPreviews([]);
-      setFiles([]);
+      clearImages();
       if (fileInputRef.current) {
         fileInputRef.current.value = "";
       }
@@ -216,8 +262,8 @@ export function PostForm({ initialData, onSuccess }: {
           });
           return;
         }
-        // Only check for images on new room posts
-        if (!isEditMode && files.length === 0 && !initialData?.images?.length) {
+        // Older room posts without photos can still be edited without adding any
+        if (images.length === 0 && (!isEditMode || initialData?.images?.length)) {
           toast({
             title: "Error",
             description: "At least one image is required for room posts",
@@ -320,41 +366,43 @@ export function PostForm({ initialData, onSuccess }: {
               )}
             />
 
-            <div className="grid grid-cols-2 gap-4">
-              <Card className="bg-gradient-to-br from-blue-500/10 via-blue-500/5 to-transparent border-muted-foreground/10 p-4">
-                <FormField
-                  control={form.control}
-                  name="price"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="flex items-center gap-2">
-                        <DollarSign className="h-4 w-4 text-blue-500" />
-                        {postType === "room" ? "Monthly Rent" : "Salary Range"}
-                      </FormLabel>
-                      <FormControl>
-                        <div className="relative">
-                          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
-                          <Input
-                            type="number"
-                            placeholder="Enter amount"
-                            className="pl-7 bg-background/50 backdrop-blur-sm border-muted-foreground/20"
-                            {...field}
-                            value={field.value ?? ""}
-                            onChange={(e) => {
-                              const value = e.target.value;
-                              field.onChange(value ? Number(value) : null);
-                            }}
-                          />
-                        </div>
-                      </FormControl>
-                      <FormDescription>
-                        {postType === "room" ? "Required for room listings" : "Optional for job posts"}
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-              </Card>
+            <div className={`grid gap-4 ${postType === "room" ? "grid-cols-2" : "grid-cols-1"}`}>
+              {postType === "room" && (
+                <Card className="bg-gradient-to-br from-blue-500/10 via-blue-500/5 to-transparent border-muted-foreground/10 p-4">
+                  <FormField
+                    control={form.control}
+                    name="price"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="flex items-center gap-2">
+                          <DollarSign className="h-4 w-4 text-blue-500" />
+                          Monthly Rent
+                        </FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">$</span>
+                            <Input
+                              type="number"
+                              placeholder="Enter amount"
+                              className="pl-7 bg-background/50 backdrop-blur-sm border-muted-foreground/20"
+                              {...field}
+                              value={field.value ?? ""}
+                              onChange={(e) => {
+                                const value = e.target.value;
+                                field.onChange(value ? Number(value) : null);
+                              }}
+                            />
+                          </div>
+                        </FormControl>
+                        <FormDescription>
+                          Required for room listings
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </Card>
+              )}
 
               <Card className="bg-gradient-to-br from-purple-500/10 via-purple-500/5 to-transparent border-muted-foreground/10 p-4">
                 <FormField
@@ -367,14 +415,16 @@ export function PostForm({ initialData, onSuccess }: {
                         Location
                       </FormLabel>
                       <FormControl>
-                        <Input
-                          placeholder="City, State or Address"
+                        <LocationInput
+                          ref={field.ref}
+                          placeholder="Neighbourhood, City"
                           className="bg-background/50 backdrop-blur-sm border-muted-foreground/20"
-                          {...field}
+                          value={field.value}
+                          onChange={field.onChange}
                         />
                       </FormControl>
                       <FormDescription>
-                        Enter the location details
+                        Pick a suggested place so your post shows up in distance searches
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -383,6 +433,10 @@ export function PostForm({ initialData, onSuccess }: {
               </Card>
             </div>
 
+            {postType === "room" && <RoomDetailsFields control={form.control} />}
+
+            {postType === "job" && <JobDetailsFields control={form.control} />}
+
             {postType === "room" && (
               <div className="bg-gradient-to-br from-green-500/10 via-green-500/5 to-transparent border border-muted-foreground/10 rounded-lg p-6">
                 <FormItem>
@@ -403,28 +457,54 @@ export function PostForm({ initialData, onSuccess }: {
                         />
                       </div>
 
-                      {previews.length > 0 && (
+                      {images.length > 0 && (
                         <Card className="p-4 bg-card/50 backdrop-blur-sm">
                           <div className="grid grid-cols-2 gap-4">
-                            {previews.map((preview, index) => (
+                            {images.map((image, index) => (
                               <div
-                                key={index}
-                                className="relative group rounded-lg overflow-hidden"
+                                key={getImageSrc(image)}
+                                draggable
+                                onDragStart={(e) => {
+                                  e.dataTransfer.effectAllowed = "move";
+                                  setDraggedIndex(index);
+                                }}
+                                onDragOver={(e) => {
+                                  if (draggedIndex === null) return;
+                                  e.preventDefault();
+                                  e.dataTransfer.dropEffect = "move";
+                                }}
+                                onDrop={(e) => {
+                                  e.preventDefault();
+                                  if (draggedIndex !== null) moveImage(draggedIndex, index);
+                                  setDraggedIndex(null);
+                                }}
+                                onDragEnd={() => setDraggedIndex(null)}
+                                className={`relative group rounded-lg overflow-hidden cursor-move transition-opacity ${
+                                  draggedIndex === index ? "opacity-40" : ""
+                                }`}
                               >
                                 <img
-                                  src={preview}
+                                  src={getImageSrc(image)}
                                   alt={`Preview ${index + 1}`}
+                                  draggable={false}
                                   className="rounded-md w-full h-48 object-cover transition-all duration-300 group-hover:brightness-110"
                                 />
+                                <div className="absolute top-2 left-2 flex items-center gap-1">
+                                  <span className="rounded bg-black/50 p-0.5 text-white">
+                                    <GripVertical className="h-4 w-4" />
+                                  </span>
+                                  {index === 0 && (
+                                    <span className="rounded bg-primary px-2 py-0.5 text-xs font-medium text-primary-foreground">
+                                      Cover
+                                    </span>
+                                  )}
+                                </div>
                                 <Button
                                   type="button"
                                   variant="destructive"
                                   size="icon"
                                   className="absolute top-2 right-2 h-6 w-6 opacity-0 group-hover:opacity-100 transition-all duration-200"
-                                  onClick={() => {
-                                    setPreviews(previews.filter((_, i) => i !== index));
-                                    setFiles(files.filter((_, i) => i !== index));
-                                  }}
+                                  onClick={() => removeImage(index)}
                                 >
                                   <X className="h-4 w-4" />
                                 </Button>
@@ -436,9 +516,9 @@ export function PostForm({ initialData, onSuccess }: {
                     </div>
                   </FormControl>
                   <FormDescription>
-                    Upload 1-5 high-quality images (max 5MB each)
+                    Upload 1-5 high-quality images (max 5MB each). Drag to reorder; the first photo is the cover.
                   </FormDescription>
-                  {postType === "room" && previews.length === 0 && !isEditMode && (
+                  {postType === "room" && images.length === 0 && !isEditMode && (
                     <FormMessage>At least one image is required for room posts</FormMessage>
                   )}
                 </FormItem>
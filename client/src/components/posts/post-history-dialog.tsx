@@ -0,0 +1,235 @@
+import { useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { PostVersion } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { diffWords, type DiffPart } from "@/lib/word-diff";
+import { cn } from "@/lib/utils";
+import { Loader2, TrendingDown, TrendingUp } from "lucide-react";
+import { RoomDetailsSummary } from "./room-details";
+import { JobDetailsSummary, formatSalary } from "./job-details";
+
+interface PostHistoryDialogProps {
+  postId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function getPriceLabel(version: PostVersion): string {
+  if (version.type === "job") {
+    return (version.jobDetails && formatSalary(version.jobDetails)) ?? "Not specified";
+  }
+  return version.price !== null ? `NPR ${version.price.toLocaleString()}` : "Not specified";
+}
+
+// The old side shows what was removed, the new side what was added
+function DiffText({ parts, side }: { parts: DiffPart[]; side: "old" | "new" }) {
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {parts
+        .filter((part) => part.change === "same" || part.change === (side === "old" ? "removed" : "added"))
+        .map((part, i) =>
+          part.change === "same" ? (
+            <span key={i}>{part.text}</span>
+          ) : (
+            <span
+              key={i}
+              className={
+                side === "old"
+                  ? "bg-red-100 text-red-900 line-through dark:bg-red-900/40 dark:text-red-100"
+                  : "bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-100"
+              }
+            >
+              {part.text}
+            </span>
+          ),
+        )}
+    </p>
+  );
+}
+
+function DiffRow({
+  label,
+  changed,
+  highlight = false,
+  before,
+  after,
+}: {
+  label: ReactNode;
+  changed: boolean;
+  // Draws attention to changes readers care most about
+  highlight?: boolean;
+  before: ReactNode;
+  after: ReactNode;
+}) {
+  return (
+    <div
+      className={cn(
+        "rounded-md border p-3 space-y-2",
+        changed ? "border-muted-foreground/30" : "border-transparent opacity-70",
+        changed && highlight && "border-amber-400 bg-amber-50 dark:bg-amber-900/20",
+      )}
+    >
+      <div className="text-xs font-medium uppercase tracking-wide text-muted-foreground flex items-center gap-2">
+        {label}
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>{before}</div>
+        <div>{after}</div>
+      </div>
+    </div>
+  );
+}
+
+function TextDiffRow({ label, before, after }: { label: string; before: string; after: string }) {
+  const parts = diffWords(before, after);
+  return (
+    <DiffRow
+      label={label}
+      changed={before !== after}
+      before={<DiffText parts={parts} side="old" />}
+      after={<DiffText parts={parts} side="new" />}
+    />
+  );
+}
+
+// Side-by-side view of what each edit to a post changed
+export function PostHistoryDialog({ postId, open, onOpenChange }: PostHistoryDialogProps) {
+  // Index of the newer version of the edit being viewed; the latest by default
+  const [editIndex, setEditIndex] = useState<number | null>(null);
+
+  const { data: versions = [], isLoading } = useQuery<PostVersion[]>({
+    queryKey: ["/api/posts", postId, "revisions"],
+    queryFn: async () => {
+      const res = await fetch(`/api/posts/${postId}/revisions`);
+      if (!res.ok) throw new Error("Failed to fetch edit history");
+      return res.json();
+    },
+    enabled: open,
+    // Every edit adds a version, so fetch afresh each time the dialog opens
+    staleTime: 0,
+  });
+
+  const newerIndex = editIndex ?? versions.length - 1;
+  const before = versions[newerIndex - 1];
+  const after = versions[newerIndex];
+
+  const priceBefore = before && getPriceLabel(before);
+  const priceAfter = after && getPriceLabel(after);
+  const priceDirection =
+    before && after && before.type === "room" && after.type === "room" && before.price !== null && after.price !== null
+      ? Math.sign(after.price - before.price)
+      : 0;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setEditIndex(null);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>
+            {versions.length > 1
+              ? `${versions.length - 1} ${versions.length === 2 ? "edit" : "edits"} since this post was published`
+              : "Changes made to this post after it was published"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !before || !after ? (
+          <p className="text-sm text-muted-foreground py-4">No earlier versions were saved for this post.</p>
+        ) : (
+          <div className="space-y-3">
+            <Select value={String(newerIndex)} onValueChange={(value) => setEditIndex(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.slice(1).map((version, i) => (
+                  <SelectItem key={i + 1} value={String(i + 1)}>
+                    Edit {i + 1} · {format(new Date(version.createdAt), "PPp")}
+                    {i + 2 === versions.length ? " (current)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className="grid grid-cols-2 gap-4 px-3 text-sm font-medium">
+              <div>Before · {format(new Date(before.createdAt), "PPp")}</div>
+              <div>After · {format(new Date(after.createdAt), "PPp")}</div>
+            </div>
+
+            {before.type !== after.type && (
+              <DiffRow
+                label="Type"
+                changed
+                before={<Badge variant="outline" className="capitalize">{before.type}</Badge>}
+                after={<Badge variant="outline" className="capitalize">{after.type}</Badge>}
+              />
+            )}
+
+            <TextDiffRow label="Title" before={before.title} after={after.title} />
+
+            <DiffRow
+              label={
+                <>
+                  {after.type === "job" ? "Salary" : "Price"}
+                  {priceBefore !== priceAfter && (
+                    <Badge variant="outline" className="gap-1 normal-case border-amber-400 text-amber-700 dark:text-amber-300">
+                      {priceDirection > 0 && <TrendingUp className="h-3 w-3" />}
+                      {priceDirection < 0 && <TrendingDown className="h-3 w-3" />}
+                      {priceDirection > 0 ? "Raised" : priceDirection < 0 ? "Lowered" : "Changed"}
+                    </Badge>
+                  )}
+                </>
+              }
+              changed={priceBefore !== priceAfter}
+              highlight
+              before={<p className="text-sm font-semibold">{priceBefore}</p>}
+              after={<p className="text-sm font-semibold">{priceAfter}</p>}
+            />
+
+            <TextDiffRow label="Location" before={before.location} after={after.location} />
+            <TextDiffRow label="Description" before={before.description} after={after.description} />
+
+            <DiffRow
+              label="Details"
+              changed={
+                JSON.stringify(before.roomDetails) !== JSON.stringify(after.roomDetails) ||
+                JSON.stringify(before.jobDetails) !== JSON.stringify(after.jobDetails)
+              }
+              before={
+                <>
+                  {before.roomDetails && <RoomDetailsSummary details={before.roomDetails} />}
+                  {before.jobDetails && <JobDetailsSummary details={before.jobDetails} />}
+                </>
+              }
+              after={
+                <>
+                  {after.roomDetails && <RoomDetailsSummary details={after.roomDetails} />}
+                  {after.jobDetails && <JobDetailsSummary details={after.jobDetails} />}
+                </>
+              }
+            />
+
+            <DiffRow
+              label="Photos"
+              changed={JSON.stringify(before.images ?? []) !== JSON.stringify(after.images ?? [])}
+              before={<p className="text-sm">{(before.images ?? []).length} photos</p>}
+              after={<p className="text-sm">{(after.images ?? []).length} photos</p>}
+            />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
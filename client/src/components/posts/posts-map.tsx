@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useInfiniteQuery } from "@tanstack/react-query";
+import { GoogleMap, InfoWindowF, MarkerClustererF, MarkerF, useJsApiLoader } from "@react-google-maps/api";
+import type { Post, PostFeedPage } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Loader2, MapPin } from "lucide-react";
+import { PostCard } from "./post-card";
+import { formatSalary } from "./job-details";
+
+type PostWithUsername = Post & { username?: string };
+
+// Feed filters from the home page, without cursor or bounding box
+type MapFilters = Record<string, string | number | boolean | undefined>;
+
+const KATHMANDU = { lat: 27.7172, lng: 85.324 };
+const MAP_CONTAINER_STYLE = { width: "100%", height: "70vh" };
+// The feed's page size limit. The map pages through every post in the
+// viewport, up to MAP_MAX_POSTS so a zoomed-out view can't load the whole feed.
+const MAP_PAGE_SIZE = 50;
+const MAP_MAX_POSTS = 1000;
+
+// Posts geocoded to the same place share coordinates. Spread them a little
+// (under ~150m) by id so every pin stays clickable once a cluster opens up.
+function getMarkerPosition(post: Post) {
+  const angle = (post.id * 137.5 * Math.PI) / 180;
+  const offset = 0.0005 + (post.id % 5) * 0.0002;
+  return {
+    lat: post.latitude! + Math.sin(angle) * offset,
+    lng: post.longitude! + Math.cos(angle) * offset,
+  };
+}
+
+function getBoundingBox(map: google.maps.Map) {
+  const bounds = map.getBounds();
+  if (!bounds) return null;
+  const sw = bounds.getSouthWest();
+  const ne = bounds.getNorthEast();
+  return [sw.lng(), sw.lat(), ne.lng(), ne.lat()].map((n) => n.toFixed(5)).join(",");
+}
+
+export function PostsMap({ filters }: { filters: MapFilters }) {
+  const apiKey = import.meta.env.VITE_GOOGLE_MAPS_API_KEY;
+
+  if (!apiKey) {
+    return (
+      <Card className="p-8 text-center text-muted-foreground">
+        The map is not configured. Set VITE_GOOGLE_MAPS_API_KEY to enable it.
+      </Card>
+    );
+  }
+
+  return <PostsMapView apiKey={apiKey} filters={filters} />;
+}
+
+function PostsMapView({ apiKey, filters }: { apiKey: string; filters: MapFilters }) {
+  const { isLoaded, loadError } = useJsApiLoader({ googleMapsApiKey: apiKey });
+  const [map, setMap] = useState<google.maps.Map | null>(null);
+  const [bbox, setBbox] = useState<string | null>(null);
+  const [selectedPost, setSelectedPost] = useState<PostWithUsername | null>(null);
+  const [openPost, setOpenPost] = useState<PostWithUsername | null>(null);
+
+  const queryParams = { ...filters, bbox: bbox ?? undefined, limit: MAP_PAGE_SIZE };
+
+  const { data, isFetching, isPlaceholderData, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteQuery({
+    queryKey: ["/api/posts", "map", queryParams],
+    queryFn: async ({ pageParam }): Promise<PostFeedPage<PostWithUsername>> => {
+      const params = new URLSearchParams();
+      Object.entries(queryParams).forEach(([key, value]) => {
+        if (value !== undefined) params.set(key, String(value));
+      });
+      if (pageParam) params.set("cursor", pageParam);
+      const res = await fetch(`/api/posts?${params}`, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error("Failed to fetch posts");
+      }
+      return res.json();
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: bbox !== null,
+    // Keep the old pins on screen while the new viewport loads
+    placeholderData: keepPreviousData,
+  });
+
+  const loadedPosts = data?.pages.flatMap((page) => page.posts) ?? [];
+  const posts = loadedPosts.filter((post) => post.latitude !== null && post.longitude !== null);
+  const reachedLimit = hasNextPage && loadedPosts.length >= MAP_MAX_POSTS;
+
+  // Keep loading pages until every post in the viewport is on the map. The
+  // previous viewport's pins, shown while a new one loads, aren't continued.
+  useEffect(() => {
+    if (hasNextPage && !isFetchingNextPage && !isPlaceholderData && !reachedLimit) fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, isPlaceholderData, reachedLimit, fetchNextPage]);
+
+  if (loadError) {
+    return <Card className="p-8 text-center text-muted-foreground">Failed to load the map.</Card>;
+  }
+
+  if (!isLoaded) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative rounded-lg overflow-hidden border border-muted-foreground/10">
+      <GoogleMap
+        mapContainerStyle={MAP_CONTAINER_STYLE}
+        center={KATHMANDU}
+        zoom={12}
+        onLoad={setMap}
+        onUnmount={() => setMap(null)}
+        // Idle fires once panning or zooming settles, so each viewport is
+        // fetched once
+        onIdle={() => {
+          if (map) setBbox(getBoundingBox(map));
+        }}
+        onClick={() => setSelectedPost(null)}
+        options={{ streetViewControl: false, mapTypeControl: false, clickableIcons: false }}
+      >
+        <MarkerClustererF averageCenter>
+          {(clusterer) => (
+            <>
+              {posts.map((post) => (
+                <MarkerF
+                  key={post.id}
+                  position={getMarkerPosition(post)}
+                  clusterer={clusterer}
+                  title={post.title}
+                  onClick={() => setSelectedPost(post)}
+                />
+              ))}
+            </>
+          )}
+        </MarkerClustererF>
+
+        {selectedPost && (
+          <InfoWindowF position={getMarkerPosition(selectedPost)} onCloseClick={() => setSelectedPost(null)}>
+            <div className="max-w-56 space-y-1 text-black">
+              <p className="font-semibold">{selectedPost.title}</p>
+              <p className="text-xs flex items-center gap-1">
+                <MapPin className="h-3 w-3" />
+                {selectedPost.location}
+              </p>
+              {selectedPost.price !== null && (
+                <p className="text-sm">NPR {selectedPost.price.toLocaleString()}</p>
+              )}
+              {selectedPost.jobDetails && formatSalary(selectedPost.jobDetails) && (
+                <p className="text-sm">{formatSalary(selectedPost.jobDetails)}</p>
+              )}
+              <Button size="sm" className="w-full mt-1" onClick={() => setOpenPost(selectedPost)}>
+                View post
+              </Button>
+            </div>
+          </InfoWindowF>
+        )}
+      </GoogleMap>
+
+      {isFetching && (
+        <div className="absolute top-3 left-1/2 -translate-x-1/2 rounded-full bg-background/90 px-3 py-1 shadow">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      {reachedLimit && (
+        <div className="absolute bottom-3 left-1/2 -translate-x-1/2 rounded-full bg-background/90 px-3 py-1 text-sm shadow">
+          Showing the first {loadedPosts.length} posts in this area. Zoom in to see more.
+        </div>
+      )}
+
+      <Dialog open={openPost !== null} onOpenChange={(open) => !open && setOpenPost(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          {openPost && <PostCard post={openPost} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
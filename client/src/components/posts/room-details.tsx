@@ -0,0 +1,184 @@
+import type { Control } from "react-hook-form";
+import { format } from "date-fns";
+import type { InsertPost, RoomDetails } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BedDouble, Home } from "lucide-react";
+
+export const FURNISHED_LABELS: Record<RoomDetails["furnished"], string> = {
+  unfurnished: "Unfurnished",
+  semi: "Semi-furnished",
+  full: "Fully furnished",
+};
+
+export const GENDER_LABELS: Record<RoomDetails["genderPreference"], string> = {
+  any: "Anyone",
+  male: "Male only",
+  female: "Female only",
+};
+
+export type RoomAmenity =
+  | "attachedBathroom"
+  | "waterIncluded"
+  | "electricityIncluded"
+  | "parking"
+  | "petsAllowed";
+
+// Yes/no amenities, in the order they are shown
+export const ROOM_AMENITIES: { key: RoomAmenity; label: string }[] = [
+  { key: "attachedBathroom", label: "Attached bathroom" },
+  { key: "waterIncluded", label: "Water included" },
+  { key: "electricityIncluded", label: "Electricity included" },
+  { key: "parking", label: "Parking" },
+  { key: "petsAllowed", label: "Pets allowed" },
+];
+
+export function getDefaultRoomDetails(): RoomDetails {
+  return {
+    roomCount: 1,
+    furnished: "unfurnished",
+    attachedBathroom: false,
+    waterIncluded: false,
+    electricityIncluded: false,
+    parking: false,
+    petsAllowed: false,
+    genderPreference: "any",
+    availableFrom: format(new Date(), "yyyy-MM-dd"),
+  };
+}
+
+export function RoomDetailsFields({ control }: { control: Control<InsertPost> }) {
+  return (
+    <div className="bg-gradient-to-br from-orange-500/10 via-orange-500/5 to-transparent border border-muted-foreground/10 rounded-lg p-6 space-y-4">
+      <p className="flex items-center gap-2 text-sm font-medium">
+        <Home className="h-5 w-5 text-orange-500" />
+        Room Details
+      </p>
+
+      <div className="grid grid-cols-2 gap-4">
+        <FormField
+          control={control}
+          name="roomDetails.roomCount"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Rooms</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={1}
+                  className="bg-background/50"
+                  {...field}
+                  value={field.value ?? ""}
+                  onChange={(e) => field.onChange(e.target.value ? Number(e.target.value) : undefined)}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={control}
+          name="roomDetails.availableFrom"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Available from</FormLabel>
+              <FormControl>
+                <Input type="date" className="bg-background/50" {...field} value={field.value ?? ""} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={control}
+          name="roomDetails.furnished"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Furnishing</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger className="bg-background/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(FURNISHED_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={control}
+          name="roomDetails.genderPreference"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tenant preference</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger className="bg-background/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {Object.entries(GENDER_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {ROOM_AMENITIES.map(({ key, label }) => (
+          <FormField
+            key={key}
+            control={control}
+            name={`roomDetails.${key}`}
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between rounded-md border border-muted-foreground/10 bg-background/50 px-3 py-2 space-y-0">
+                <FormLabel className="font-normal">{label}</FormLabel>
+                <FormControl>
+                  <Switch checked={!!field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function RoomDetailsSummary({ details }: { details: RoomDetails }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Badge variant="secondary" className="gap-1">
+        <BedDouble className="h-3 w-3" />
+        {details.roomCount} {details.roomCount === 1 ? "room" : "rooms"}
+      </Badge>
+      <Badge variant="secondary">{FURNISHED_LABELS[details.furnished]}</Badge>
+      {details.genderPreference !== "any" && (
+        <Badge variant="secondary">{GENDER_LABELS[details.genderPreference]}</Badge>
+      )}
+      {ROOM_AMENITIES.filter(({ key }) => details[key]).map(({ key, label }) => (
+        <Badge key={key} variant="outline">{label}</Badge>
+      ))}
+      <Badge variant="outline">
+        Available {format(new Date(`${details.availableFrom}T00:00:00`), "MMM d, yyyy")}
+      </Badge>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import type { RoomDetails } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SlidersHorizontal } from "lucide-react";
+import { FURNISHED_LABELS, ROOM_AMENITIES, type RoomAmenity } from "./room-details";
+
+export type RoomFilterValues = {
+  minRooms?: number;
+  furnished?: RoomDetails["furnished"];
+  genderPreference?: "male" | "female";
+  availableBy?: string;
+} & Partial<Record<RoomAmenity, true>>;
+
+interface RoomFiltersProps {
+  value: RoomFilterValues;
+  onChange: (value: RoomFilterValues) => void;
+}
+
+export function RoomFilters({ value, onChange }: RoomFiltersProps) {
+  const activeCount = Object.values(value).filter((v) => v !== undefined).length;
+
+  const update = (changes: Partial<RoomFilterValues>) => {
+    onChange({ ...value, ...changes });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="gap-2 w-full md:w-auto bg-background/50">
+          <SlidersHorizontal className="h-4 w-4" />
+          Room filters
+          {activeCount > 0 && (
+            <span className="rounded-full bg-primary text-primary-foreground text-xs px-2">
+              {activeCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4" align="end">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label>Min rooms</Label>
+            <Input
+              type="number"
+              min={1}
+              value={value.minRooms ?? ""}
+              onChange={(e) => update({ minRooms: e.target.value ? Number(e.target.value) : undefined })}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Available by</Label>
+            <Input
+              type="date"
+              value={value.availableBy ?? ""}
+              onChange={(e) => update({ availableBy: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Furnishing</Label>
+            <Select
+              value={value.furnished ?? "any"}
+              onValueChange={(v) => update({ furnished: v === "any" ? undefined : (v as RoomDetails["furnished"]) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any</SelectItem>
+                {Object.entries(FURNISHED_LABELS).map(([key, label]) => (
+                  <SelectItem key={key} value={key}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label>I am</Label>
+            <Select
+              value={value.genderPreference ?? "any"}
+              onValueChange={(v) => update({ genderPreference: v === "any" ? undefined : (v as "male" | "female") })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Not specified</SelectItem>
+                <SelectItem value="male">Male</SelectItem>
+                <SelectItem value="female">Female</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {ROOM_AMENITIES.map(({ key, label }) => (
+            <div key={key} className="flex items-center gap-2">
+              <Checkbox
+                id={`room-filter-${key}`}
+                checked={!!value[key]}
+                onCheckedChange={(checked) => update({ [key]: checked ? true : undefined })}
+              />
+              <Label htmlFor={`room-filter-${key}`} className="font-normal">{label}</Label>
+            </div>
+          ))}
+        </div>
+
+        {activeCount > 0 && (
+          <Button variant="ghost" size="sm" className="w-full" onClick={() => onChange({})}>
+            Clear room filters
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -4,6 +4,7 @@ import { Button } from "./button";
 import { UserCircle, Mail, Github, Plus, Sparkles, LogOut } from "lucide-react";
 import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
 import { PostForm } from "@/components/posts/post-form";
+import { VerifyEmailBanner } from "@/components/auth/verify-email-banner";
 
 export function Layout({ children }: { children: React.ReactNode }) {
   const { user, logoutMutation } = useAuth();
@@ -70,6 +71,8 @@ export function Layout({ children }: { children: React.ReactNode }) {
         </div>
       </header>
 
+      <VerifyEmailBanner />
+
       {/* Main Content */}
       <main className="flex-1 bg-gray-50">{children}</main>
 
@@ -1,23 +1,32 @@
-import { createContext, ReactNode, useContext } from "react";
+import { createContext, ReactNode, useContext, useEffect } from "react";
 import {
   useQuery,
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
+import { InsertUser, RegisterUser, type CurrentUser, type TwoFactorChallenge } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import { socket, reconnectSocket } from "../lib/socket";
 import { useToast } from "@/hooks/use-toast";
 
 type AuthContextType = {
-  user: SelectUser | null;
+  user: CurrentUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  // Resolves to a challenge instead of the user when the account also needs
+  // a two-factor code; finish with twoFactorLoginMutation
+  loginMutation: UseMutationResult<CurrentUser | TwoFactorChallenge, Error, LoginData>;
+  twoFactorLoginMutation: UseMutationResult<CurrentUser, Error, TwoFactorLoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<CurrentUser, Error, RegisterUser>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
+type TwoFactorLoginData = { code: string };
+
+export function isTwoFactorChallenge(result: CurrentUser | TwoFactorChallenge): result is TwoFactorChallenge {
+  return "twoFactorRequired" in result;
+}
 
 export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -26,18 +35,54 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     data: user,
     error,
     isLoading,
-  } = useQuery<SelectUser | undefined, Error>({
+  } = useQuery<CurrentUser | undefined, Error>({
     queryKey: ["/api/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
 
+  // Sent when this session is signed out from another device
+  useEffect(() => {
+    const handleRevoked = () => {
+      queryClient.setQueryData(["/api/user"], null);
+      toast({
+        title: "Signed out",
+        description: "This session was signed out from another device.",
+      });
+    };
+    socket.on("session-revoked", handleRevoked);
+    return () => {
+      socket.off("session-revoked", handleRevoked);
+    };
+  }, [toast]);
+
   const loginMutation = useMutation({
     mutationFn: async (credentials: LoginData) => {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
+    onSuccess: (result: CurrentUser | TwoFactorChallenge) => {
+      if (!isTwoFactorChallenge(result)) {
+        queryClient.setQueryData(["/api/user"], result);
+        reconnectSocket();
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const twoFactorLoginMutation = useMutation({
+    mutationFn: async (data: TwoFactorLoginData) => {
+      const res = await apiRequest("POST", "/api/login/2fa", data);
+      return await res.json();
+    },
+    onSuccess: (user: CurrentUser) => {
       queryClient.setQueryData(["/api/user"], user);
+      reconnectSocket();
     },
     onError: (error: Error) => {
       toast({
@@ -49,12 +94,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   });
 
   const registerMutation = useMutation({
-    mutationFn: async (credentials: InsertUser) => {
+    mutationFn: async (credentials: RegisterUser) => {
       const res = await apiRequest("POST", "/api/register", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
+    onSuccess: (user: CurrentUser) => {
       queryClient.setQueryData(["/api/user"], user);
+      reconnectSocket();
     },
     onError: (error: Error) => {
       toast({
@@ -71,6 +117,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
     onSuccess: () => {
       queryClient.setQueryData(["/api/user"], null);
+      reconnectSocket();
     },
     onError: (error: Error) => {
       toast({
@@ -88,6 +135,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorLoginMutation,
         logoutMutation,
         registerMutation,
       }}
@@ -0,0 +1,59 @@
+import { useEffect } from "react";
+import type { InfiniteData } from "@tanstack/react-query";
+import { openPostStatuses, type Post, type PostDetail, type PostFeedPage } from "@shared/schema";
+import { socket } from "@/lib/socket";
+import { queryClient } from "@/lib/queryClient";
+
+type PostWithUsername = Post & { username?: string };
+
+// Applies "post-updated" broadcasts to every cached post list, so edits and
+// status changes show up without refetching
+export function usePostUpdates() {
+  useEffect(() => {
+    const handlePostUpdated = (updated: PostWithUsername) => {
+      const replace = <T extends PostWithUsername>(post: T): T =>
+        post.id === updated.id ? { ...post, ...updated } : post;
+      const isOpen = openPostStatuses.includes(updated.status);
+
+      // The feed and search results only list open posts
+      queryClient.setQueriesData<InfiniteData<PostFeedPage<PostWithUsername>>>(
+        { queryKey: ["/api/posts"] },
+        (data) => {
+          if (!data?.pages) return data;
+          return {
+            ...data,
+            pages: data.pages.map((page) => ({
+              ...page,
+              posts: page.posts
+                .filter((post) => post.id !== updated.id || isOpen)
+                .map(replace),
+            })),
+          };
+        },
+      );
+
+      // Profile post lists and bookmarks keep the post and show its status
+      queryClient.setQueriesData<PostWithUsername[]>(
+        { queryKey: ["/api/users"] },
+        (data) => (Array.isArray(data) ? data.map(replace) : data),
+      );
+      queryClient.setQueryData<PostWithUsername[]>(
+        ["/api/user/bookmarks"],
+        (data) => data?.map(replace),
+      );
+      queryClient.setQueryData<PostDetail>(
+        ["/api/posts", updated.id],
+        (data) => data && replace(data),
+      );
+    };
+
+    socket.on("post-updated", handlePostUpdated);
+    // Sent only to the owner when the post is about to expire
+    socket.on("post-expiring", handlePostUpdated);
+
+    return () => {
+      socket.off("post-updated", handlePostUpdated);
+      socket.off("post-expiring", handlePostUpdated);
+    };
+  }, []);
+}
@@ -9,6 +9,13 @@ export const socket = io(wsUrl, {
   autoConnect: true,
 });
 
+// The server reads the session when a connection opens, so reconnect
+// whenever the user logs in or out
+export function reconnectSocket() {
+  socket.disconnect();
+  socket.connect();
+}
+
 // Add connection event listeners
 socket.on("connect", () => {
   console.log("Connected to WebSocket server");
@@ -0,0 +1,40 @@
+import type { QueryKey } from "@tanstack/react-query";
+import { ToastAction } from "@/components/ui/toast";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface UndoDeleteToastOptions {
+  title: string;
+  restoreUrl: string;
+  // Refetched once the restore succeeds
+  queryKeys: QueryKey[];
+}
+
+// Confirms a delete with an Undo button that restores the item. Uses the
+// global toast rather than component state, since whatever was deleted has
+// usually unmounted by the time Undo is pressed.
+export function showUndoDeleteToast({ title, restoreUrl, queryKeys }: UndoDeleteToastOptions) {
+  const undo = async () => {
+    try {
+      await apiRequest("POST", restoreUrl);
+      queryKeys.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      toast({ title: "Restored" });
+    } catch (error) {
+      toast({
+        title: "Could not undo",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  toast({
+    title,
+    description: "You can undo this for a short while.",
+    action: (
+      <ToastAction altText="Undo delete" onClick={undo}>
+        Undo
+      </ToastAction>
+    ),
+  });
+}
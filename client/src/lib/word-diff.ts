@@ -0,0 +1,54 @@
+export type DiffPart = {
+  text: string;
+  // Only in the old text, only in the new text, or in both
+  change: "removed" | "added" | "same";
+};
+
+// Splits into words and the whitespace between them, so joining the parts
+// reproduces the text exactly
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+// Word-level diff from the longest common subsequence of the two texts.
+// Post descriptions are short, so the quadratic table is fine.
+export function diffWords(oldText: string, newText: string): DiffPart[] {
+  const a = tokenize(oldText);
+  const b = tokenize(newText);
+
+  // lcs[i][j] is the common length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, change: DiffPart["change"]) => {
+    const last = parts[parts.length - 1];
+    if (last?.change === change) {
+      last.text += text;
+    } else {
+      parts.push({ text, change });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], "same");
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(a[i++], "removed");
+    } else {
+      push(b[j++], "added");
+    }
+  }
+  while (i < a.length) push(a[i++], "removed");
+  while (j < b.length) push(b[j++], "added");
+
+  return parts;
+}
@@ -1,13 +1,18 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useAuth } from "@/hooks/use-auth";
-import { useQuery } from "@tanstack/react-query";
+import { usePostUpdates } from "@/hooks/use-post-updates";
+import { useInfiniteQuery } from "@tanstack/react-query";
 import { Layout } from "@/components/ui/layout";
 import { PostCard } from "@/components/posts/post-card";
 import { PostForm } from "@/components/posts/post-form";
+import { RoomFilters, type RoomFilterValues } from "@/components/posts/room-filters";
+import { NearFilter, type NearFilterValue } from "@/components/posts/near-filter";
+import { PostsMap } from "@/components/posts/posts-map";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Search,
   Plus,
@@ -16,34 +21,107 @@ import {
   Sparkles,
   UserCircle,
   LogIn,
+  Loader2,
+  MapPin,
+  List,
+  Map as MapIcon,
 } from "lucide-react";
 import { socket } from "@/lib/socket";
 import { queryClient } from "@/lib/queryClient";
-import type { Post } from "@shared/schema";
+import type { Post, PostFeedPage, PostFeedQuery, PostSearchResult } from "@shared/schema";
 import { motion, AnimatePresence } from "framer-motion";
 import { Link } from "wouter";
 
 type PostWithUsername = Post & { username?: string };
+type FeedPost = PostWithUsername & Partial<Pick<PostSearchResult, "highlights">>;
+type FeedSort = PostFeedQuery["sort"];
+
+// Delay before a filter input change refetches the feed
+const FILTER_DEBOUNCE_MS = 400;
+
+function useDebouncedValue<T>(value: T, delay: number) {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debounced;
+}
 
 export default function HomePage() {
   const { user } = useAuth();
+  usePostUpdates();
   const [search, setSearch] = useState("");
   const [postType, setPostType] = useState<"all" | "room" | "job">("all");
+  const [location, setLocation] = useState("");
+  const [minPrice, setMinPrice] = useState("");
+  const [maxPrice, setMaxPrice] = useState("");
+  const [sort, setSort] = useState<FeedSort>("newest");
+  const [roomFilters, setRoomFilters] = useState<RoomFilterValues>({});
+  const [near, setNear] = useState<NearFilterValue | null>(null);
+  const [view, setView] = useState<"list" | "map">("list");
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const debouncedFilters = useDebouncedValue(
+    { search: search.trim(), location: location.trim(), minPrice, maxPrice },
+    FILTER_DEBOUNCE_MS,
+  );
+
+  // A search query switches the list from the filtered feed to ranked
+  // full-text results; only the type filter applies to both
+  const isSearching = debouncedFilters.search.length > 0;
+  const type = postType === "all" ? undefined : postType;
+  const queryParams = isSearching
+    ? { q: debouncedFilters.search, type }
+    : {
+        type,
+        location: debouncedFilters.location || undefined,
+        minPrice: debouncedFilters.minPrice || undefined,
+        maxPrice: debouncedFilters.maxPrice || undefined,
+        near: near ? `${near.latitude},${near.longitude}` : undefined,
+        radiusKm: near?.radiusKm,
+        sort,
+        // Room filters only apply while browsing rooms
+        ...(postType === "room" ? roomFilters : {}),
+      };
+
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+  } = useInfiniteQuery({
+    queryKey: ["/api/posts", isSearching ? "search" : "feed", queryParams],
+    queryFn: async ({ pageParam }): Promise<PostFeedPage<FeedPost>> => {
+      const params = new URLSearchParams();
+      Object.entries(queryParams).forEach(([key, value]) => {
+        if (value !== undefined) params.set(key, String(value));
+      });
+      if (pageParam) params.set("cursor", pageParam);
 
-  const { data: posts = [] } = useQuery<PostWithUsername[]>({
-    queryKey: ["/api/posts"],
+      const endpoint = isSearching ? "/api/posts/search" : "/api/posts";
+      const res = await fetch(`${endpoint}?${params}`, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error("Failed to fetch posts");
+      }
+      return res.json();
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
   });
 
+  const posts = data?.pages.flatMap((page) => page.posts) ?? [];
+  // The map plots the filtered feed, so it is unavailable while searching
+  const showMap = view === "map" && !isSearching;
+
   useEffect(() => {
-    socket.on("new-post", (newPost: PostWithUsername) => {
-      queryClient.setQueryData<PostWithUsername[]>(
-        ["/api/posts"],
-        (old = []) => {
-          const exists = old.some((p) => p.id === newPost.id);
-          if (exists) return old;
-          return [newPost, ...old];
-        },
-      );
+    socket.on("new-post", () => {
+      // The new post may or may not match the active filters, so let the
+      // server decide where it belongs
+      queryClient.invalidateQueries({ queryKey: ["/api/posts", "feed"] });
     });
 
     return () => {
@@ -51,18 +129,20 @@ export default function HomePage() {
     };
   }, []);
 
-  const sortedPosts = [...posts].sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-  );
+  // Load the next page when the sentinel below the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel) return;
 
-  const filteredPosts = sortedPosts.filter((post) => {
-    const matchesSearch =
-      post.title.toLowerCase().includes(search.toLowerCase()) ||
-      post.description.toLowerCase().includes(search.toLowerCase()) ||
-      post.location.toLowerCase().includes(search.toLowerCase());
-    const matchesType = postType === "all" || post.type === postType;
-    return matchesSearch && matchesType;
-  });
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && hasNextPage && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    });
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage, showMap]);
 
   return (
     <Layout>
@@ -204,6 +284,52 @@ export default function HomePage() {
                     </Tabs>
                   </motion.div>
                 </div>
+                <div className="flex flex-col md:flex-row gap-4 items-center mt-4">
+                  <div className="relative flex-1 w-full md:w-auto">
+                    <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground h-4 w-4" />
+                    <Input
+                      placeholder="Location"
+                      disabled={isSearching}
+                      className="pl-9 bg-background/50"
+                      value={location}
+                      onChange={(e) => setLocation(e.target.value)}
+                    />
+                  </div>
+                  <div className="flex gap-2 w-full md:w-auto">
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Min price"
+                      disabled={isSearching}
+                      className="md:w-32 bg-background/50"
+                      value={minPrice}
+                      onChange={(e) => setMinPrice(e.target.value)}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Max price"
+                      disabled={isSearching}
+                      className="md:w-32 bg-background/50"
+                      value={maxPrice}
+                      onChange={(e) => setMaxPrice(e.target.value)}
+                    />
+                  </div>
+                  <NearFilter value={near} onChange={setNear} disabled={isSearching} />
+                  <Select value={sort} onValueChange={(v) => setSort(v as FeedSort)} disabled={isSearching}>
+                    <SelectTrigger className="w-full md:w-44 bg-background/50">
+                      <SelectValue placeholder="Sort by" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="newest">Newest first</SelectItem>
+                      <SelectItem value="price_asc">Price: low to high</SelectItem>
+                      <SelectItem value="price_desc">Price: high to low</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {postType === "room" && !isSearching && (
+                    <RoomFilters value={roomFilters} onChange={setRoomFilters} />
+                  )}
+                </div>
               </motion.div>
             </div>
           </div>
@@ -223,55 +349,83 @@ export default function HomePage() {
                       ? "Room Listings"
                       : "Job Opportunities"}
                 </h2>
-                <p className="text-sm text-muted-foreground">
-                  Showing {filteredPosts.length}{" "}
-                  {filteredPosts.length === 1 ? "post" : "posts"}
-                </p>
+                <div className="flex items-center gap-4">
+                  {!showMap && (
+                    <p className="text-sm text-muted-foreground">
+                      Showing {posts.length}{" "}
+                      {posts.length === 1 ? "post" : "posts"}
+                    </p>
+                  )}
+                  <Tabs value={showMap ? "map" : "list"} onValueChange={(v) => setView(v as "list" | "map")}>
+                    <TabsList>
+                      <TabsTrigger value="list" className="gap-2">
+                        <List className="h-4 w-4" />
+                        List
+                      </TabsTrigger>
+                      <TabsTrigger value="map" className="gap-2" disabled={isSearching}>
+                        <MapIcon className="h-4 w-4" />
+                        Map
+                      </TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                </div>
               </motion.div>
 
-              <AnimatePresence mode="popLayout">
-                <motion.div layout className="space-y-6 max-w-3xl mx-auto">
-                  {filteredPosts.map((post, index) => (
-                    <motion.div
-                      key={post.id}
-                      initial={{ opacity: 0, y: 20 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      exit={{ opacity: 0, y: -20 }}
-                      transition={{ delay: index * 0.1 }}
-                    >
-                      <PostCard post={post} />
-                    </motion.div>
-                  ))}
-                  {filteredPosts.length === 0 && (
-                    <motion.div
-                      initial={{ opacity: 0 }}
-                      animate={{ opacity: 1 }}
-                    >
-                      <div className="bg-muted/50 rounded-lg p-8 text-center">
-                        <h3 className="text-lg font-semibold mb-2">
-                          No posts found
-                        </h3>
-                        <p className="text-muted-foreground mb-4">
-                          {search
-                            ? "Try adjusting your search terms or filters"
-                            : "Be the first to create a post!"}
-                        </p>
-                        <Dialog>
-                          <DialogTrigger asChild>
-                            <Button className="gap-2">
-                              <Plus className="h-4 w-4" />
-                              Create New Post
-                            </Button>
-                          </DialogTrigger>
-                          <DialogContent>
-                            <PostForm />
-                          </DialogContent>
-                        </Dialog>
-                      </div>
+              {showMap ? (
+                <PostsMap filters={queryParams} />
+              ) : (
+                <>
+                  <AnimatePresence mode="popLayout">
+                    <motion.div layout className="space-y-6 max-w-3xl mx-auto">
+                      {posts.map((post, index) => (
+                        <motion.div
+                          key={post.id}
+                          initial={{ opacity: 0, y: 20 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          exit={{ opacity: 0, y: -20 }}
+                          transition={{ delay: Math.min(index, 10) * 0.1 }}
+                        >
+                          <PostCard post={post} highlights={post.highlights} />
+                        </motion.div>
+                      ))}
+                      {posts.length === 0 && !isLoading && (
+                        <motion.div
+                          initial={{ opacity: 0 }}
+                          animate={{ opacity: 1 }}
+                        >
+                          <div className="bg-muted/50 rounded-lg p-8 text-center">
+                            <h3 className="text-lg font-semibold mb-2">
+                              No posts found
+                            </h3>
+                            <p className="text-muted-foreground mb-4">
+                              {search || location || minPrice || maxPrice
+                                ? "Try adjusting your search terms or filters"
+                                : "Be the first to create a post!"}
+                            </p>
+                            <Dialog>
+                              <DialogTrigger asChild>
+                                <Button className="gap-2">
+                                  <Plus className="h-4 w-4" />
+                                  Create New Post
+                                </Button>
+                              </DialogTrigger>
+                              <DialogContent>
+                                <PostForm />
+                              </DialogContent>
+                            </Dialog>
+                          </div>
+                        </motion.div>
+                      )}
                     </motion.div>
-                  )}
-                </motion.div>
-              </AnimatePresence>
+                  </AnimatePresence>
+
+                  <div ref={loadMoreRef} className="flex justify-center py-4">
+                    {(isLoading || isFetchingNextPage) && (
+                      <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                    )}
+                  </div>
+                </>
+              )}
             </div>
           </div>
         </div>
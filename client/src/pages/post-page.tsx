@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import type { PostDetail } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { usePostUpdates } from "@/hooks/use-post-updates";
+import { Layout } from "@/components/ui/layout";
+import { PostCard } from "@/components/posts/post-card";
+import { UserProfileDialog } from "@/components/user/user-profile-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Loader2, UserCircle } from "lucide-react";
+
+export default function PostPage() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  usePostUpdates();
+  const [showProfileDialog, setShowProfileDialog] = useState(false);
+
+  const { data: post, isLoading, error } = useQuery<PostDetail>({
+    queryKey: ["/api/posts", Number(id)],
+    queryFn: async () => {
+      const res = await fetch(`/api/posts/${id}`);
+      if (res.status === 404) throw new Error("This post does not exist or was removed.");
+      if (!res.ok) throw new Error("Failed to fetch post");
+      return res.json();
+    },
+    retry: false,
+  });
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <Button variant="ghost" className="gap-2" asChild>
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4" />
+            All posts
+          </Link>
+        </Button>
+
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {error && (
+          <Card className="p-8 text-center">
+            <p className="text-muted-foreground">{error.message}</p>
+          </Card>
+        )}
+
+        {post && (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+            <div className="lg:col-span-2">
+              <PostCard post={post} detailed />
+            </div>
+
+            {post.owner && (
+              <Card className="bg-gradient-to-br from-card to-muted/5 border-muted-foreground/10">
+                <CardHeader>
+                  <CardTitle className="text-base text-muted-foreground">Posted by</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center gap-3">
+                    <div className="h-12 w-12 rounded-full bg-gradient-to-br from-primary/20 to-primary/5 flex items-center justify-center">
+                      <UserCircle className="h-8 w-8 text-primary/60" />
+                    </div>
+                    <div>
+                      <p className="font-semibold">{post.owner.fullname}</p>
+                      <p className="text-sm text-muted-foreground">@{post.owner.username}</p>
+                    </div>
+                  </div>
+                  {user ? (
+                    user.id !== post.owner.id && (
+                      <Button className="w-full" onClick={() => setShowProfileDialog(true)}>
+                        View profile and message
+                      </Button>
+                    )
+                  ) : (
+                    <Button className="w-full" asChild>
+                      <Link href="/auth">Log in to contact</Link>
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {post.owner && user && (
+              <UserProfileDialog
+                username={post.owner.username}
+                open={showProfileDialog}
+                onOpenChange={setShowProfileDialog}
+              />
+            )}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
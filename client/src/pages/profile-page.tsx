@@ -1,12 +1,17 @@
 import { useAuth } from "@/hooks/use-auth";
+import { usePostUpdates } from "@/hooks/use-post-updates";
 import { useQuery } from "@tanstack/react-query";
 import { Layout } from "@/components/ui/layout";
 import { PostCard } from "@/components/posts/post-card";
 import { PostForm } from "@/components/posts/post-form";
+import { ExpiryNotice } from "@/components/posts/expiry-notice";
+import { EmailSettings } from "@/components/auth/email-settings";
+import { TwoFactorSettings } from "@/components/auth/two-factor-settings";
+import { SessionSettings } from "@/components/auth/session-settings";
 import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { PlusCircle, Bookmark, Building2, Briefcase, UserCircle, ChevronRight, MessageSquare } from "lucide-react";
+import { PlusCircle, Bookmark, Building2, Briefcase, UserCircle, ChevronRight, MessageSquare, ShieldCheck } from "lucide-react";
 import type { Post, Chat } from "@shared/schema";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { motion, AnimatePresence } from "framer-motion";
@@ -31,10 +36,17 @@ const item = {
 
 export default function ProfilePage() {
   const { user } = useAuth();
+  usePostUpdates();
   const [, navigate] = useLocation();
 
-  const { data: posts = [] } = useQuery<PostWithUsername[]>({
-    queryKey: ["/api/posts"],
+  const { data: userPosts = [] } = useQuery<PostWithUsername[]>({
+    queryKey: ["/api/users", user?.username, "posts"],
+    queryFn: async () => {
+      const res = await fetch(`/api/users/${user!.username}/posts`);
+      if (!res.ok) throw new Error("Failed to fetch posts");
+      return res.json();
+    },
+    enabled: !!user,
   });
 
   const { data: bookmarkedPosts = [] } = useQuery<PostWithUsername[]>({
@@ -47,7 +59,6 @@ export default function ProfilePage() {
     enabled: !!user,
   });
 
-  const userPosts = posts.filter(post => post.userId === user?.id);
   const roomPosts = userPosts.filter(post => post.type === "room");
   const jobPosts = userPosts.filter(post => post.type === "job");
 
@@ -173,6 +184,10 @@ export default function ProfilePage() {
                   <Bookmark className="h-4 w-4" />
                   Saved Posts ({bookmarkedPosts.length})
                 </TabsTrigger>
+                <TabsTrigger value="security" className="flex items-center gap-2 data-[state=active]:bg-primary/20">
+                  <ShieldCheck className="h-4 w-4" />
+                  Security
+                </TabsTrigger>
               </TabsList>
 
               {/* Posts Tab */}
@@ -207,6 +222,7 @@ export default function ProfilePage() {
                         exit={{ opacity: 0, y: -20 }}
                         transition={{ delay: index * 0.1 }}
                       >
+                        <ExpiryNotice post={post} />
                         <PostCard post={post} />
                       </motion.div>
                     ))}
@@ -266,6 +282,13 @@ export default function ProfilePage() {
                   </motion.div>
                 </AnimatePresence>
               </TabsContent>
+
+              {/* Security Tab */}
+              <TabsContent value="security" className="space-y-6">
+                <EmailSettings />
+                <TwoFactorSettings />
+                <SessionSettings />
+              </TabsContent>
             </Tabs>
           </motion.div>
         </div>
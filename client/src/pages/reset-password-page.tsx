@@ -0,0 +1,106 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { z } from "zod";
+import { resetPasswordSchema } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { CheckCircle2, Loader2 } from "lucide-react";
+
+const resetFormSchema = resetPasswordSchema
+  .extend({ confirmPassword: z.string() })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+type ResetFormData = z.infer<typeof resetFormSchema>;
+
+export default function ResetPasswordPage() {
+  const token = new URLSearchParams(window.location.search).get("token") ?? "";
+
+  const form = useForm<ResetFormData>({
+    resolver: zodResolver(resetFormSchema),
+    defaultValues: { token, password: "", confirmPassword: "" },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async ({ token, password }: ResetFormData) => {
+      await apiRequest("POST", "/api/reset-password", { token, password });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold">Choose a new password</CardTitle>
+          <CardDescription>
+            {token ? "Enter the password you'd like to use from now on." : "This page needs the link from your reset email."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {resetMutation.isSuccess ? (
+            <div className="space-y-4 text-center">
+              <CheckCircle2 className="h-10 w-10 mx-auto text-green-500" />
+              <p className="text-sm text-muted-foreground">Your password has been changed.</p>
+              <Button className="w-full" asChild>
+                <Link href="/auth">Log in</Link>
+              </Button>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm password</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {form.formState.errors.token && (
+                  <p className="text-sm font-medium text-destructive">{form.formState.errors.token.message}</p>
+                )}
+                {resetMutation.isError && (
+                  <p className="text-sm font-medium text-destructive">
+                    {resetMutation.error.message.replace(/^\d+: /, "")}
+                  </p>
+                )}
+                <Button type="submit" className="w-full" disabled={!token || resetMutation.isPending}>
+                  {resetMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Set new password
+                </Button>
+                <Button variant="link" className="w-full" asChild>
+                  <Link href="/auth">Back to login</Link>
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+
+export default function VerifyEmailPage() {
+  const token = new URLSearchParams(window.location.search).get("token") ?? "";
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/verify-email", { token });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+  });
+
+  // Opening the link is the confirmation
+  useEffect(() => {
+    if (token) verifyMutation.mutate();
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-8">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold">Confirm your email</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 text-center">
+          {verifyMutation.isSuccess ? (
+            <>
+              <CheckCircle2 className="h-10 w-10 mx-auto text-green-500" />
+              <p className="text-sm text-muted-foreground">
+                Thanks, your email is confirmed.
+              </p>
+            </>
+          ) : !token || verifyMutation.isError ? (
+            <>
+              <XCircle className="h-10 w-10 mx-auto text-destructive" />
+              <p className="text-sm text-muted-foreground">
+                {token
+                  ? verifyMutation.error?.message.replace(/^\d+: /, "")
+                  : "This page needs the link from your confirmation email."}{" "}
+                You can ask for a new link from the banner at the top of the site.
+              </p>
+            </>
+          ) : (
+            <Loader2 className="h-8 w-8 mx-auto animate-spin text-muted-foreground" />
+          )}
+          <Button className="w-full" asChild>
+            <Link href="/">Go to Mero KamKotha</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
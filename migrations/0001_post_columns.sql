@@ -0,0 +1,19 @@
+-- Post columns and indexes added while the schema was still applied with
+-- drizzle-kit push. A database may have been pushed before or after any of
+-- them, so each is added only if missing.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN IF NOT EXISTS "room_details" jsonb;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN IF NOT EXISTS "job_details" jsonb;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN IF NOT EXISTS "status" text DEFAULT 'available' NOT NULL;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN IF NOT EXISTS "latitude" double precision;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN IF NOT EXISTS "longitude" double precision;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN IF NOT EXISTS "expires_at" timestamp DEFAULT now() + interval '30 days' NOT NULL;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN IF NOT EXISTS "expiry_warned_at" timestamp;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN IF NOT EXISTS "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('simple', coalesce(title, '')), 'A') || setweight(to_tsvector('simple', coalesce(location, '')), 'B') || setweight(to_tsvector('simple', coalesce(description, '')), 'C')) STORED;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "posts_status_idx" ON "posts" USING btree ("status");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "posts_expires_at_idx" ON "posts" USING btree ("expires_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "posts_coordinates_idx" ON "posts" USING btree ("latitude","longitude");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "posts_search_vector_idx" ON "posts" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "posts_room_details_idx" ON "posts" USING gin ("room_details" jsonb_path_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "posts_title_location_trgm_idx" ON "posts" USING gin (("title" || ' ' || "location") gin_trgm_ops);
\ No newline at end of file
@@ -0,0 +1,45 @@
+-- One-time cleanup so the foreign keys and unique constraints added in the
+-- next migration can be created. Rows are removed parents first, so rows
+-- orphaned by an earlier delete here are caught by a later one.
+DELETE FROM "posts" WHERE NOT EXISTS (SELECT 1 FROM "users" WHERE "users"."id" = "posts"."user_id");
+--> statement-breakpoint
+DELETE FROM "comments"
+WHERE NOT EXISTS (SELECT 1 FROM "posts" WHERE "posts"."id" = "comments"."post_id")
+   OR NOT EXISTS (SELECT 1 FROM "users" WHERE "users"."id" = "comments"."user_id");
+--> statement-breakpoint
+-- Replies whose parent is gone, and every reply beneath them
+WITH RECURSIVE "orphaned" AS (
+  SELECT "id" FROM "comments" AS "reply"
+  WHERE "reply"."parent_id" IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM "comments" AS "parent" WHERE "parent"."id" = "reply"."parent_id")
+  UNION
+  SELECT "comments"."id" FROM "comments" JOIN "orphaned" ON "comments"."parent_id" = "orphaned"."id"
+)
+DELETE FROM "comments" WHERE "id" IN (SELECT "id" FROM "orphaned");
+--> statement-breakpoint
+DELETE FROM "bookmarks"
+WHERE NOT EXISTS (SELECT 1 FROM "posts" WHERE "posts"."id" = "bookmarks"."post_id")
+   OR NOT EXISTS (SELECT 1 FROM "users" WHERE "users"."id" = "bookmarks"."user_id");
+--> statement-breakpoint
+-- Keep the oldest of duplicate bookmarks and blocks
+DELETE FROM "bookmarks" AS "duplicate" USING "bookmarks" AS "kept"
+WHERE "duplicate"."user_id" = "kept"."user_id"
+  AND "duplicate"."post_id" = "kept"."post_id"
+  AND "duplicate"."id" > "kept"."id";
+--> statement-breakpoint
+DELETE FROM "user_blocks"
+WHERE NOT EXISTS (SELECT 1 FROM "users" WHERE "users"."id" = "user_blocks"."user_id")
+   OR NOT EXISTS (SELECT 1 FROM "users" WHERE "users"."id" = "user_blocks"."blocked_user_id");
+--> statement-breakpoint
+DELETE FROM "user_blocks" AS "duplicate" USING "user_blocks" AS "kept"
+WHERE "duplicate"."user_id" = "kept"."user_id"
+  AND "duplicate"."blocked_user_id" = "kept"."blocked_user_id"
+  AND "duplicate"."id" > "kept"."id";
+--> statement-breakpoint
+DELETE FROM "messages"
+WHERE NOT EXISTS (SELECT 1 FROM "chats" WHERE "chats"."id" = "messages"."chat_id")
+   OR NOT EXISTS (SELECT 1 FROM "users" WHERE "users"."id" = "messages"."user_id");
+--> statement-breakpoint
+DELETE FROM "chat_participants"
+WHERE NOT EXISTS (SELECT 1 FROM "chats" WHERE "chats"."id" = "chat_participants"."chat_id")
+   OR NOT EXISTS (SELECT 1 FROM "users" WHERE "users"."id" = "chat_participants"."user_id");
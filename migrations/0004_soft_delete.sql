@@ -0,0 +1,3 @@
+ALTER TABLE "chats" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "comments" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "deleted_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE "comment_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"comment_id" integer NOT NULL,
+	"content" text NOT NULL,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "post_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"post_id" integer NOT NULL,
+	"type" text NOT NULL,
+	"title" text NOT NULL,
+	"description" text NOT NULL,
+	"price" integer,
+	"location" text NOT NULL,
+	"images" text[],
+	"room_details" jsonb,
+	"job_details" jsonb,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "comment_revisions" ADD CONSTRAINT "comment_revisions_comment_id_comments_id_fk" FOREIGN KEY ("comment_id") REFERENCES "public"."comments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "post_revisions" ADD CONSTRAINT "post_revisions_post_id_posts_id_fk" FOREIGN KEY ("post_id") REFERENCES "public"."posts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "comment_revisions_comment_id_idx" ON "comment_revisions" USING btree ("comment_id");--> statement-breakpoint
+CREATE INDEX "post_revisions_post_id_idx" ON "post_revisions" USING btree ("post_id");
\ No newline at end of file
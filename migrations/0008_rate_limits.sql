@@ -0,0 +1,8 @@
+CREATE TABLE "rate_limit_hits" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"key" text NOT NULL,
+	"created_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "rate_limit_hits_key_created_at_idx" ON "rate_limit_hits" USING btree ("key","created_at");--> statement-breakpoint
+CREATE INDEX "rate_limit_hits_created_at_idx" ON "rate_limit_hits" USING btree ("created_at");
\ No newline at end of file
@@ -1,11 +1,15 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Response, type RequestHandler } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { mailTransport } from "./mail";
+import { rateLimit, loginLockouts, setRetryAfter, RATE_LIMIT_MESSAGE } from "./rate-limit";
+import { recordSessionDevice, trackSessionDevice } from "./sessions";
+import { generateTotpSecret, getTotpSetup, isTotpCode, verifyTotp, generateRecoveryCodes, hashRecoveryCode } from "./two-factor";
+import { User as SelectUser, registerUserSchema, forgotPasswordSchema, resetPasswordSchema, verifyEmailSchema, setEmailSchema, twoFactorCodeSchema, type CurrentUser, type TwoFactorStatus } from "@shared/schema";
 
 declare global {
   namespace Express {
@@ -13,7 +17,118 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Set by a correct password on an account that also needs a code
+    twoFactorLogin?: { userId: number; expiresAt: number };
+    // Shown to the user during enrollment; saved to the account once confirmed
+    pendingTotpSecret?: string;
+  }
+}
+
 const scryptAsync = promisify(scrypt);
+const HOUR_MS = 60 * 60 * 1000;
+// How long the code step of a login may take after the password
+const TWO_FACTOR_LOGIN_MS = 5 * 60 * 1000;
+
+export const authConfig = {
+  // Links in emails point here rather than at the request's Host header,
+  // which the client controls
+  appUrl: (process.env.APP_URL || "http://localhost:5000").replace(/\/+$/, ""),
+  resetTokenMinutes: Number(process.env.PASSWORD_RESET_TOKEN_MINUTES) || 60,
+  verificationTokenHours: Number(process.env.EMAIL_VERIFICATION_TOKEN_HOURS) || 48,
+  // When on, unverified accounts can't post, comment or start chats
+  requireEmailVerification: process.env.REQUIRE_EMAIL_VERIFICATION === "true",
+};
+
+// Tokens sent by email; only their hash is stored
+function createEmailToken() {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashEmailToken(token) };
+}
+
+function hashEmailToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+async function sendVerificationEmail(user: SelectUser) {
+  if (!user.email) return;
+  const { token, tokenHash } = createEmailToken();
+  const expiresAt = new Date(Date.now() + authConfig.verificationTokenHours * 60 * 60 * 1000);
+  await storage.createEmailVerificationToken(user.id, tokenHash, expiresAt);
+  await mailTransport.send({
+    to: user.email,
+    subject: "Confirm your email for Mero KamKotha",
+    text: [
+      `Hi ${user.fullname},`,
+      "",
+      "Open this link to confirm your email address:",
+      `${authConfig.appUrl}/verify-email?token=${token}`,
+      "",
+      `The link expires in ${authConfig.verificationTokenHours} hours. If you didn't sign up, you can ignore this email.`,
+    ].join("\n"),
+  });
+}
+
+async function sendPasswordResetEmail(user: SelectUser) {
+  if (!user.email) return;
+  const { token, tokenHash } = createEmailToken();
+  const expiresAt = new Date(Date.now() + authConfig.resetTokenMinutes * 60 * 1000);
+  await storage.createPasswordResetToken(user.id, tokenHash, expiresAt);
+  await mailTransport.send({
+    to: user.email,
+    subject: "Reset your Mero KamKotha password",
+    text: [
+      `Hi ${user.fullname},`,
+      "",
+      "Someone asked to reset the password for your account. Open this link to choose a new one:",
+      `${authConfig.appUrl}/reset-password?token=${token}`,
+      "",
+      `The link works once and expires in ${authConfig.resetTokenMinutes} minutes. If you didn't ask for it, you can ignore this email.`,
+    ].join("\n"),
+  });
+}
+
+// What the user may see of their own account: no password hash or TOTP secret
+function toCurrentUser(user: SelectUser): CurrentUser {
+  const { password: _password, totpSecret: _totpSecret, totpLastUsedStep: _totpLastUsedStep, ...currentUser } = user;
+  return currentUser;
+}
+
+// Checks a code from the user's authenticator app, or one of their recovery
+// codes when those are allowed. Each code works once.
+async function checkTwoFactorCode(user: SelectUser, code: string, allowRecoveryCode: boolean): Promise<boolean> {
+  if (!user.totpSecret) return false;
+  if (isTotpCode(code)) {
+    const step = verifyTotp(user.totpSecret, code);
+    return step !== null && (await storage.recordTotpStep(user.id, step));
+  }
+  return allowRecoveryCode && (await storage.useRecoveryCode(user.id, hashRecoveryCode(code), new Date()));
+}
+
+// Like checkTwoFactorCode, but counts wrong codes towards a lockout. Sends
+// the error response itself and returns false when the code isn't accepted.
+async function requireTwoFactorCode(
+  res: Response,
+  user: SelectUser,
+  code: string,
+  allowRecoveryCode: boolean,
+): Promise<boolean> {
+  const lockoutKey = `user:${user.id}`;
+  const retryAfterMs = await loginLockouts.twoFactor.getRetryAfterMs(lockoutKey);
+  if (retryAfterMs > 0) {
+    setRetryAfter(res, retryAfterMs);
+    res.status(429).send(RATE_LIMIT_MESSAGE);
+    return false;
+  }
+  if (!(await checkTwoFactorCode(user, code, allowRecoveryCode))) {
+    await loginLockouts.twoFactor.fail(lockoutKey);
+    res.status(400).send("That code is invalid or has already been used");
+    return false;
+  }
+  await loginLockouts.twoFactor.reset(lockoutKey);
+  return true;
+}
 
 async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
@@ -28,18 +143,26 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+interface AuthOptions {
+  // Called after a password reset, to sign the account out of its other sessions
+  onPasswordReset?: (userId: number, currentSid: string) => Promise<void>;
+}
+
+// Returns the session middleware, so Socket.IO can read the same sessions
+export function setupAuth(app: Express, { onPasswordReset }: AuthOptions = {}): RequestHandler {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET!,
     resave: false,
     saveUninitialized: false,
     store: storage.sessionStore,
   };
+  const sessionMiddleware = session(sessionSettings);
 
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(trackSessionDevice);
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
@@ -59,24 +182,104 @@ export function setupAuth(app: Express) {
   });
 
   app.post("/api/register", async (req, res, next) => {
-    const existingUser = await storage.getUserByUsername(req.body.username);
+    const parsed = registerUserSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).send(parsed.error.errors[0].message);
+    }
+
+    const existingUser = await storage.getUserByUsername(parsed.data.username);
     if (existingUser) {
       return res.status(400).send("Username already exists");
     }
+    if (await storage.getUserByVerifiedEmail(parsed.data.email)) {
+      return res.status(400).send("An account with this email already exists");
+    }
 
     const user = await storage.createUser({
-      ...req.body,
-      password: await hashPassword(req.body.password),
+      ...parsed.data,
+      password: await hashPassword(parsed.data.password),
     });
 
+    // The account is usable either way; the link can be sent again later
+    sendVerificationEmail(user).catch((error) => console.error("Error sending verification email:", error));
+
     req.login(user, (err) => {
       if (err) return next(err);
-      res.status(201).json(user);
+      recordSessionDevice(req);
+      res.status(201).json(toCurrentUser(user));
     });
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+  // Failures are counted per username and per IP address, and either can
+  // lock logins for a while. The responses are the same whether or not the
+  // username exists.
+  app.post("/api/login", async (req, res, next) => {
+    const username = typeof req.body.username === "string" ? req.body.username.toLowerCase() : "";
+    const ip = req.ip ?? "unknown";
+
+    try {
+      const retryAfterMs = Math.max(
+        await loginLockouts.username.getRetryAfterMs(username),
+        await loginLockouts.ip.getRetryAfterMs(ip),
+      );
+      if (retryAfterMs > 0) {
+        setRetryAfter(res, retryAfterMs);
+        return res.status(429).send(RATE_LIMIT_MESSAGE);
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    passport.authenticate("local", async (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      try {
+        if (!user) {
+          await Promise.all([loginLockouts.username.fail(username), loginLockouts.ip.fail(ip)]);
+          return res.status(401).send("Invalid username or password");
+        }
+        // The IP keeps its failures, so it can't clear them with an account of its own
+        await loginLockouts.username.reset(username);
+      } catch (error) {
+        return next(error);
+      }
+      if (user.totpEnabledAt) {
+        req.session.twoFactorLogin = { userId: user.id, expiresAt: Date.now() + TWO_FACTOR_LOGIN_MS };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        recordSessionDevice(req);
+        res.status(200).json(toCurrentUser(user));
+      });
+    })(req, res, next);
+  });
+
+  // Second step of a login on an account with two-factor authentication.
+  // Takes a code from the authenticator app or a recovery code.
+  app.post("/api/login/2fa", async (req, res, next) => {
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).send(parsed.error.errors[0].message);
+    }
+
+    try {
+      const pending = req.session.twoFactorLogin;
+      const user = pending && pending.expiresAt > Date.now() ? await storage.getUser(pending.userId) : undefined;
+      if (!user?.totpEnabledAt) {
+        delete req.session.twoFactorLogin;
+        return res.status(401).send("Your login has expired. Enter your password again.");
+      }
+      if (!(await requireTwoFactorCode(res, user, parsed.data.code, true))) return;
+
+      delete req.session.twoFactorLogin;
+      req.login(user, (err) => {
+        if (err) return next(err);
+        recordSessionDevice(req);
+        res.status(200).json(toCurrentUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -86,8 +289,216 @@ export function setupAuth(app: Express) {
     });
   });
 
+  // Always answers the same way, so the form can't be used to find out
+  // which emails have accounts. The email goes out in the background, since
+  // waiting for it would make known addresses slower to answer and mail
+  // failures would show up as errors.
+  app.post("/api/forgot-password", rateLimit({ name: "forgot-password", max: 5, windowMs: HOUR_MS }), async (req, res, next) => {
+    const parsed = forgotPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).send(parsed.error.errors[0].message);
+    }
+
+    try {
+      // Only to a verified address, which is known to belong to the account
+      const user = await storage.getUserByVerifiedEmail(parsed.data.email);
+      if (user) {
+        sendPasswordResetEmail(user).catch((error) => console.error("Error sending password reset email:", error));
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/reset-password", async (req, res, next) => {
+    const parsed = resetPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).send(parsed.error.errors[0].message);
+    }
+
+    try {
+      const user = await storage.resetPassword(
+        hashEmailToken(parsed.data.token),
+        await hashPassword(parsed.data.password),
+        new Date(),
+      );
+      if (!user) {
+        return res.status(400).send("This reset link is invalid or has expired");
+      }
+      await onPasswordReset?.(user.id, req.sessionID);
+      res.sendStatus(204);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Works without a session, since the link may be opened in another browser
+  app.post("/api/verify-email", async (req, res, next) => {
+    const parsed = verifyEmailSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).send(parsed.error.errors[0].message);
+    }
+
+    try {
+      const user = await storage.verifyEmail(hashEmailToken(parsed.data.token), new Date());
+      if (!user) {
+        return res.status(400).send("This verification link is invalid or has expired");
+      }
+      if (!user.emailVerifiedAt) {
+        return res.status(400).send("Another account has already confirmed this email");
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/verify-email/resend", rateLimit({ name: "verify-email-resend", max: 3, windowMs: HOUR_MS }), async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.emailVerifiedAt) {
+      return res.status(400).send("Your email is already verified");
+    }
+    if (!req.user.email) {
+      return res.status(400).send("Your account has no email address");
+    }
+
+    try {
+      await sendVerificationEmail(req.user);
+      res.sendStatus(204);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // For accounts created before emails were collected, and for fixing a typo
+  // before confirming. A verified email can't be replaced this way.
+  app.put("/api/user/email", rateLimit({ name: "set-email", max: 3, windowMs: HOUR_MS }), async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = setEmailSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).send(parsed.error.errors[0].message);
+    }
+    if (req.user.email && req.user.emailVerifiedAt) {
+      return res.status(400).send("Your email is already verified");
+    }
+
+    try {
+      const existingUser = await storage.getUserByVerifiedEmail(parsed.data.email);
+      if (existingUser && existingUser.id !== req.user.id) {
+        return res.status(400).send("An account with this email already exists");
+      }
+      const user = await storage.setEmail(req.user.id, parsed.data.email, new Date());
+      sendVerificationEmail(user).catch((error) => console.error("Error sending verification email:", error));
+      res.json(toCurrentUser(user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toCurrentUser(req.user));
   });
+
+  app.get("/api/2fa", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const status: TwoFactorStatus = {
+        enabled: !!req.user.totpEnabledAt,
+        recoveryCodesRemaining: req.user.totpEnabledAt ? await storage.countRecoveryCodes(req.user.id) : 0,
+      };
+      res.json(status);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Starts enrollment with a new secret, kept in the session until
+  // /api/2fa/enable confirms it
+  app.post("/api/2fa/setup", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (req.user.totpEnabledAt) {
+      return res.status(400).send("Two-factor authentication is already on");
+    }
+
+    try {
+      const secret = generateTotpSecret();
+      req.session.pendingTotpSecret = secret;
+      res.json(await getTotpSetup(secret, req.user.username));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/2fa/enable", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).send(parsed.error.errors[0].message);
+    }
+    const secret = req.session.pendingTotpSecret;
+    if (!secret) {
+      return res.status(400).send("Start two-factor setup again");
+    }
+    const step = verifyTotp(secret, parsed.data.code);
+    if (step === null) {
+      return res.status(400).send("That code is invalid. Check the time on your device and try again.");
+    }
+
+    try {
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.enableTwoFactor(req.user.id, secret, recoveryCodes.map(hashRecoveryCode), new Date());
+      // The code just used can't log in as well
+      await storage.recordTotpStep(req.user.id, step);
+      delete req.session.pendingTotpSecret;
+      // Shown once; only their hashes are kept
+      res.json({ recoveryCodes });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/2fa/disable", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).send(parsed.error.errors[0].message);
+    }
+    if (!req.user.totpEnabledAt) {
+      return res.status(400).send("Two-factor authentication is already off");
+    }
+
+    try {
+      if (!(await requireTwoFactorCode(res, req.user, parsed.data.code, true))) return;
+      await storage.disableTwoFactor(req.user.id);
+      res.sendStatus(204);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Replaces every recovery code, used or not. Needs a code from the app, since
+  // someone with only a recovery code shouldn't be able to mint more.
+  app.post("/api/2fa/recovery-codes", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).send(parsed.error.errors[0].message);
+    }
+    if (!req.user.totpEnabledAt) {
+      return res.status(400).send("Two-factor authentication is off");
+    }
+
+    try {
+      if (!(await requireTwoFactorCode(res, req.user, parsed.data.code, false))) return;
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(req.user.id, recoveryCodes.map(hashRecoveryCode));
+      res.json({ recoveryCodes });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return sessionMiddleware;
 }
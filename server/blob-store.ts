@@ -0,0 +1,153 @@
+import fs from "fs";
+import path from "path";
+import { S3Client, PutObjectCommand, DeleteObjectCommand, ListObjectsV2Command } from "@aws-sdk/client-s3";
+
+export interface StoredBlob {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+// Where uploaded files are kept. Keys are flat file names; each store
+// decides the public URL an object is served from.
+export interface BlobStore {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  // Deleting a key that doesn't exist is not an error
+  delete(key: string): Promise<void>;
+  getUrl(key: string): string;
+  // The key behind a URL this store serves, or null for any other URL
+  getKey(url: string): string | null;
+  // Every stored upload; never anything else kept alongside them
+  list(): Promise<StoredBlob[]>;
+}
+
+export const uploadDir = path.join(process.cwd(), "uploads");
+
+// Files on the server's disk, served by Express under /uploads
+export class LocalBlobStore implements BlobStore {
+  constructor(private dir: string = uploadDir) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    await fs.promises.writeFile(path.join(this.dir, key), body);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(path.join(this.dir, key), { force: true });
+  }
+
+  getUrl(key: string): string {
+    return `/uploads/${key}`;
+  }
+
+  getKey(url: string): string | null {
+    // basename keeps a crafted URL from reaching outside the directory
+    return url.startsWith("/uploads/") ? path.basename(url) : null;
+  }
+
+  async list(): Promise<StoredBlob[]> {
+    const entries = await fs.promises.readdir(this.dir, { withFileTypes: true });
+    return Promise.all(
+      entries
+        // Dotfiles such as .gitkeep are not uploads
+        .filter((entry) => entry.isFile() && !entry.name.startsWith("."))
+        .map(async (entry) => {
+          const stats = await fs.promises.stat(path.join(this.dir, entry.name));
+          return { key: entry.name, size: stats.size, lastModified: stats.mtime };
+        }),
+    );
+  }
+}
+
+interface S3BlobStoreOptions {
+  bucket: string;
+  region: string;
+  // Set for S3-compatible services such as MinIO; objects are then
+  // addressed by path rather than by bucket subdomain
+  endpoint?: string;
+  // Base URL objects are served from, e.g. a CDN in front of the bucket
+  publicUrl?: string;
+  // Uploads are kept under this prefix, so listing and cleaning them up
+  // never touches other objects in the bucket
+  prefix: string;
+}
+
+export class S3BlobStore implements BlobStore {
+  private client: S3Client;
+  private bucket: string;
+  private publicUrl: string;
+  private prefix: string;
+
+  constructor({ bucket, region, endpoint, publicUrl, prefix }: S3BlobStoreOptions) {
+    // Credentials come from AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY or
+    // the rest of the SDK's default chain
+    this.client = new S3Client({ region, endpoint, forcePathStyle: !!endpoint });
+    this.bucket = bucket;
+    this.publicUrl = (
+      publicUrl ?? (endpoint ? `${endpoint}/${bucket}` : `https://${bucket}.s3.${region}.amazonaws.com`)
+    ).replace(/\/+$/, "");
+    this.prefix = prefix;
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.prefix + key,
+        Body: body,
+        ContentType: contentType,
+        // Keys are never reused, so objects can be cached for good
+        CacheControl: "public, max-age=31536000, immutable",
+      }),
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.prefix + key }));
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicUrl}/${this.prefix}${key}`;
+  }
+
+  getKey(url: string): string | null {
+    const base = `${this.publicUrl}/${this.prefix}`;
+    return url.startsWith(base) ? url.slice(base.length) : null;
+  }
+
+  async list(): Promise<StoredBlob[]> {
+    const blobs: StoredBlob[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(
+        new ListObjectsV2Command({ Bucket: this.bucket, Prefix: this.prefix, ContinuationToken: continuationToken }),
+      );
+      (page.Contents ?? []).forEach((object) => {
+        // Keys are flat, so anything in a "folder" below the prefix isn't an upload
+        const key = object.Key?.slice(this.prefix.length);
+        if (key && !key.includes("/")) {
+          blobs.push({ key, size: object.Size ?? 0, lastModified: object.LastModified ?? new Date() });
+        }
+      });
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return blobs;
+  }
+}
+
+function createBlobStore(): BlobStore {
+  if (process.env.BLOB_STORE !== "s3") return new LocalBlobStore();
+  if (!process.env.S3_BUCKET) {
+    throw new Error("S3_BUCKET must be set when BLOB_STORE=s3");
+  }
+  return new S3BlobStore({
+    bucket: process.env.S3_BUCKET,
+    region: process.env.S3_REGION || "us-east-1",
+    endpoint: process.env.S3_ENDPOINT,
+    publicUrl: process.env.S3_PUBLIC_URL,
+    prefix: process.env.S3_PREFIX || "uploads/",
+  });
+}
+
+export const blobStore: BlobStore = createBlobStore();
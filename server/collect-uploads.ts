@@ -0,0 +1,27 @@
+import { storage } from "./storage";
+import { pool } from "./db";
+import { collectOrphanedUploads, formatBytes } from "./upload-gc";
+
+// Deletes uploads no post refers to, like the server's scheduled run. With
+// --dry-run it only lists what would be deleted.
+(async () => {
+  if (process.env.STORAGE === "memory") {
+    throw new Error("Collecting uploads needs the database; in-memory posts are not visible here");
+  }
+  const dryRun = process.argv.includes("--dry-run");
+  const report = await collectOrphanedUploads({ storage, dryRun });
+
+  for (const orphan of report.orphans) {
+    console.log(`${formatBytes(orphan.size).padStart(10)}  ${orphan.lastModified.toISOString()}  ${orphan.key}`);
+  }
+  const orphanBytes = report.orphans.reduce((total, orphan) => total + orphan.size, 0);
+  console.log(`Scanned ${report.scannedFiles} files (${formatBytes(report.scannedBytes)})`);
+  console.log(
+    dryRun
+      ? `Would delete ${report.orphans.length} orphaned files, reclaiming ${formatBytes(orphanBytes)}`
+      : `Deleted ${report.deletedFiles} of ${report.orphans.length} orphaned files, reclaiming ${formatBytes(report.reclaimedBytes)}`,
+  );
+
+  await pool.end();
+  process.exitCode = report.deletedFiles === report.orphans.length || dryRun ? 0 : 1;
+})();
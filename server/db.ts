@@ -5,11 +5,29 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
+// The in-memory storage never touches the pool, so it can run without one
+if (!process.env.DATABASE_URL && process.env.STORAGE !== "memory") {
   throw new Error(
     "DATABASE_URL must be set. Did you forget to provision a database?",
   );
 }
 
+type QueryListener = (query: string, params: unknown[]) => void;
+
+const queryListeners = new Set<QueryListener>();
+
+// Calls the listener with every query run through db until the returned
+// function is called; the tests count queries with it
+export function onQuery(listener: QueryListener): () => void {
+  queryListeners.add(listener);
+  return () => queryListeners.delete(listener);
+}
+
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+export const db = drizzle({
+  client: pool,
+  schema,
+  logger: {
+    logQuery: (query, params) => queryListeners.forEach((listener) => listener(query, params)),
+  },
+});
@@ -0,0 +1,30 @@
+import type { PostFeedQuery } from "@shared/schema";
+
+// Feed cursors are opaque to clients: the sort key and id of the last post
+// on the previous page, base64url encoded.
+export type FeedCursor = [value: string | number, id: number];
+
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// Checks the value matches the sort, so a cursor edited by hand or carried
+// over from another sort order is rejected instead of reaching the query
+function isValidCursor(decoded: unknown, sort: PostFeedQuery["sort"]): decoded is FeedCursor {
+  if (!Array.isArray(decoded) || decoded.length !== 2) return false;
+  const [value, id] = decoded;
+  if (!Number.isSafeInteger(id) || id < 1) return false;
+  return sort === "newest"
+    ? typeof value === "string" && !Number.isNaN(Date.parse(value)) && new Date(value).toISOString() === value
+    : Number.isSafeInteger(value);
+}
+
+export function decodeFeedCursor(cursor: string, sort: PostFeedQuery["sort"]): FeedCursor {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (isValidCursor(decoded, sort)) return decoded;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error("Invalid cursor");
+}
@@ -0,0 +1,210 @@
+import type { Place } from "@shared/schema";
+
+// Offline gazetteer used to geocode free-text post locations. Covers every
+// district, the municipalities posts most often mention and the Kathmandu
+// valley neighbourhoods people use instead of ward numbers. There is no
+// ward-level data: "Ward 4, Tokha" resolves to Tokha, and a municipality
+// missing from this list falls back to its district when the location names
+// one. Coordinates are the approximate centre of each place. Add entries here
+// as new areas come up; existing posts are re-geocoded on the next server
+// start.
+
+export const places: Place[] = [
+  // Kathmandu valley municipalities
+  { name: "Kathmandu", kind: "municipality", district: "Kathmandu", latitude: 27.7172, longitude: 85.3240, aliases: ["ktm", "kathmandu metropolitan city"] },
+  { name: "Lalitpur", kind: "municipality", district: "Lalitpur", latitude: 27.6644, longitude: 85.3188, aliases: ["patan", "lalitpur metropolitan city"] },
+  { name: "Bhaktapur", kind: "municipality", district: "Bhaktapur", latitude: 27.6710, longitude: 85.4298, aliases: ["bhadgaon"] },
+  { name: "Kirtipur", kind: "municipality", district: "Kathmandu", latitude: 27.6784, longitude: 85.2775 },
+  { name: "Madhyapur Thimi", kind: "municipality", district: "Bhaktapur", latitude: 27.6806, longitude: 85.3870, aliases: ["thimi"] },
+  { name: "Budhanilkantha", kind: "municipality", district: "Kathmandu", latitude: 27.7650, longitude: 85.3650, aliases: ["budanilkantha"] },
+  { name: "Tokha", kind: "municipality", district: "Kathmandu", latitude: 27.7527, longitude: 85.3260 },
+  { name: "Tarakeshwar", kind: "municipality", district: "Kathmandu", latitude: 27.7560, longitude: 85.2930 },
+  { name: "Chandragiri", kind: "municipality", district: "Kathmandu", latitude: 27.6820, longitude: 85.2200 },
+  { name: "Nagarjun", kind: "municipality", district: "Kathmandu", latitude: 27.7360, longitude: 85.2630 },
+  { name: "Kageshwari Manohara", kind: "municipality", district: "Kathmandu", latitude: 27.7300, longitude: 85.4300 },
+  { name: "Gokarneshwar", kind: "municipality", district: "Kathmandu", latitude: 27.7550, longitude: 85.3950, aliases: ["gokarna"] },
+  { name: "Dakshinkali", kind: "municipality", district: "Kathmandu", latitude: 27.6100, longitude: 85.2600 },
+  { name: "Shankharapur", kind: "municipality", district: "Kathmandu", latitude: 27.7500, longitude: 85.4900, aliases: ["sankhu"] },
+  { name: "Godawari", kind: "municipality", district: "Lalitpur", latitude: 27.5920, longitude: 85.3800 },
+  { name: "Mahalaxmi", kind: "municipality", district: "Lalitpur", latitude: 27.6480, longitude: 85.3650, aliases: ["lubhu"] },
+  { name: "Changunarayan", kind: "municipality", district: "Bhaktapur", latitude: 27.7150, longitude: 85.4300 },
+  { name: "Suryabinayak", kind: "municipality", district: "Bhaktapur", latitude: 27.6570, longitude: 85.4300, aliases: ["surya binayak"] },
+
+  // Kathmandu neighbourhoods
+  { name: "Baneshwor", kind: "locality", district: "Kathmandu", latitude: 27.6915, longitude: 85.3420, aliases: ["new baneshwor", "naya baneshwor", "baneshwar"] },
+  { name: "Old Baneshwor", kind: "locality", district: "Kathmandu", latitude: 27.7030, longitude: 85.3400, aliases: ["purano baneshwor"] },
+  { name: "Thamel", kind: "locality", district: "Kathmandu", latitude: 27.7154, longitude: 85.3123 },
+  { name: "Koteshwor", kind: "locality", district: "Kathmandu", latitude: 27.6776, longitude: 85.3490, aliases: ["koteshwar"] },
+  { name: "Kalanki", kind: "locality", district: "Kathmandu", latitude: 27.6933, longitude: 85.2817 },
+  { name: "Balaju", kind: "locality", district: "Kathmandu", latitude: 27.7340, longitude: 85.3040 },
+  { name: "Chabahil", kind: "locality", district: "Kathmandu", latitude: 27.7175, longitude: 85.3470, aliases: ["chahabil"] },
+  { name: "Boudha", kind: "locality", district: "Kathmandu", latitude: 27.7215, longitude: 85.3620, aliases: ["boudhanath", "bouddha", "baudha"] },
+  { name: "Maharajgunj", kind: "locality", district: "Kathmandu", latitude: 27.7380, longitude: 85.3300, aliases: ["maharajganj"] },
+  { name: "Lazimpat", kind: "locality", district: "Kathmandu", latitude: 27.7230, longitude: 85.3200 },
+  { name: "Baluwatar", kind: "locality", district: "Kathmandu", latitude: 27.7290, longitude: 85.3300 },
+  { name: "Naxal", kind: "locality", district: "Kathmandu", latitude: 27.7150, longitude: 85.3280 },
+  { name: "Putalisadak", kind: "locality", district: "Kathmandu", latitude: 27.7050, longitude: 85.3220 },
+  { name: "Dillibazar", kind: "locality", district: "Kathmandu", latitude: 27.7050, longitude: 85.3280, aliases: ["dilli bazar"] },
+  { name: "Kalimati", kind: "locality", district: "Kathmandu", latitude: 27.6980, longitude: 85.2990 },
+  { name: "Swayambhu", kind: "locality", district: "Kathmandu", latitude: 27.7149, longitude: 85.2904, aliases: ["swoyambhu", "swayambhunath"] },
+  { name: "Sitapaila", kind: "locality", district: "Kathmandu", latitude: 27.7080, longitude: 85.2770 },
+  { name: "Gongabu", kind: "locality", district: "Kathmandu", latitude: 27.7350, longitude: 85.3140 },
+  { name: "Samakhusi", kind: "locality", district: "Kathmandu", latitude: 27.7330, longitude: 85.3170 },
+  { name: "Sinamangal", kind: "locality", district: "Kathmandu", latitude: 27.6970, longitude: 85.3550 },
+  { name: "Gaushala", kind: "locality", district: "Kathmandu", latitude: 27.7070, longitude: 85.3430 },
+  { name: "Battisputali", kind: "locality", district: "Kathmandu", latitude: 27.7040, longitude: 85.3400 },
+  { name: "Tinkune", kind: "locality", district: "Kathmandu", latitude: 27.6860, longitude: 85.3470 },
+  { name: "Maitighar", kind: "locality", district: "Kathmandu", latitude: 27.6950, longitude: 85.3220 },
+  { name: "Thapathali", kind: "locality", district: "Kathmandu", latitude: 27.6900, longitude: 85.3170 },
+  { name: "Kuleshwor", kind: "locality", district: "Kathmandu", latitude: 27.6900, longitude: 85.2950, aliases: ["kuleshwar"] },
+  { name: "Tripureshwor", kind: "locality", district: "Kathmandu", latitude: 27.6940, longitude: 85.3140, aliases: ["tripureshwar"] },
+  { name: "Sundhara", kind: "locality", district: "Kathmandu", latitude: 27.7010, longitude: 85.3120 },
+  { name: "Asan", kind: "locality", district: "Kathmandu", latitude: 27.7080, longitude: 85.3110 },
+  { name: "Jorpati", kind: "locality", district: "Kathmandu", latitude: 27.7250, longitude: 85.3770 },
+  { name: "Kapan", kind: "locality", district: "Kathmandu", latitude: 27.7370, longitude: 85.3590 },
+
+  // Lalitpur and Bhaktapur neighbourhoods
+  { name: "Pulchowk", kind: "locality", district: "Lalitpur", latitude: 27.6780, longitude: 85.3170, aliases: ["pulchok"] },
+  { name: "Jawalakhel", kind: "locality", district: "Lalitpur", latitude: 27.6720, longitude: 85.3130 },
+  { name: "Kupondole", kind: "locality", district: "Lalitpur", latitude: 27.6860, longitude: 85.3160, aliases: ["kupandol"] },
+  { name: "Sanepa", kind: "locality", district: "Lalitpur", latitude: 27.6850, longitude: 85.3060 },
+  { name: "Jhamsikhel", kind: "locality", district: "Lalitpur", latitude: 27.6800, longitude: 85.3090 },
+  { name: "Ekantakuna", kind: "locality", district: "Lalitpur", latitude: 27.6650, longitude: 85.3080 },
+  { name: "Dhobighat", kind: "locality", district: "Lalitpur", latitude: 27.6730, longitude: 85.3010 },
+  { name: "Satdobato", kind: "locality", district: "Lalitpur", latitude: 27.6590, longitude: 85.3240 },
+  { name: "Lagankhel", kind: "locality", district: "Lalitpur", latitude: 27.6670, longitude: 85.3230 },
+  { name: "Gwarko", kind: "locality", district: "Lalitpur", latitude: 27.6660, longitude: 85.3330 },
+  { name: "Imadol", kind: "locality", district: "Lalitpur", latitude: 27.6620, longitude: 85.3430 },
+  { name: "Balkumari", kind: "locality", district: "Lalitpur", latitude: 27.6700, longitude: 85.3400 },
+  { name: "Sallaghari", kind: "locality", district: "Bhaktapur", latitude: 27.6720, longitude: 85.4150 },
+
+  // Other municipalities
+  { name: "Pokhara", kind: "municipality", district: "Kaski", latitude: 28.2096, longitude: 83.9856, aliases: ["pokhara metropolitan city"] },
+  { name: "Lakeside", kind: "locality", district: "Kaski", latitude: 28.2090, longitude: 83.9580, aliases: ["lakeside pokhara", "baidam"] },
+  { name: "Bharatpur", kind: "municipality", district: "Chitwan", latitude: 27.6833, longitude: 84.4333, aliases: ["narayangadh", "narayanghat"] },
+  { name: "Sauraha", kind: "locality", district: "Chitwan", latitude: 27.5770, longitude: 84.4950 },
+  { name: "Kawasoti", kind: "municipality", district: "Nawalpur", latitude: 27.6350, longitude: 84.1300 },
+  { name: "Biratnagar", kind: "municipality", district: "Morang", latitude: 26.4525, longitude: 87.2718 },
+  { name: "Itahari", kind: "municipality", district: "Sunsari", latitude: 26.6640, longitude: 87.2740 },
+  { name: "Dharan", kind: "municipality", district: "Sunsari", latitude: 26.8120, longitude: 87.2836 },
+  { name: "Inaruwa", kind: "municipality", district: "Sunsari", latitude: 26.6000, longitude: 87.1500 },
+  { name: "Damak", kind: "municipality", district: "Jhapa", latitude: 26.6590, longitude: 87.7030 },
+  { name: "Birtamod", kind: "municipality", district: "Jhapa", latitude: 26.6400, longitude: 87.9900, aliases: ["birtamode"] },
+  { name: "Mechinagar", kind: "municipality", district: "Jhapa", latitude: 26.6500, longitude: 88.1570, aliases: ["kakarbhitta", "kakarvitta"] },
+  { name: "Bhadrapur", kind: "municipality", district: "Jhapa", latitude: 26.5440, longitude: 88.0940 },
+  { name: "Ilam", kind: "municipality", district: "Ilam", latitude: 26.9100, longitude: 87.9280 },
+  { name: "Dhankuta", kind: "municipality", district: "Dhankuta", latitude: 26.9830, longitude: 87.3420 },
+  { name: "Rajbiraj", kind: "municipality", district: "Saptari", latitude: 26.5400, longitude: 86.7500 },
+  { name: "Lahan", kind: "municipality", district: "Siraha", latitude: 26.7200, longitude: 86.4800 },
+  { name: "Janakpur", kind: "municipality", district: "Dhanusha", latitude: 26.7288, longitude: 85.9263, aliases: ["janakpurdham"] },
+  { name: "Malangwa", kind: "municipality", district: "Sarlahi", latitude: 26.8600, longitude: 85.5600 },
+  { name: "Gaur", kind: "municipality", district: "Rautahat", latitude: 26.7700, longitude: 85.2700 },
+  { name: "Kalaiya", kind: "municipality", district: "Bara", latitude: 27.0300, longitude: 85.0000 },
+  { name: "Birgunj", kind: "municipality", district: "Parsa", latitude: 27.0104, longitude: 84.8770, aliases: ["birganj"] },
+  { name: "Hetauda", kind: "municipality", district: "Makwanpur", latitude: 27.4280, longitude: 85.0322 },
+  { name: "Kamalamai", kind: "municipality", district: "Sindhuli", latitude: 27.2100, longitude: 85.9100, aliases: ["sindhulimadi", "sindhuli"] },
+  { name: "Banepa", kind: "municipality", district: "Kavrepalanchok", latitude: 27.6320, longitude: 85.5220 },
+  { name: "Dhulikhel", kind: "municipality", district: "Kavrepalanchok", latitude: 27.6210, longitude: 85.5560 },
+  { name: "Panauti", kind: "municipality", district: "Kavrepalanchok", latitude: 27.5840, longitude: 85.5210 },
+  { name: "Bidur", kind: "municipality", district: "Nuwakot", latitude: 27.9000, longitude: 85.1500 },
+  { name: "Gorkha", kind: "municipality", district: "Gorkha", latitude: 28.0000, longitude: 84.6333 },
+  { name: "Besisahar", kind: "municipality", district: "Lamjung", latitude: 28.2300, longitude: 84.3800 },
+  { name: "Baglung", kind: "municipality", district: "Baglung", latitude: 28.2700, longitude: 83.5900 },
+  { name: "Putalibazar", kind: "municipality", district: "Syangja", latitude: 28.0900, longitude: 83.8700, aliases: ["syangja"] },
+  { name: "Waling", kind: "municipality", district: "Syangja", latitude: 27.9900, longitude: 83.7700 },
+  { name: "Tansen", kind: "municipality", district: "Palpa", latitude: 27.8676, longitude: 83.5444, aliases: ["palpa"] },
+  { name: "Butwal", kind: "municipality", district: "Rupandehi", latitude: 27.7006, longitude: 83.4484 },
+  { name: "Siddharthanagar", kind: "municipality", district: "Rupandehi", latitude: 27.5050, longitude: 83.4500, aliases: ["bhairahawa"] },
+  { name: "Ghorahi", kind: "municipality", district: "Dang", latitude: 28.0400, longitude: 82.4860, aliases: ["dang"] },
+  { name: "Tulsipur", kind: "municipality", district: "Dang", latitude: 28.1310, longitude: 82.2970 },
+  { name: "Nepalgunj", kind: "municipality", district: "Banke", latitude: 28.0500, longitude: 81.6167, aliases: ["nepalganj"] },
+  { name: "Kohalpur", kind: "municipality", district: "Banke", latitude: 28.2000, longitude: 81.6830 },
+  { name: "Gulariya", kind: "municipality", district: "Bardiya", latitude: 28.2300, longitude: 81.3500 },
+  { name: "Birendranagar", kind: "municipality", district: "Surkhet", latitude: 28.6020, longitude: 81.6330, aliases: ["surkhet"] },
+  { name: "Chandannath", kind: "municipality", district: "Jumla", latitude: 29.2740, longitude: 82.1830, aliases: ["jumla"] },
+  { name: "Tikapur", kind: "municipality", district: "Kailali", latitude: 28.5000, longitude: 81.1333 },
+  { name: "Dhangadhi", kind: "municipality", district: "Kailali", latitude: 28.6833, longitude: 80.6000 },
+  { name: "Bhimdatta", kind: "municipality", district: "Kanchanpur", latitude: 28.9630, longitude: 80.1780, aliases: ["mahendranagar"] },
+
+  // Districts, except those sharing a name or alias with a municipality
+  // above. Coordinates are centroids of the district boundaries in
+  // nepal-geojson (https://github.com/acesmndr/nepal-geojson, MIT).
+
+  // Koshi Province districts
+  { name: "Taplejung", kind: "district", district: "Taplejung", latitude: 27.5813, longitude: 87.8236 },
+  { name: "Panchthar", kind: "district", district: "Panchthar", latitude: 27.1120, longitude: 87.7680 },
+  { name: "Jhapa", kind: "district", district: "Jhapa", latitude: 26.5772, longitude: 87.9080 },
+  { name: "Morang", kind: "district", district: "Morang", latitude: 26.6167, longitude: 87.4738 },
+  { name: "Sunsari", kind: "district", district: "Sunsari", latitude: 26.6496, longitude: 87.1663 },
+  { name: "Bhojpur", kind: "district", district: "Bhojpur", latitude: 27.1792, longitude: 87.0675 },
+  { name: "Tehrathum", kind: "district", district: "Tehrathum", latitude: 27.1501, longitude: 87.5398, aliases: ["terhathum"] },
+  { name: "Sankhuwasabha", kind: "district", district: "Sankhuwasabha", latitude: 27.5821, longitude: 87.2808 },
+  { name: "Solukhumbu", kind: "district", district: "Solukhumbu", latitude: 27.7120, longitude: 86.7195, aliases: ["solu khumbu"] },
+  { name: "Okhaldhunga", kind: "district", district: "Okhaldhunga", latitude: 27.3287, longitude: 86.4134 },
+  { name: "Khotang", kind: "district", district: "Khotang", latitude: 27.1688, longitude: 86.7882 },
+  { name: "Udayapur", kind: "district", district: "Udayapur", latitude: 26.9113, longitude: 86.6949 },
+
+  // Madhesh Province districts
+  { name: "Saptari", kind: "district", district: "Saptari", latitude: 26.6147, longitude: 86.7243 },
+  { name: "Siraha", kind: "district", district: "Siraha", latitude: 26.7536, longitude: 86.3333 },
+  { name: "Dhanusha", kind: "district", district: "Dhanusha", latitude: 26.8258, longitude: 86.0264, aliases: ["dhanusa"] },
+  { name: "Mahottari", kind: "district", district: "Mahottari", latitude: 26.8814, longitude: 85.8175 },
+  { name: "Sarlahi", kind: "district", district: "Sarlahi", latitude: 26.9820, longitude: 85.5581 },
+  { name: "Rautahat", kind: "district", district: "Rautahat", latitude: 26.9994, longitude: 85.2977 },
+  { name: "Bara", kind: "district", district: "Bara", latitude: 27.1099, longitude: 85.0754 },
+  { name: "Parsa", kind: "district", district: "Parsa", latitude: 27.2375, longitude: 84.7775 },
+
+  // Bagmati Province districts
+  { name: "Ramechhap", kind: "district", district: "Ramechhap", latitude: 27.5058, longitude: 86.1672 },
+  { name: "Dolakha", kind: "district", district: "Dolakha", latitude: 27.7830, longitude: 86.1964 },
+  { name: "Sindhupalchok", kind: "district", district: "Sindhupalchok", latitude: 27.9135, longitude: 85.7403, aliases: ["sindhupalchowk"] },
+  { name: "Kavrepalanchok", kind: "district", district: "Kavrepalanchok", latitude: 27.5379, longitude: 85.6182, aliases: ["kavre", "kabhre", "kabhrepalanchok"] },
+  { name: "Nuwakot", kind: "district", district: "Nuwakot", latitude: 27.9137, longitude: 85.2380 },
+  { name: "Rasuwa", kind: "district", district: "Rasuwa", latitude: 28.1806, longitude: 85.4074 },
+  { name: "Dhading", kind: "district", district: "Dhading", latitude: 27.9492, longitude: 84.9610 },
+  { name: "Makwanpur", kind: "district", district: "Makwanpur", latitude: 27.4682, longitude: 85.0781, aliases: ["makawanpur"] },
+  { name: "Chitwan", kind: "district", district: "Chitwan", latitude: 27.5845, longitude: 84.4371, aliases: ["chitawan"] },
+
+  // Gandaki Province districts
+  { name: "Lamjung", kind: "district", district: "Lamjung", latitude: 28.2904, longitude: 84.4287 },
+  { name: "Tanahun", kind: "district", district: "Tanahun", latitude: 27.9535, longitude: 84.2505, aliases: ["tanahu"] },
+  { name: "Kaski", kind: "district", district: "Kaski", latitude: 28.3543, longitude: 84.0004 },
+  { name: "Manang", kind: "district", district: "Manang", latitude: 28.6736, longitude: 84.2228 },
+  { name: "Mustang", kind: "district", district: "Mustang", latitude: 28.9811, longitude: 83.8580 },
+  { name: "Myagdi", kind: "district", district: "Myagdi", latitude: 28.5526, longitude: 83.4607 },
+  { name: "Parbat", kind: "district", district: "Parbat", latitude: 28.2103, longitude: 83.6862 },
+  { name: "Nawalpur", kind: "district", district: "Nawalpur", latitude: 27.7010, longitude: 84.0882, aliases: ["nawalparasi east"] },
+
+  // Lumbini Province districts
+  { name: "Parasi", kind: "district", district: "Parasi", latitude: 27.5328, longitude: 83.7564, aliases: ["nawalparasi west"] },
+  { name: "Rupandehi", kind: "district", district: "Rupandehi", latitude: 27.5791, longitude: 83.3847 },
+  { name: "Kapilvastu", kind: "district", district: "Kapilvastu", latitude: 27.6353, longitude: 82.9912, aliases: ["kapilbastu"] },
+  { name: "Arghakhanchi", kind: "district", district: "Arghakhanchi", latitude: 27.9181, longitude: 83.0756 },
+  { name: "Gulmi", kind: "district", district: "Gulmi", latitude: 28.0932, longitude: 83.3043 },
+  { name: "Pyuthan", kind: "district", district: "Pyuthan", latitude: 28.1191, longitude: 82.8713 },
+  { name: "Rolpa", kind: "district", district: "Rolpa", latitude: 28.3414, longitude: 82.6229 },
+  { name: "Rukum East", kind: "district", district: "Rukum East", latitude: 28.6712, longitude: 82.8049, aliases: ["eastern rukum"] },
+  { name: "Banke", kind: "district", district: "Banke", latitude: 28.0859, longitude: 81.8301 },
+  { name: "Bardiya", kind: "district", district: "Bardiya", latitude: 28.3839, longitude: 81.4012, aliases: ["bardia"] },
+
+  // Karnali Province districts
+  { name: "Rukum West", kind: "district", district: "Rukum West", latitude: 28.7402, longitude: 82.4633, aliases: ["western rukum"] },
+  { name: "Salyan", kind: "district", district: "Salyan", latitude: 28.3959, longitude: 82.1358 },
+  { name: "Dolpa", kind: "district", district: "Dolpa", latitude: 29.1696, longitude: 83.0547 },
+  { name: "Humla", kind: "district", district: "Humla", latitude: 30.0311, longitude: 81.8823 },
+  { name: "Kalikot", kind: "district", district: "Kalikot", latitude: 29.1927, longitude: 81.7510 },
+  { name: "Mugu", kind: "district", district: "Mugu", latitude: 29.6167, longitude: 82.3730 },
+  { name: "Dailekh", kind: "district", district: "Dailekh", latitude: 28.8776, longitude: 81.6797 },
+  { name: "Jajarkot", kind: "district", district: "Jajarkot", latitude: 28.8639, longitude: 82.1668 },
+
+  // Sudurpashchim Province districts
+  { name: "Bajura", kind: "district", district: "Bajura", latitude: 29.5606, longitude: 81.5655 },
+  { name: "Bajhang", kind: "district", district: "Bajhang", latitude: 29.7067, longitude: 81.1789 },
+  { name: "Achham", kind: "district", district: "Achham", latitude: 29.1117, longitude: 81.2954 },
+  { name: "Doti", kind: "district", district: "Doti", latitude: 29.1669, longitude: 80.8931 },
+  { name: "Kailali", kind: "district", district: "Kailali", latitude: 28.7430, longitude: 80.8773 },
+  { name: "Kanchanpur", kind: "district", district: "Kanchanpur", latitude: 28.8619, longitude: 80.3222 },
+  { name: "Dadeldhura", kind: "district", district: "Dadeldhura", latitude: 29.2237, longitude: 80.4890 },
+  { name: "Baitadi", kind: "district", district: "Baitadi", latitude: 29.5041, longitude: 80.5670 },
+  { name: "Darchula", kind: "district", district: "Darchula", latitude: 29.8911, longitude: 80.7929 },
+];
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { geocodeLocation, searchPlaces } from "./geocoder";
+import { places } from "./gazetteer-data";
+
+function placeAt(location: string) {
+  const { latitude, longitude } = geocodeLocation(location);
+  return places.find((place) => place.latitude === latitude && place.longitude === longitude)?.name;
+}
+
+describe("geocodeLocation", () => {
+  it("resolves the most specific place named", () => {
+    expect(placeAt("Old Baneshwor, Kathmandu")).toBe("Old Baneshwor");
+    expect(placeAt("Near Thamel Chowk, Kathmandu")).toBe("Thamel");
+    expect(placeAt("Pokhara, Kaski")).toBe("Pokhara");
+  });
+
+  it("resolves wards to their municipality", () => {
+    expect(placeAt("Ward 4, Tokha")).toBe("Tokha");
+  });
+
+  it("falls back to the district for municipalities it doesn't list", () => {
+    expect(placeAt("Khandbari-5, Sankhuwasabha")).toBe("Sankhuwasabha");
+    expect(placeAt("Kavre")).toBe("Kavrepalanchok");
+  });
+
+  it("returns null coordinates for unknown places", () => {
+    expect(geocodeLocation("Somewhere else")).toEqual({ latitude: null, longitude: null });
+  });
+});
+
+describe("searchPlaces", () => {
+  it("suggests districts alongside municipalities", () => {
+    expect(searchPlaces("sankhu").map((place) => place.name)).toEqual(["Sankhuwasabha", "Shankharapur"]);
+  });
+});
@@ -0,0 +1,57 @@
+import type { Place } from "@shared/schema";
+import { places } from "./gazetteer-data";
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+const specificity: Record<Place["kind"], number> = {
+  locality: 0,
+  municipality: 1,
+  district: 2,
+};
+
+// Every searchable name of every place, most specific first: localities,
+// then municipalities, then districts, and longer names before shorter ones,
+// so "Old Baneshwor" wins over "Baneshwor", "Thamel, Kathmandu" resolves to
+// Thamel and "Pokhara, Kaski" to Pokhara
+const placeNames = places
+  .flatMap((place) =>
+    [place.name, ...(place.aliases ?? [])].map((name) => ({ place, name: normalize(name) })),
+  )
+  .sort((a, b) => {
+    if (a.place.kind !== b.place.kind) return specificity[a.place.kind] - specificity[b.place.kind];
+    return b.name.length - a.name.length;
+  });
+
+function findPlace(location: string): Place | undefined {
+  const text = ` ${normalize(location)} `;
+  return placeNames.find(({ name }) => text.includes(` ${name} `))?.place;
+}
+
+// Resolves a free-text location against the bundled gazetteer. Returns null
+// coordinates when no known place is mentioned.
+export function geocodeLocation(location: string): { latitude: number | null; longitude: number | null } {
+  const place = findPlace(location);
+  return {
+    latitude: place?.latitude ?? null,
+    longitude: place?.longitude ?? null,
+  };
+}
+
+// Places whose name or alias starts with the query, for location autocomplete
+export function searchPlaces(query: string, limit = 8): Place[] {
+  const q = normalize(query);
+  if (!q) return [];
+
+  const matches = new Set<Place>();
+  for (const { place, name } of placeNames) {
+    if (name.startsWith(q) || name.includes(` ${q}`)) matches.add(place);
+  }
+  return Array.from(matches)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
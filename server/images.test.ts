@@ -0,0 +1,71 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import sharp from "sharp";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { LocalBlobStore } from "./blob-store";
+import { processImage } from "./images";
+
+// A photo as a phone sends it: stored sideways with EXIF saying to rotate it,
+// and carrying where it was taken
+function phonePhoto(width: number, height: number): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: "#c06040" } })
+    .jpeg()
+    .withMetadata({
+      orientation: 6,
+      exif: { IFD0: { Make: "PhoneCo" }, IFD3: { GPSLatitudeRef: "N", GPSLatitude: "27/1 42/1 0/1" } },
+    })
+    .toBuffer();
+}
+
+describe("processImage", () => {
+  let dir: string;
+  let store: LocalBlobStore;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "images-"));
+    store = new LocalBlobStore(dir);
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  const stored = (key: string) => sharp(path.join(dir, key)).metadata();
+
+  it("stores every size as WebP without metadata", async () => {
+    const input = await phonePhoto(2400, 3200);
+    expect((await sharp(input).metadata()).exif).toBeDefined();
+
+    const url = await processImage(input, "images-1", store);
+
+    expect(url).toBe("/uploads/images-1-full.webp");
+    const sizes = await Promise.all(["thumb", "card", "full"].map((size) => stored(`images-1-${size}.webp`)));
+    // The orientation is applied, so the sideways 2400x3200 photo is landscape
+    expect(sizes.map(({ format, width, height }) => ({ format, width, height }))).toEqual([
+      { format: "webp", width: 320, height: 240 },
+      { format: "webp", width: 800, height: 600 },
+      { format: "webp", width: 1600, height: 1200 },
+    ]);
+    sizes.forEach((metadata) => {
+      expect(metadata.exif).toBeUndefined();
+      expect(metadata.icc).toBeUndefined();
+      expect(metadata.xmp).toBeUndefined();
+      expect(metadata.orientation).toBeUndefined();
+    });
+  });
+
+  it("never enlarges small images", async () => {
+    await processImage(await phonePhoto(600, 500), "images-2", store);
+
+    const widths = await Promise.all(
+      ["thumb", "card", "full"].map(async (size) => (await stored(`images-2-${size}.webp`)).width),
+    );
+    expect(widths).toEqual([320, 500, 500]);
+  });
+
+  it("stores nothing when the upload isn't an image", async () => {
+    await expect(processImage(Buffer.from("not an image"), "images-3", store)).rejects.toThrow();
+    expect(await store.list()).toEqual([]);
+  });
+});
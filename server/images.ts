@@ -0,0 +1,82 @@
+import sharp from "sharp";
+import { imageSizes, type ImageSize } from "@shared/schema";
+import { blobStore, type BlobStore } from "./blob-store";
+
+const WEBP_QUALITY = 80;
+const sizes = Object.keys(imageSizes) as ImageSize[];
+const variantKeyPattern = /-(thumb|card|full)\.webp$/;
+
+function getVariantKey(name: string, size: ImageSize): string {
+  return `${name}-${size}.webp`;
+}
+
+function createImageName(): string {
+  return `images-${Date.now()}-${Math.round(Math.random() * 1e9)}`;
+}
+
+// Whether a stored file is one of the sizes made by processImage
+export function isImageVariant(key: string): boolean {
+  return variantKeyPattern.test(key);
+}
+
+// Stores every size of an uploaded image as WebP and returns the URL of the
+// full size. Orientation from EXIF is applied to the pixels, and the output
+// carries no metadata, so location data never reaches viewers.
+export async function processImage(
+  input: Buffer,
+  name: string = createImageName(),
+  store: BlobStore = blobStore,
+): Promise<string> {
+  const image = sharp(input).rotate();
+  const stored: string[] = [];
+  try {
+    for (const size of sizes) {
+      const body = await image
+        .clone()
+        .resize({ width: imageSizes[size], withoutEnlargement: true })
+        .webp({ quality: WEBP_QUALITY })
+        .toBuffer();
+      const key = getVariantKey(name, size);
+      await store.put(key, body, "image/webp");
+      stored.push(key);
+    }
+  } catch (error) {
+    await Promise.all(stored.map((key) => store.delete(key)));
+    throw error;
+  }
+  return store.getUrl(getVariantKey(name, "full"));
+}
+
+// Processes a request's uploads one at a time. If one fails, the sizes
+// already stored for the others are removed too.
+export async function processUploads(inputs: Buffer[]): Promise<string[]> {
+  const urls: string[] = [];
+  try {
+    for (const input of inputs) {
+      urls.push(await processImage(input));
+    }
+  } catch (error) {
+    await Promise.all(urls.map(deleteImage));
+    throw error;
+  }
+  return urls;
+}
+
+// Stored files behind an image URL: every size of a processed image, or the
+// file itself for one uploaded before processing. Images the store doesn't
+// serve (e.g. older Firebase uploads) have none.
+export function getImageKeys(url: string, store: BlobStore = blobStore): string[] {
+  const key = store.getKey(url);
+  if (!key) return [];
+  if (!isImageVariant(key)) return [key];
+  const name = key.replace(variantKeyPattern, "");
+  return sizes.map((size) => getVariantKey(name, size));
+}
+
+export async function deleteImage(url: string): Promise<void> {
+  await Promise.all(
+    getImageKeys(url).map((key) =>
+      blobStore.delete(key).catch((err) => console.error("Error deleting image:", err)),
+    ),
+  );
+}
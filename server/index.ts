@@ -1,5 +1,6 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { runMigrations } from "./migrate";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -37,6 +38,11 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  if (process.env.STORAGE !== "memory") {
+    await runMigrations();
+    log("database migrations are up to date");
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
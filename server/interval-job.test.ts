@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createIntervalJob } from "./interval-job";
+
+describe("createIntervalJob", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("joins a run already in progress", async () => {
+    let finish!: () => void;
+    const run = vi.fn(() => new Promise<void>((resolve) => (finish = resolve)));
+    const job = createIntervalJob({ run, intervalMs: 1000, errorMessage: "Error:" });
+
+    const first = job.runOnce();
+    const second = job.runOnce();
+    expect(second).toBe(first);
+    finish();
+    await first;
+    expect(run).toHaveBeenCalledTimes(1);
+
+    const third = job.runOnce();
+    finish();
+    await third;
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it("logs a failed run and keeps its schedule", async () => {
+    vi.useFakeTimers();
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const run = vi.fn().mockRejectedValueOnce(new Error("boom")).mockResolvedValue(undefined);
+    const job = createIntervalJob({ run, intervalMs: 1000, errorMessage: "Error running job:" });
+
+    job.start();
+    job.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalledWith("Error running job:", expect.any(Error));
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(run).toHaveBeenCalledTimes(3);
+
+    job.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+});
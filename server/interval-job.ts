@@ -0,0 +1,54 @@
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export interface IntervalJob {
+  // Runs once, or joins the run already in progress
+  runOnce(): Promise<void>;
+  // Runs now and then every interval until stopped
+  start(): void;
+  stop(): void;
+}
+
+interface IntervalJobOptions {
+  run: () => Promise<void>;
+  intervalMs: number;
+  // Logged with the error when a run fails; the job keeps its schedule
+  errorMessage: string;
+}
+
+// Background work the server repeats on a timer, such as expiring posts
+export function createIntervalJob({ run, intervalMs, errorMessage }: IntervalJobOptions): IntervalJob {
+  let timer: NodeJS.Timeout | null = null;
+  let running: Promise<void> | null = null;
+
+  function runOnce(): Promise<void> {
+    if (!running) {
+      running = run()
+        .catch((error) => console.error(errorMessage, error))
+        .finally(() => {
+          running = null;
+        });
+    }
+    return running;
+  }
+
+  return {
+    runOnce,
+    start() {
+      if (timer) return;
+      void runOnce();
+      timer = setInterval(runOnce, intervalMs);
+      // Don't keep the process alive just for the job
+      timer.unref();
+    },
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
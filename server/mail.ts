@@ -0,0 +1,68 @@
+import fs from "fs";
+import path from "path";
+import nodemailer, { type Transporter } from "nodemailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const defaultFrom = process.env.MAIL_FROM || "Mero KamKotha <no-reply@localhost>";
+
+// Sends through any SMTP server, including local catchers such as Mailpit
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter;
+
+  constructor(url: string, private from: string = defaultFrom) {
+    this.transporter = nodemailer.createTransport(url);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+// Writes each message to its own .eml file, for development without SMTP
+export class FileMailTransport implements MailTransport {
+  constructor(private dir: string, private from: string = defaultFrom) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  async send({ to, subject, text }: MailMessage): Promise<void> {
+    const fileName = `${Date.now()}-${to.replace(/[^a-z0-9.@-]/gi, "_")}.eml`;
+    const contents = [`From: ${this.from}`, `To: ${to}`, `Subject: ${subject}`, "", text].join("\r\n");
+    await fs.promises.writeFile(path.join(this.dir, fileName), contents);
+  }
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  async send({ to, subject, text }: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${to}\n[mail] Subject: ${subject}\n${text}`);
+  }
+}
+
+function createMailTransport(): MailTransport {
+  // The other transports keep reset and confirmation links where anyone
+  // reading the logs or the disk could use them
+  if (process.env.NODE_ENV === "production" && process.env.MAIL_TRANSPORT !== "smtp") {
+    throw new Error("MAIL_TRANSPORT=smtp must be set in production");
+  }
+  switch (process.env.MAIL_TRANSPORT) {
+    case "smtp":
+      if (!process.env.SMTP_URL) {
+        throw new Error("SMTP_URL must be set when MAIL_TRANSPORT=smtp");
+      }
+      return new SmtpMailTransport(process.env.SMTP_URL);
+    case "file":
+      return new FileMailTransport(process.env.MAIL_DIR || path.join(process.cwd(), "mail"));
+    default:
+      return new ConsoleMailTransport();
+  }
+}
+
+export const mailTransport: MailTransport = createMailTransport();
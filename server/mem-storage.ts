@@ -0,0 +1,779 @@
+import session, { type SessionData } from "express-session";
+import createMemoryStore from "memorystore";
+import {
+  openPostStatuses,
+  type User,
+  type Post,
+  type Comment,
+  type Bookmark,
+  type InsertUser,
+  type InsertPost,
+  type InsertComment,
+  type Chat,
+  type Message,
+  type ChatParticipant,
+  type InsertMessage,
+  type PostFeedQuery,
+  type PostFeedPage,
+  type PostSearchQuery,
+  type PostSearchResult,
+  type PostStatus,
+  type PublicUser,
+  type PostWithAuthor,
+  type CommentWithAuthor,
+  type MessageWithUser,
+  type ChatWithDetails,
+  type UserBlock,
+  type PostRevision,
+  type CommentRevision,
+  type PasswordResetToken,
+  type EmailVerificationToken,
+  type RecoveryCode,
+} from "@shared/schema";
+import { geocodeLocation } from "./geocoder";
+import { decodeFeedCursor, encodeFeedCursor } from "./feed-cursor";
+import { maskDeletedComments } from "./soft-delete";
+import { toCommentRevision, toPostRevision } from "./revisions";
+import type { IStorage } from "./storage";
+import type { StoredSession } from "./sessions";
+
+const MemoryStore = createMemoryStore(session);
+
+const EARTH_RADIUS_KM = 6371;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function distanceKm(latitude: number, longitude: number, post: Post): number {
+  const dLat = toRadians(post.latitude! - latitude);
+  const dLng = toRadians(post.longitude! - longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(latitude)) * Math.cos(toRadians(post.latitude!)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+// Same rule as the SQL version: false only for job posts whose application
+// deadline has passed
+function isWithinDeadline(post: Post): boolean {
+  const deadline = post.jobDetails?.applicationDeadline;
+  return !deadline || deadline >= new Date().toISOString().slice(0, 10);
+}
+
+function isOpen(post: Post): boolean {
+  return openPostStatuses.includes(post.status);
+}
+
+function isLive(row: { deletedAt: Date | null }): boolean {
+  return row.deletedAt === null;
+}
+
+function searchTerms(text: string): string[] {
+  return text.toLowerCase().match(new RegExp("[\\p{L}\\p{N}]+", "gu")) ?? [];
+}
+
+function matchesTerm(text: string, term: string): boolean {
+  return searchTerms(text).some((word) => word.startsWith(term));
+}
+
+function highlight(text: string, terms: string[]): string {
+  return text.replace(new RegExp("[\\p{L}\\p{N}]+", "gu"), (word) =>
+    terms.some((term) => word.toLowerCase().startsWith(term)) ? `<mark>${word}</mark>` : word,
+  );
+}
+
+// Drops keys whose value is undefined, which Drizzle leaves out of an update
+function definedFields<T extends object>(updates: T): Partial<T> {
+  return Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+// Newest first, with the higher id breaking ties between equal timestamps
+function byNewest(a: { createdAt: Date; id: number }, b: { createdAt: Date; id: number }): number {
+  return b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id;
+}
+
+// IStorage kept entirely in process memory, for local development without a
+// database. Mirrors the behaviour of DatabaseStorage, except that search has
+// no typo tolerance and data is lost on restart. Rows are copied on the way
+// in and out so callers can't change stored state by mutating a result.
+export class MemStorage implements IStorage {
+  readonly sessionStore: session.Store;
+
+  private users: User[] = [];
+  private posts: Post[] = [];
+  private comments: Comment[] = [];
+  private bookmarks: Bookmark[] = [];
+  private chats: Chat[] = [];
+  private chatParticipants: ChatParticipant[] = [];
+  private messages: Message[] = [];
+  private userBlocks: UserBlock[] = [];
+  private postRevisions: PostRevision[] = [];
+  private commentRevisions: CommentRevision[] = [];
+  private passwordResetTokens: PasswordResetToken[] = [];
+  private emailVerificationTokens: EmailVerificationToken[] = [];
+  private recoveryCodes: RecoveryCode[] = [];
+  private lastIds: Record<string, number> = {};
+
+  constructor() {
+    this.sessionStore = new MemoryStore({
+      // Prune expired sessions once a day
+      checkPeriod: DAY_MS,
+    });
+  }
+
+  private nextId(table: string): number {
+    this.lastIds[table] = (this.lastIds[table] ?? 0) + 1;
+    return this.lastIds[table];
+  }
+
+  private withAuthor<T extends { userId: number }>(row: T): T & { username?: string } {
+    return { ...row, username: this.users.find((user) => user.id === row.userId)?.username };
+  }
+
+  private publicUser(id: number): PublicUser | undefined {
+    const user = this.users.find((user) => user.id === id);
+    return user && { id: user.id, username: user.username, fullname: user.fullname };
+  }
+
+  // Applies changes to every matching post and returns copies of the results
+  private updatePosts(match: (post: Post) => boolean, changes: (post: Post) => Partial<Post>): Post[] {
+    const updated: Post[] = [];
+    this.posts = this.posts.map((post) => {
+      if (!match(post)) return post;
+      const next = { ...post, ...changes(post) };
+      updated.push({ ...next });
+      return next;
+    });
+    return updated;
+  }
+
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const all = await new Promise<Record<string, SessionData>>((resolve, reject) => {
+      this.sessionStore.all!((err, sessions) => (err ? reject(err) : resolve((sessions ?? {}) as Record<string, SessionData>)));
+    });
+    const now = new Date();
+    return Object.entries(all)
+      .filter(([, data]) => data.passport?.user === userId && (!data.cookie?.expires || new Date(data.cookie.expires) > now))
+      .map(([sid, data]) => ({ sid, data }));
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const user = this.users.find((user) => user.id === id);
+    return user && { ...user };
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const user = this.users.find((user) => user.username === username);
+    return user && { ...user };
+  }
+
+  async getUserByVerifiedEmail(email: string): Promise<User | undefined> {
+    const user = this.users.find((user) => user.email === email && user.emailVerifiedAt !== null);
+    return user && { ...user };
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (this.users.some((user) => user.username === insertUser.username)) {
+      throw new Error(`Username "${insertUser.username}" already exists`);
+    }
+    if (insertUser.email && insertUser.emailVerifiedAt && (await this.getUserByVerifiedEmail(insertUser.email))) {
+      throw new Error(`Email "${insertUser.email}" already exists`);
+    }
+    const user: User = {
+      ...insertUser,
+      email: insertUser.email ?? null,
+      emailVerifiedAt: insertUser.emailVerifiedAt ?? null,
+      totpSecret: insertUser.totpSecret ?? null,
+      totpEnabledAt: insertUser.totpEnabledAt ?? null,
+      totpLastUsedStep: insertUser.totpLastUsedStep ?? null,
+      id: this.nextId("users"),
+    };
+    this.users.push(user);
+    return { ...user };
+  }
+
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<void> {
+    this.passwordResetTokens.push({
+      id: this.nextId("passwordResetTokens"),
+      userId,
+      tokenHash,
+      expiresAt,
+      usedAt: null,
+      createdAt: new Date(),
+    });
+  }
+
+  async resetPassword(tokenHash: string, password: string, now: Date): Promise<User | undefined> {
+    const token = this.passwordResetTokens.find(
+      (token) => token.tokenHash === tokenHash && token.usedAt === null && token.expiresAt > now,
+    );
+    if (!token) return undefined;
+
+    this.passwordResetTokens = this.passwordResetTokens.map((other) =>
+      other.userId === token.userId && other.usedAt === null ? { ...other, usedAt: now } : other,
+    );
+    this.users = this.users.map((user) => (user.id === token.userId ? { ...user, password } : user));
+    const user = this.users.find((user) => user.id === token.userId);
+    return user && { ...user };
+  }
+
+  async createEmailVerificationToken(userId: number, tokenHash: string, expiresAt: Date): Promise<void> {
+    this.emailVerificationTokens.push({
+      id: this.nextId("emailVerificationTokens"),
+      userId,
+      tokenHash,
+      expiresAt,
+      usedAt: null,
+      createdAt: new Date(),
+    });
+  }
+
+  async verifyEmail(tokenHash: string, now: Date): Promise<User | undefined> {
+    const token = this.emailVerificationTokens.find(
+      (token) => token.tokenHash === tokenHash && token.usedAt === null && token.expiresAt > now,
+    );
+    if (!token) return undefined;
+
+    this.emailVerificationTokens = this.emailVerificationTokens.map((other) =>
+      other.userId === token.userId && other.usedAt === null ? { ...other, usedAt: now } : other,
+    );
+    const user = this.users.find((user) => user.id === token.userId);
+    if (!user) return undefined;
+    const owner = user.email ? await this.getUserByVerifiedEmail(user.email) : undefined;
+    if (owner && owner.id !== user.id) return { ...user };
+    return this.updateUser(user.id, { emailVerifiedAt: now });
+  }
+
+  async setEmail(userId: number, email: string, now: Date): Promise<User> {
+    this.emailVerificationTokens = this.emailVerificationTokens.map((token) =>
+      token.userId === userId && token.usedAt === null ? { ...token, usedAt: now } : token,
+    );
+    return this.updateUser(userId, { email, emailVerifiedAt: null });
+  }
+
+  // Applies changes to one user and returns a copy of the result
+  private updateUser(id: number, changes: Partial<User>): User {
+    this.users = this.users.map((user) => (user.id === id ? { ...user, ...changes } : user));
+    const user = this.users.find((user) => user.id === id);
+    if (!user) throw new Error("User not found");
+    return { ...user };
+  }
+
+  async enableTwoFactor(userId: number, secret: string, recoveryCodeHashes: string[], now: Date): Promise<User> {
+    const user = this.updateUser(userId, { totpSecret: secret, totpEnabledAt: now, totpLastUsedStep: null });
+    await this.replaceRecoveryCodes(userId, recoveryCodeHashes);
+    return user;
+  }
+
+  async disableTwoFactor(userId: number): Promise<User> {
+    const user = this.updateUser(userId, { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null });
+    this.recoveryCodes = this.recoveryCodes.filter((code) => code.userId !== userId);
+    return user;
+  }
+
+  async recordTotpStep(userId: number, step: number): Promise<boolean> {
+    const user = this.users.find((user) => user.id === userId);
+    if (!user || (user.totpLastUsedStep !== null && user.totpLastUsedStep >= step)) return false;
+    this.updateUser(userId, { totpLastUsedStep: step });
+    return true;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    this.recoveryCodes = this.recoveryCodes.filter((code) => code.userId !== userId);
+    codeHashes.forEach((codeHash) => {
+      this.recoveryCodes.push({
+        id: this.nextId("recoveryCodes"),
+        userId,
+        codeHash,
+        usedAt: null,
+        createdAt: new Date(),
+      });
+    });
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string, now: Date): Promise<boolean> {
+    const code = this.recoveryCodes.find(
+      (code) => code.userId === userId && code.codeHash === codeHash && code.usedAt === null,
+    );
+    if (!code) return false;
+    this.recoveryCodes = this.recoveryCodes.map((other) => (other.id === code.id ? { ...other, usedAt: now } : other));
+    return true;
+  }
+
+  async countRecoveryCodes(userId: number): Promise<number> {
+    return this.recoveryCodes.filter((code) => code.userId === userId && code.usedAt === null).length;
+  }
+
+  async createPost(userId: number, post: InsertPost, expiresAt: Date): Promise<Post> {
+    const newPost: Post = {
+      id: this.nextId("posts"),
+      userId,
+      type: post.type,
+      title: post.title,
+      description: post.description,
+      price: post.price,
+      location: post.location,
+      images: post.images || null,
+      roomDetails: post.roomDetails ?? null,
+      jobDetails: post.jobDetails ?? null,
+      status: "available",
+      ...geocodeLocation(post.location),
+      createdAt: new Date(),
+      editedAt: null,
+      expiresAt,
+      expiryWarnedAt: null,
+      deletedAt: null,
+    };
+    this.posts.push(newPost);
+    return { ...newPost };
+  }
+
+  async getPost(id: number): Promise<Post | undefined> {
+    const post = this.posts.find((post) => post.id === id && isLive(post));
+    return post && { ...post };
+  }
+
+  async getPostsPage(query: PostFeedQuery): Promise<PostFeedPage> {
+    const filters: ((post: Post) => boolean)[] = [isOpen, isLive];
+
+    if (query.type) filters.push((post) => post.type === query.type);
+    if (!query.includeExpired) filters.push(isWithinDeadline);
+    if (query.minPrice !== undefined) filters.push((post) => post.price !== null && post.price >= query.minPrice!);
+    if (query.maxPrice !== undefined) filters.push((post) => post.price !== null && post.price <= query.maxPrice!);
+    if (query.location) {
+      const location = query.location.toLowerCase();
+      filters.push((post) => post.location.toLowerCase().includes(location));
+    }
+    if (query.near) {
+      const { latitude, longitude } = query.near;
+      filters.push(
+        (post) =>
+          post.latitude !== null &&
+          post.longitude !== null &&
+          distanceKm(latitude, longitude, post) <= query.radiusKm,
+      );
+    }
+    if (query.bbox) {
+      const { west, south, east, north } = query.bbox;
+      filters.push((post) => {
+        if (post.latitude === null || post.longitude === null) return false;
+        if (post.latitude < south || post.latitude > north) return false;
+        // A box whose west edge is east of its east edge spans the antimeridian
+        return west <= east
+          ? post.longitude >= west && post.longitude <= east
+          : post.longitude >= west || post.longitude <= east;
+      });
+    }
+
+    // Any room filter limits the feed to posts that have room details
+    const room = (predicate: (details: NonNullable<Post["roomDetails"]>) => boolean) =>
+      filters.push((post) => post.roomDetails !== null && predicate(post.roomDetails));
+    if (query.furnished) room((details) => details.furnished === query.furnished);
+    if (query.attachedBathroom !== undefined) room((details) => details.attachedBathroom === query.attachedBathroom);
+    if (query.waterIncluded !== undefined) room((details) => details.waterIncluded === query.waterIncluded);
+    if (query.electricityIncluded !== undefined) {
+      room((details) => details.electricityIncluded === query.electricityIncluded);
+    }
+    if (query.parking !== undefined) room((details) => details.parking === query.parking);
+    if (query.petsAllowed !== undefined) room((details) => details.petsAllowed === query.petsAllowed);
+    if (query.minRooms !== undefined) room((details) => details.roomCount >= query.minRooms!);
+    if (query.genderPreference) {
+      room((details) => details.genderPreference === query.genderPreference || details.genderPreference === "any");
+    }
+    if (query.availableBy) room((details) => details.availableFrom <= query.availableBy!);
+
+    const price = (post: Post) => post.price ?? 0;
+
+    if (query.cursor) {
+      const [value, id] = decodeFeedCursor(query.cursor, query.sort);
+      if (query.sort === "newest") {
+        const time = new Date(String(value)).getTime();
+        filters.push((post) => post.createdAt.getTime() < time || (post.createdAt.getTime() === time && post.id < id));
+      } else if (query.sort === "price_asc") {
+        filters.push((post) => price(post) > Number(value) || (price(post) === Number(value) && post.id > id));
+      } else {
+        filters.push((post) => price(post) < Number(value) || (price(post) === Number(value) && post.id < id));
+      }
+    }
+
+    const rows = this.posts
+      .filter((post) => filters.every((filter) => filter(post)))
+      .sort((a, b) => {
+        if (query.sort === "newest") return byNewest(a, b);
+        if (query.sort === "price_asc") return price(a) - price(b) || a.id - b.id;
+        return price(b) - price(a) || b.id - a.id;
+      });
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      rows.length > query.limit && last
+        ? encodeFeedCursor([query.sort === "newest" ? last.createdAt.toISOString() : price(last), last.id])
+        : null;
+
+    return { posts: page.map((post) => this.withAuthor(post)), nextCursor };
+  }
+
+  // Every term must prefix-match a word of the title, location or description.
+  // Ranking weighs title matches above location, then description.
+  async searchPosts(query: PostSearchQuery): Promise<PostFeedPage<PostSearchResult>> {
+    const offset = query.cursor ? Number(query.cursor) : 0;
+    const terms = searchTerms(query.q);
+
+    const rows = this.posts
+      .filter(
+        (post) =>
+          terms.length > 0 &&
+          isOpen(post) &&
+          isLive(post) &&
+          isWithinDeadline(post) &&
+          (!query.type || post.type === query.type) &&
+          terms.every((term) =>
+            [post.title, post.location, post.description].some((text) => matchesTerm(text, term)),
+          ),
+      )
+      .map((post) => ({
+        post,
+        rank: terms.reduce(
+          (rank, term) =>
+            rank +
+            (matchesTerm(post.title, term) ? 1 : 0) +
+            (matchesTerm(post.location, term) ? 0.4 : 0) +
+            (matchesTerm(post.description, term) ? 0.2 : 0),
+          0,
+        ),
+      }))
+      .sort((a, b) => b.rank - a.rank || b.post.id - a.post.id);
+
+    const results = rows.slice(offset, offset + query.limit).map(({ post, rank }) => ({
+      ...this.withAuthor(post),
+      rank,
+      highlights: {
+        title: highlight(post.title, terms),
+        description: highlight(post.description, terms),
+        location: highlight(post.location, terms),
+      },
+    }));
+
+    return {
+      posts: results,
+      nextCursor: rows.length > offset + query.limit ? String(offset + query.limit) : null,
+    };
+  }
+
+  async updatePost(id: number, updates: Partial<InsertPost>): Promise<Post> {
+    const current = this.posts.find((post) => post.id === id);
+    if (current) this.postRevisions.push({ id: this.nextId("postRevisions"), ...toPostRevision(current) });
+
+    const [post] = this.updatePosts(
+      (post) => post.id === id,
+      () => ({
+        ...definedFields(updates),
+        ...(updates.location !== undefined ? geocodeLocation(updates.location) : {}),
+        editedAt: new Date(),
+      }),
+    );
+    return post;
+  }
+
+  async getPostRevisions(postId: number): Promise<PostRevision[]> {
+    return this.postRevisions
+      .filter((revision) => revision.postId === postId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id)
+      .map((revision) => ({ ...revision }));
+  }
+
+  async updatePostStatus(id: number, status: PostStatus): Promise<Post> {
+    const [post] = this.updatePosts((post) => post.id === id, () => ({ status }));
+    return post;
+  }
+
+  async renewPost(id: number, expiresAt: Date): Promise<Post> {
+    const [post] = this.updatePosts(
+      (post) => post.id === id,
+      (post) => ({
+        expiresAt,
+        expiryWarnedAt: null,
+        status: post.status === "expired" ? "available" : post.status,
+      }),
+    );
+    return post;
+  }
+
+  async warnExpiringPosts(expiringBefore: Date, now: Date): Promise<Post[]> {
+    return this.updatePosts(
+      (post) =>
+        isOpen(post) &&
+        isLive(post) &&
+        post.expiryWarnedAt === null &&
+        post.expiresAt > now &&
+        post.expiresAt <= expiringBefore,
+      () => ({ expiryWarnedAt: now }),
+    );
+  }
+
+  async expirePosts(now: Date): Promise<Post[]> {
+    return this.updatePosts(
+      (post) => isOpen(post) && isLive(post) && post.expiresAt <= now,
+      () => ({ status: "expired" }),
+    );
+  }
+
+  async geocodeMissingPosts(): Promise<number> {
+    return this.updatePosts(
+      (post) => post.latitude === null && geocodeLocation(post.location).latitude !== null,
+      (post) => geocodeLocation(post.location),
+    ).length;
+  }
+
+  async replacePostImage(from: string, to: string): Promise<number> {
+    const replace = (images: string[] | null) => images?.map((url) => (url === from ? to : url)) ?? null;
+    this.postRevisions = this.postRevisions.map((revision) => ({ ...revision, images: replace(revision.images) }));
+    return this.updatePosts(
+      (post) => post.images?.includes(from) ?? false,
+      (post) => ({ images: replace(post.images) }),
+    ).length;
+  }
+
+  async getPostImageUrls(): Promise<string[]> {
+    const urls = this.posts.flatMap((post) => post.images ?? []);
+    return urls.filter((url, i) => urls.indexOf(url) === i);
+  }
+
+  async deletePost(id: number): Promise<void> {
+    this.updatePosts((post) => post.id === id, () => ({ deletedAt: new Date() }));
+  }
+
+  async restorePost(id: number, userId: number, deletedSince: Date): Promise<Post | undefined> {
+    const [post] = this.updatePosts(
+      (post) => post.id === id && post.userId === userId && post.deletedAt !== null && post.deletedAt >= deletedSince,
+      () => ({ deletedAt: null }),
+    );
+    return post;
+  }
+
+  async createComment(userId: number, comment: InsertComment): Promise<Comment> {
+    const newComment: Comment = {
+      id: this.nextId("comments"),
+      postId: comment.postId,
+      userId,
+      parentId: comment.parentId ?? null,
+      content: comment.content,
+      createdAt: new Date(),
+      editedAt: null,
+      deletedAt: null,
+    };
+    this.comments.push(newComment);
+    return { ...newComment };
+  }
+
+  async getComment(id: number): Promise<Comment | undefined> {
+    const comment = this.comments.find((comment) => comment.id === id && isLive(comment));
+    return comment && { ...comment };
+  }
+
+  async getComments(postId: number): Promise<CommentWithAuthor[]> {
+    return maskDeletedComments(
+      this.comments
+        .filter((comment) => comment.postId === postId)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+        .map((comment) => this.withAuthor(comment)),
+    );
+  }
+
+  async updateComment(id: number, content: string): Promise<Comment> {
+    const comment = this.comments.find((comment) => comment.id === id);
+    if (comment) {
+      this.commentRevisions.push({ id: this.nextId("commentRevisions"), ...toCommentRevision(comment) });
+      Object.assign(comment, { content, editedAt: new Date() });
+    }
+    // Like the database version, a missing comment comes back as undefined
+    return (comment && { ...comment }) as Comment;
+  }
+
+  async deleteComment(id: number): Promise<void> {
+    const comment = this.comments.find((comment) => comment.id === id);
+    if (comment) comment.deletedAt = new Date();
+  }
+
+  async restoreComment(id: number, userId: number, deletedSince: Date): Promise<Comment | undefined> {
+    const comment = this.comments.find(
+      (comment) =>
+        comment.id === id && comment.userId === userId && comment.deletedAt !== null && comment.deletedAt >= deletedSince,
+    );
+    if (!comment) return undefined;
+    comment.deletedAt = null;
+    return { ...comment };
+  }
+
+  async toggleBookmark(userId: number, postId: number): Promise<boolean> {
+    const existing = this.bookmarks.find((bookmark) => bookmark.userId === userId && bookmark.postId === postId);
+
+    if (existing) {
+      this.bookmarks = this.bookmarks.filter((bookmark) => bookmark !== existing);
+      return false;
+    }
+
+    this.bookmarks.push({ id: this.nextId("bookmarks"), userId, postId, createdAt: new Date() });
+    return true;
+  }
+
+  async getBookmarks(userId: number): Promise<Bookmark[]> {
+    return this.bookmarks.filter((bookmark) => bookmark.userId === userId).map((bookmark) => ({ ...bookmark }));
+  }
+
+  async getBookmarkedPosts(userId: number): Promise<PostWithAuthor[]> {
+    return this.bookmarks
+      .filter((bookmark) => bookmark.userId === userId)
+      .sort(byNewest)
+      .map((bookmark) => this.posts.find((post) => post.id === bookmark.postId && isLive(post)))
+      .filter((post): post is Post => post !== undefined)
+      .map((post) => this.withAuthor(post));
+  }
+
+  async isBookmarked(userId: number, postId: number): Promise<boolean> {
+    return this.bookmarks.some((bookmark) => bookmark.userId === userId && bookmark.postId === postId);
+  }
+
+  async getUserChats(userId: number): Promise<ChatWithDetails[]> {
+    const chatIds = this.chatParticipants
+      .filter((participant) => participant.userId === userId)
+      .map((participant) => participant.chatId);
+
+    return this.chats
+      .filter((chat) => chatIds.includes(chat.id) && isLive(chat))
+      .sort((a, b) => b.lastMessageAt.getTime() - a.lastMessageAt.getTime())
+      .map((chat) => {
+        const lastMessage = this.messages
+          .filter((message) => message.chatId === chat.id)
+          .sort(byNewest)[0];
+        return {
+          ...chat,
+          participants: this.chatParticipants
+            .filter((participant) => participant.chatId === chat.id)
+            .map((participant) => this.publicUser(participant.userId))
+            .filter((user): user is PublicUser => user !== undefined),
+          lastMessage: lastMessage ? { content: lastMessage.content, createdAt: lastMessage.createdAt } : null,
+        };
+      });
+  }
+
+  async getChatParticipants(chatId: number): Promise<PublicUser[]> {
+    return this.chatParticipants
+      .filter((participant) => participant.chatId === chatId)
+      .map((participant) => this.publicUser(participant.userId))
+      .filter((user): user is PublicUser => user !== undefined);
+  }
+
+  async createChat(participantIds: number[]): Promise<Chat> {
+    const now = new Date();
+    const chat: Chat = { id: this.nextId("chats"), createdAt: now, lastMessageAt: now, deletedAt: null };
+    this.chats.push(chat);
+    for (const userId of participantIds) {
+      this.chatParticipants.push({ id: this.nextId("chatParticipants"), chatId: chat.id, userId, joinedAt: now });
+    }
+    return { ...chat };
+  }
+
+  async getChatMessages(chatId: number): Promise<MessageWithUser[]> {
+    return this.messages
+      .filter((message) => message.chatId === chatId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((message) => ({ ...message, user: this.publicUser(message.userId) }));
+  }
+
+  async createMessage(userId: number, message: InsertMessage): Promise<Message> {
+    const newMessage: Message = {
+      id: this.nextId("messages"),
+      chatId: message.chatId,
+      userId,
+      content: message.content,
+      createdAt: new Date(),
+      readAt: null,
+    };
+    this.messages.push(newMessage);
+    return { ...newMessage };
+  }
+
+  async updateChatLastMessage(chatId: number): Promise<void> {
+    const chat = this.chats.find((chat) => chat.id === chatId);
+    if (chat) chat.lastMessageAt = new Date();
+  }
+
+  async getUserPosts(userId: number): Promise<PostWithAuthor[]> {
+    return this.posts
+      .filter((post) => post.userId === userId && isLive(post))
+      .sort(byNewest)
+      .map((post) => this.withAuthor(post));
+  }
+
+  async deleteChat(chatId: number): Promise<void> {
+    const chat = this.chats.find((chat) => chat.id === chatId);
+    if (chat) chat.deletedAt = new Date();
+  }
+
+  async restoreChat(chatId: number, deletedSince: Date): Promise<Chat | undefined> {
+    const chat = this.chats.find(
+      (chat) => chat.id === chatId && chat.deletedAt !== null && chat.deletedAt >= deletedSince,
+    );
+    if (!chat) return undefined;
+    chat.deletedAt = null;
+    return { ...chat };
+  }
+
+  // Removes rows the way the foreign keys cascade in the database
+  async purgeDeleted(deletedBefore: Date): Promise<{ posts: number; comments: number; chats: number }> {
+    const isPurgeable = (row: { deletedAt: Date | null }) => row.deletedAt !== null && row.deletedAt < deletedBefore;
+
+    const postIds = this.posts.filter(isPurgeable).map((post) => post.id);
+    this.posts = this.posts.filter((post) => !postIds.includes(post.id));
+    this.bookmarks = this.bookmarks.filter((bookmark) => !postIds.includes(bookmark.postId));
+    this.postRevisions = this.postRevisions.filter((revision) => !postIds.includes(revision.postId));
+
+    const chatIds = this.chats.filter(isPurgeable).map((chat) => chat.id);
+    this.chats = this.chats.filter((chat) => !chatIds.includes(chat.id));
+    this.messages = this.messages.filter((message) => !chatIds.includes(message.chatId));
+    this.chatParticipants = this.chatParticipants.filter((participant) => !chatIds.includes(participant.chatId));
+
+    // Comments of purged posts go with them; deleted comments go once
+    // nothing replies to them, leaves first
+    this.comments = this.comments.filter((comment) => !postIds.includes(comment.postId));
+    let purgedComments = 0;
+    for (;;) {
+      const leaves = this.comments.filter(
+        (comment) => isPurgeable(comment) && !this.comments.some((reply) => reply.parentId === comment.id),
+      );
+      if (leaves.length === 0) break;
+      this.comments = this.comments.filter((comment) => !leaves.includes(comment));
+      purgedComments += leaves.length;
+    }
+    const commentIds = this.comments.map((comment) => comment.id);
+    this.commentRevisions = this.commentRevisions.filter((revision) => commentIds.includes(revision.commentId));
+
+    return { posts: postIds.length, comments: purgedComments, chats: chatIds.length };
+  }
+
+  async blockUser(userId: number, blockedUserId: number): Promise<void> {
+    if (await this.isUserBlocked(userId, blockedUserId)) return;
+    this.userBlocks.push({ id: this.nextId("userBlocks"), userId, blockedUserId, createdAt: new Date() });
+  }
+
+  async unblockUser(userId: number, blockedUserId: number): Promise<void> {
+    this.userBlocks = this.userBlocks.filter(
+      (block) => !(block.userId === userId && block.blockedUserId === blockedUserId),
+    );
+  }
+
+  async isUserBlocked(userId: number, blockedUserId: number): Promise<boolean> {
+    return this.userBlocks.some((block) => block.userId === userId && block.blockedUserId === blockedUserId);
+  }
+
+  async getBlockedUsers(userId: number): Promise<PublicUser[]> {
+    return this.userBlocks
+      .filter((block) => block.userId === userId)
+      .map((block) => this.publicUser(block.blockedUserId))
+      .filter((user): user is PublicUser => user !== undefined);
+  }
+}
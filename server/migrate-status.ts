@@ -0,0 +1,13 @@
+import { getMigrationStatus } from "./migrate";
+import { pool } from "./db";
+
+// Prints each checked-in migration and whether the database has it. Exits
+// non-zero when anything is pending or was modified after being applied.
+(async () => {
+  const statuses = await getMigrationStatus();
+  for (const { tag, state } of statuses) {
+    console.log(`${state.padEnd(8)} ${tag}`);
+  }
+  await pool.end();
+  process.exitCode = statuses.every(({ state }) => state === "applied") ? 0 : 1;
+})();
@@ -0,0 +1,95 @@
+import { sql } from "drizzle-orm";
+import { afterAll, describe, expect, it } from "vitest";
+import { postFeedQuerySchema } from "@shared/schema";
+import { db } from "./db";
+import { getMigrationStatus, runMigrations } from "./migrate";
+import { DatabaseStorage } from "./storage";
+import { hasTestDatabase, resetTestDatabase } from "./test-database";
+
+// The schema production databases were created with by drizzle-kit push,
+// before migrations existed
+const PUSHED_SCHEMA = [
+  sql`create table "users" (
+    "id" serial primary key not null,
+    "username" text not null,
+    "fullname" text not null,
+    "password" text not null,
+    constraint "users_username_unique" unique("username")
+  )`,
+  sql`create table "chats" (
+    "id" serial primary key not null,
+    "created_at" timestamp default now() not null,
+    "last_message_at" timestamp default now() not null
+  )`,
+  sql`create table "chat_participants" (
+    "id" serial primary key not null,
+    "chat_id" integer not null,
+    "user_id" integer not null,
+    "joined_at" timestamp default now() not null
+  )`,
+  sql`create table "messages" (
+    "id" serial primary key not null,
+    "chat_id" integer not null,
+    "user_id" integer not null,
+    "content" text not null,
+    "created_at" timestamp default now() not null,
+    "read_at" timestamp
+  )`,
+  sql`create table "user_blocks" (
+    "id" serial primary key not null,
+    "user_id" integer not null,
+    "blocked_user_id" integer not null,
+    "created_at" timestamp default now() not null
+  )`,
+  sql`create table "posts" (
+    "id" serial primary key not null,
+    "user_id" integer not null,
+    "type" text not null,
+    "title" text not null,
+    "description" text not null,
+    "price" integer,
+    "location" text not null,
+    "images" text[],
+    "created_at" timestamp default now() not null,
+    "edited_at" timestamp
+  )`,
+  sql`create table "comments" (
+    "id" serial primary key not null,
+    "post_id" integer not null,
+    "user_id" integer not null,
+    "parent_id" integer,
+    "content" text not null,
+    "created_at" timestamp default now() not null,
+    "edited_at" timestamp
+  )`,
+  sql`create table "bookmarks" (
+    "id" serial primary key not null,
+    "post_id" integer not null,
+    "user_id" integer not null,
+    "created_at" timestamp default now() not null
+  )`,
+];
+
+describe.skipIf(!hasTestDatabase)("runMigrations", () => {
+  // Leave a fully migrated, empty database for the other test files
+  afterAll(() => resetTestDatabase());
+
+  it("upgrades a database pushed from the schema before migrations", async () => {
+    await db.execute(sql`drop schema if exists drizzle cascade`);
+    await db.execute(sql`drop schema public cascade`);
+    await db.execute(sql`create schema public`);
+    for (const statement of PUSHED_SCHEMA) await db.execute(statement);
+    await db.execute(sql`insert into users (username, fullname, password) values ('asha', 'Asha', 'hash')`);
+    await db.execute(sql`
+      insert into posts (user_id, type, title, description, location)
+      values (1, 'room', 'Sunny room', 'Near the chowk', 'Baneshwor, Kathmandu')
+    `);
+
+    await runMigrations();
+
+    expect((await getMigrationStatus()).every((migration) => migration.state === "applied")).toBe(true);
+    const { posts } = await new DatabaseStorage().getPostsPage(postFeedQuerySchema.parse({}));
+    expect(posts).toMatchObject([{ title: "Sunny room", status: "available", username: "asha" }]);
+    expect(posts[0].expiresAt).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,70 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { sql } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import { pool } from "./db";
+
+// Both server/ in development and dist/ in production sit next to it
+const MIGRATIONS_FOLDER = path.resolve(import.meta.dirname, "..", "migrations");
+
+// Arbitrary key shared by every server instance, so only one of them runs
+// migrations at a time and the others wait until it has finished
+const MIGRATION_LOCK_KEY = 7_214_530_001;
+
+interface JournalEntry {
+  idx: number;
+  tag: string;
+  when: number;
+}
+
+export interface MigrationStatus {
+  tag: string;
+  state: "applied" | "pending" | "modified";
+}
+
+function readJournal(): JournalEntry[] {
+  const journal = JSON.parse(fs.readFileSync(path.join(MIGRATIONS_FOLDER, "meta", "_journal.json"), "utf8"));
+  return journal.entries;
+}
+
+// Applies every migration newer than the last applied one. The advisory lock
+// is held on a single connection for the whole run.
+export async function runMigrations(): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_KEY]);
+    try {
+      await migrate(drizzle({ client }), { migrationsFolder: MIGRATIONS_FOLDER });
+    } finally {
+      await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+// Compares the checked-in migrations with those recorded in the database,
+// which identifies them by the generation time from the journal. A migration
+// whose file changed after it was applied is reported as modified.
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  const db = drizzle({ client: pool });
+  const { rows: [{ exists }] } = await db.execute<{ exists: boolean }>(
+    sql`select to_regclass('drizzle.__drizzle_migrations') is not null as exists`,
+  );
+  const applied = exists
+    ? (await db.execute<{ hash: string; created_at: string }>(
+        sql`select hash, created_at from drizzle.__drizzle_migrations`,
+      )).rows
+    : [];
+
+  return readJournal().map((entry) => {
+    const row = applied.find((row) => Number(row.created_at) === entry.when);
+    if (!row) return { tag: entry.tag, state: "pending" };
+
+    const query = fs.readFileSync(path.join(MIGRATIONS_FOLDER, `${entry.tag}.sql`)).toString();
+    const hash = createHash("sha256").update(query).digest("hex");
+    return { tag: entry.tag, state: hash === row.hash ? "applied" : "modified" };
+  });
+}
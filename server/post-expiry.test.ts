@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { postFeedQuerySchema, type Post } from "@shared/schema";
+import { createExpiryScheduler, getPostExpiryDate } from "./post-expiry";
+import { DatabaseStorage, type IStorage } from "./storage";
+import { MemStorage } from "./mem-storage";
+import { hasTestDatabase, resetTestDatabase } from "./test-database";
+import { jobPost } from "./test-server";
+
+const implementations: [string, () => Promise<IStorage>][] = [["MemStorage", async () => new MemStorage()]];
+if (hasTestDatabase) {
+  implementations.push([
+    "DatabaseStorage",
+    async () => {
+      await resetTestDatabase();
+      return new DatabaseStorage();
+    },
+  ]);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe.each(implementations)("createExpiryScheduler with %s", (_name, createStorage) => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("warns before expiry, then expires posts and drops them from the feed", async () => {
+    const storage = await createStorage();
+    const start = new Date("2025-01-01T00:00:00Z");
+    let now = start;
+    const clock = { now: () => now };
+    const warned: Post[][] = [];
+    const expired: Post[][] = [];
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const scheduler = createExpiryScheduler({
+      storage,
+      clock,
+      warningDays: 3,
+      onWarned: (posts) => warned.push(posts),
+      onExpired: (posts) => expired.push(posts),
+    });
+    const user = await storage.createUser({ username: "asha", fullname: "Asha", password: "hash" });
+    const post = await storage.createPost(user.id, jobPost(), getPostExpiryDate(start, 30));
+    const feedIds = async () =>
+      (await storage.getPostsPage(postFeedQuerySchema.parse({}))).posts.map((feedPost) => feedPost.id);
+
+    now = new Date(start.getTime() + 26 * DAY_MS);
+    await scheduler.runOnce();
+    expect(warned).toEqual([]);
+
+    now = new Date(start.getTime() + 27 * DAY_MS + 1);
+    await scheduler.runOnce();
+    expect(warned.map((posts) => posts.map((warnedPost) => warnedPost.id))).toEqual([[post.id]]);
+    expect(await feedIds()).toEqual([post.id]);
+
+    now = new Date(start.getTime() + 30 * DAY_MS - 1);
+    await scheduler.runOnce();
+    expect(expired).toEqual([]);
+    expect(await feedIds()).toEqual([post.id]);
+
+    now = new Date(start.getTime() + 30 * DAY_MS);
+    await scheduler.runOnce();
+    expect(expired.map((posts) => posts.map((expiredPost) => expiredPost.id))).toEqual([[post.id]]);
+    expect((await storage.getPost(post.id))?.status).toBe("expired");
+    expect(await feedIds()).toEqual([]);
+
+    // Nothing happens twice
+    await scheduler.runOnce();
+    expect(warned).toHaveLength(1);
+    expect(expired).toHaveLength(1);
+  });
+});
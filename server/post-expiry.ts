@@ -0,0 +1,56 @@
+import type { Post } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { createIntervalJob, systemClock, type Clock } from "./interval-job";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const expiryConfig = {
+  // How long a listing stays up after being posted or renewed
+  expiryDays: Number(process.env.POST_EXPIRY_DAYS) || 30,
+  // How long before expiry the owner is warned
+  warningDays: Number(process.env.POST_EXPIRY_WARNING_DAYS) || 3,
+  intervalMs: Number(process.env.POST_EXPIRY_INTERVAL_MS) || 60 * 60 * 1000,
+};
+
+export function getPostExpiryDate(from: Date = systemClock.now(), days = expiryConfig.expiryDays): Date {
+  return new Date(from.getTime() + days * DAY_MS);
+}
+
+interface ExpirySchedulerOptions {
+  storage: Pick<IStorage, "warnExpiringPosts" | "expirePosts">;
+  clock?: Clock;
+  warningDays?: number;
+  intervalMs?: number;
+  onWarned?: (posts: Post[]) => void;
+  onExpired?: (posts: Post[]) => void;
+}
+
+export function createExpiryScheduler({
+  storage,
+  clock = systemClock,
+  warningDays = expiryConfig.warningDays,
+  intervalMs = expiryConfig.intervalMs,
+  onWarned,
+  onExpired,
+}: ExpirySchedulerOptions) {
+  // All state lives on the posts themselves and both steps are conditional
+  // updates, so repeating a run (or restarting mid-run) never warns or
+  // expires a post twice
+  async function run() {
+    const now = clock.now();
+
+    const expired = await storage.expirePosts(now);
+    if (expired.length > 0) {
+      console.log(`[expiry] Expired ${expired.length} posts`);
+      onExpired?.(expired);
+    }
+
+    const warned = await storage.warnExpiringPosts(new Date(now.getTime() + warningDays * DAY_MS), now);
+    if (warned.length > 0) {
+      console.log(`[expiry] Warned owners of ${warned.length} expiring posts`);
+      onWarned?.(warned);
+    }
+  }
+
+  return createIntervalJob({ run, intervalMs, errorMessage: "Error running post expiry:" });
+}
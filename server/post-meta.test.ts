@@ -0,0 +1,40 @@
+import type { Request } from "express";
+import { describe, expect, it } from "vitest";
+import { authConfig } from "./auth";
+import { injectPostMeta } from "./post-meta";
+import { storage } from "./storage";
+import { jobPost } from "./test-server";
+
+const template = "<html><head><title>Mero KamKotha</title></head><body></body></html>";
+
+function requestFor(url: string): Request {
+  return { originalUrl: url, protocol: "http", get: () => "attacker.example" } as unknown as Request;
+}
+
+describe("injectPostMeta", () => {
+  it("keeps replacement patterns in the title as written", async () => {
+    const user = await storage.createUser({ username: "meta", fullname: "Meta", password: "x", email: "meta@example.com" });
+    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const post = await storage.createPost(user.id, jobPost({ title: "Pay $& up $1 $$" }), expiresAt);
+
+    const page = await injectPostMeta(template, requestFor(`/posts/${post.id}`));
+
+    expect(page).toContain("<title>Pay $&amp; up $1 $$ · Mero KamKotha</title>");
+    expect(page).toContain('<meta property="og:title" content="Pay $&amp; up $1 $$" />');
+  });
+
+  it("links to APP_URL rather than the request's Host header", async () => {
+    const user = await storage.createUser({ username: "meta2", fullname: "Meta", password: "x", email: "meta2@example.com" });
+    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const post = await storage.createPost(user.id, jobPost(), expiresAt);
+
+    const page = await injectPostMeta(template, requestFor(`/posts/${post.id}`));
+
+    expect(page).toContain(`<meta property="og:url" content="${authConfig.appUrl}/posts/${post.id}" />`);
+    expect(page).not.toContain("attacker.example");
+  });
+
+  it("leaves other pages alone", async () => {
+    expect(await injectPostMeta(template, requestFor("/search"))).toBe(template);
+  });
+});
@@ -0,0 +1,58 @@
+import type { Request } from "express";
+import { authConfig } from "./auth";
+import { storage } from "./storage";
+
+const SITE_NAME = "Mero KamKotha";
+const DESCRIPTION_LENGTH = 200;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+// Adds Open Graph and Twitter card tags to the app shell for /posts/:id, so
+// links shared in chat apps get a preview. Other pages, unknown posts and
+// lookup failures leave the template as it is.
+export async function injectPostMeta(template: string, req: Request): Promise<string> {
+  const match = req.originalUrl.match(/^\/posts\/(\d+)(?:[/?#]|$)/);
+  if (!match) return template;
+
+  try {
+    const post = await storage.getPost(Number(match[1]));
+    if (!post) return template;
+
+    // The Host header is client-controlled, so links are built from APP_URL
+    const origin = authConfig.appUrl;
+    const description =
+      post.description.length > DESCRIPTION_LENGTH
+        ? `${post.description.slice(0, DESCRIPTION_LENGTH - 1)}…`
+        : post.description;
+    const image = post.images?.[0];
+
+    const tags = [
+      ["og:site_name", SITE_NAME],
+      ["og:type", "article"],
+      ["og:title", post.title],
+      ["og:description", description],
+      ["og:url", `${origin}/posts/${post.id}`],
+      ...(image ? [["og:image", new URL(image, origin).toString()]] : []),
+    ]
+      .map(([property, content]) => `<meta property="${property}" content="${escapeHtml(content)}" />`)
+      .concat(
+        `<meta name="description" content="${escapeHtml(description)}" />`,
+        `<meta name="twitter:card" content="${image ? "summary_large_image" : "summary"}" />`,
+      );
+
+    // Replacer functions, because a replacement string would expand
+    // patterns such as "$&" written in the post title
+    const title = `<title>${escapeHtml(`${post.title} · ${SITE_NAME}`)}</title>`;
+    const head = `  ${tags.join("\n    ")}\n  </head>`;
+    return template.replace(/<title>.*<\/title>/, () => title).replace("</head>", () => head);
+  } catch (error) {
+    console.error("Error rendering post meta tags:", error);
+    return template;
+  }
+}
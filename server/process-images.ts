@@ -0,0 +1,36 @@
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { pool } from "./db";
+import { uploadDir } from "./blob-store";
+import { isImageVariant, processImage } from "./images";
+
+const imageFilePattern = /\.(jpe?g|png|webp)$/i;
+
+// Converts images uploaded to disk before processing existed into stripped
+// WebP sizes in the configured blob store, and points posts at them. An
+// original is only removed once posts refer to its replacement, so the
+// command can be rerun after a failure.
+(async () => {
+  const fileNames = fs.existsSync(uploadDir)
+    ? fs.readdirSync(uploadDir).filter((name) => imageFilePattern.test(name) && !isImageVariant(name))
+    : [];
+
+  let failed = 0;
+  for (const fileName of fileNames) {
+    const filePath = path.join(uploadDir, fileName);
+    try {
+      const url = await processImage(fs.readFileSync(filePath), path.parse(fileName).name);
+      const postCount = await storage.replacePostImage(`/uploads/${fileName}`, url);
+      fs.rmSync(filePath);
+      console.log(`${fileName} -> ${url} (${postCount} posts)`);
+    } catch (error) {
+      failed++;
+      console.error(`Failed to process ${fileName}:`, error);
+    }
+  }
+
+  console.log(`Processed ${fileNames.length - failed} of ${fileNames.length} images`);
+  await pool.end();
+  process.exitCode = failed > 0 ? 1 : 0;
+})();
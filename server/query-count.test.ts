@@ -0,0 +1,104 @@
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import { onQuery } from "./db";
+import { DatabaseStorage } from "./storage";
+import { hasTestDatabase, resetTestDatabase } from "./test-database";
+import { jobPost } from "./test-server";
+import { postFeedQuerySchema, postSearchQuerySchema, type User } from "@shared/schema";
+
+// List methods load authors, participants and last messages with joins or
+// one batched query, so the number of queries must not grow with the rows
+describe.skipIf(!hasTestDatabase)("DatabaseStorage query counts", () => {
+  const ROWS = 5;
+  let storage: DatabaseStorage;
+  let reader: User;
+  let authors: User[];
+  let postId: number;
+  let chatId: number;
+  let stopCounting: (() => void) | undefined;
+
+  beforeAll(async () => {
+    await resetTestDatabase();
+    storage = new DatabaseStorage();
+    const createUser = (username: string) =>
+      storage.createUser({ username, fullname: username, password: "x", email: `${username}@example.com` });
+
+    reader = await createUser("reader");
+    authors = [];
+    for (let i = 0; i < ROWS; i++) authors.push(await createUser(`author${i}`));
+
+    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const chatIds: number[] = [];
+    for (const author of authors) {
+      const post = await storage.createPost(author.id, jobPost({ title: `Cook ${author.username}` }), expiresAt);
+      await storage.toggleBookmark(reader.id, post.id);
+      const chat = await storage.createChat([reader.id, author.id]);
+      await storage.createMessage(author.id, { chatId: chat.id, content: "Hello" });
+      postId ??= post.id;
+      chatIds.push(chat.id);
+    }
+    // Everyone comments on the first post and writes again in the first chat
+    chatId = chatIds[0];
+    for (const author of authors) {
+      await storage.createComment(author.id, { postId, content: `From ${author.username}` });
+      if (author !== authors[0]) await storage.createMessage(reader.id, { chatId, content: "Again" });
+    }
+  });
+
+  afterEach(() => stopCounting?.());
+
+  async function countQueries<T>(run: () => Promise<T>): Promise<{ result: T; queries: number }> {
+    let queries = 0;
+    stopCounting = onQuery(() => queries++);
+    const result = await run();
+    stopCounting();
+    return { result, queries };
+  }
+
+  it("loads a feed page in one query", async () => {
+    const { result, queries } = await countQueries(() => storage.getPostsPage(postFeedQuerySchema.parse({})));
+    expect(result.posts).toHaveLength(ROWS);
+    expect(result.posts.every((post) => post.username)).toBe(true);
+    expect(queries).toBe(1);
+  });
+
+  it("searches in one query", async () => {
+    const { result, queries } = await countQueries(() => storage.searchPosts(postSearchQuerySchema.parse({ q: "cook" })));
+    expect(result.posts).toHaveLength(ROWS);
+    expect(queries).toBe(1);
+  });
+
+  it("loads comments in one query", async () => {
+    const { result, queries } = await countQueries(() => storage.getComments(postId));
+    expect(result).toHaveLength(ROWS);
+    expect(result.every((comment) => comment.username)).toBe(true);
+    expect(queries).toBe(1);
+  });
+
+  it("loads bookmarked and user posts in one query each", async () => {
+    const bookmarked = await countQueries(() => storage.getBookmarkedPosts(reader.id));
+    expect(bookmarked.result).toHaveLength(ROWS);
+    expect(bookmarked.queries).toBe(1);
+
+    const own = await countQueries(() => storage.getUserPosts(authors[0].id));
+    expect(own.result).toHaveLength(1);
+    expect(own.queries).toBe(1);
+  });
+
+  it("loads chats in three queries however many there are", async () => {
+    const { result, queries } = await countQueries(() => storage.getUserChats(reader.id));
+    expect(result).toHaveLength(ROWS);
+    expect(result.every((chat) => chat.participants.length === 2 && chat.lastMessage)).toBe(true);
+    expect(queries).toBe(3);
+  });
+
+  it("loads messages and participants in one query each", async () => {
+    const messages = await countQueries(() => storage.getChatMessages(chatId));
+    expect(messages.result).toHaveLength(ROWS);
+    expect(messages.result.every((message) => message.user)).toBe(true);
+    expect(messages.queries).toBe(1);
+
+    const participants = await countQueries(() => storage.getChatParticipants(chatId));
+    expect(participants.result).toHaveLength(2);
+    expect(participants.queries).toBe(1);
+  });
+});
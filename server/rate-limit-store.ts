@@ -0,0 +1,70 @@
+import { and, asc, eq, gte, lt } from "drizzle-orm";
+import { rateLimitHits } from "@shared/schema";
+import { db } from "./db";
+
+// Keeps the time of each counted request per key, so limits can be checked
+// over a sliding window
+export interface RateLimitStore {
+  // Times of the key's hits at or after `since`, oldest first
+  getHits(key: string, since: Date): Promise<Date[]>;
+  addHit(key: string, at: Date): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+// Hits older than this are never looked at, so they can be dropped
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Per process, so each server instance counts on its own
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, number[]>();
+
+  async getHits(key: string, since: Date): Promise<Date[]> {
+    return (this.hits.get(key) ?? []).filter((time) => time >= since.getTime()).map((time) => new Date(time));
+  }
+
+  async addHit(key: string, at: Date): Promise<void> {
+    const cutoff = at.getTime() - RETENTION_MS;
+    const hits = (this.hits.get(key) ?? []).filter((time) => time >= cutoff);
+    hits.push(at.getTime());
+    this.hits.set(key, hits);
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+}
+
+// Shared by every server instance using the database
+export class PostgresRateLimitStore implements RateLimitStore {
+  private lastPrunedAt = 0;
+
+  async getHits(key: string, since: Date): Promise<Date[]> {
+    const rows = await db
+      .select({ createdAt: rateLimitHits.createdAt })
+      .from(rateLimitHits)
+      .where(and(eq(rateLimitHits.key, key), gte(rateLimitHits.createdAt, since)))
+      .orderBy(asc(rateLimitHits.createdAt));
+    return rows.map((row) => row.createdAt);
+  }
+
+  async addHit(key: string, at: Date): Promise<void> {
+    await db.insert(rateLimitHits).values({ key, createdAt: at });
+    // Piggybacks on traffic instead of running a scheduler
+    if (at.getTime() - this.lastPrunedAt > PRUNE_INTERVAL_MS) {
+      this.lastPrunedAt = at.getTime();
+      await db.delete(rateLimitHits).where(lt(rateLimitHits.createdAt, new Date(at.getTime() - RETENTION_MS)));
+    }
+  }
+
+  async reset(key: string): Promise<void> {
+    await db.delete(rateLimitHits).where(eq(rateLimitHits.key, key));
+  }
+}
+
+function createRateLimitStore(): RateLimitStore {
+  const kind = process.env.RATE_LIMIT_STORE || (process.env.STORAGE === "memory" ? "memory" : "postgres");
+  return kind === "memory" ? new MemoryRateLimitStore() : new PostgresRateLimitStore();
+}
+
+export const rateLimitStore: RateLimitStore = createRateLimitStore();
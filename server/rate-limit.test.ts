@@ -0,0 +1,141 @@
+import express from "express";
+import request from "supertest";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createLockout, rateLimit } from "./rate-limit";
+import { MemoryRateLimitStore, PostgresRateLimitStore, type RateLimitStore } from "./rate-limit-store";
+import { hasTestDatabase, resetTestDatabase } from "./test-database";
+
+// Both stores must count the same way; the database one is shared by every
+// server instance
+const stores: [string, () => Promise<RateLimitStore>][] = [["MemoryRateLimitStore", async () => new MemoryRateLimitStore()]];
+if (hasTestDatabase) {
+  stores.push([
+    "PostgresRateLimitStore",
+    async () => {
+      await resetTestDatabase();
+      return new PostgresRateLimitStore();
+    },
+  ]);
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// A clock the tests move forward by hand
+function testClock(start = new Date("2025-01-01T00:00:00Z")) {
+  let time = start.getTime();
+  return {
+    now: () => new Date(time),
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+describe.each(stores)("rate limits with %s", (_name, createStore) => {
+  let store: RateLimitStore;
+  let clock: ReturnType<typeof testClock>;
+
+  beforeEach(async () => {
+    store = await createStore();
+    clock = testClock();
+  });
+
+  describe("rateLimit", () => {
+    function limitedApp() {
+      const app = express();
+      app.get("/", rateLimit({ name: "test", max: 2, windowMs: 10 * MINUTE_MS, store, clock }), (_req, res) => {
+        res.sendStatus(204);
+      });
+      return app;
+    }
+
+    it("allows max requests in any window and frees a slot as the oldest leaves it", async () => {
+      const app = limitedApp();
+      await request(app).get("/").expect(204);
+      clock.advance(4 * MINUTE_MS);
+      await request(app).get("/").expect(204);
+
+      clock.advance(MINUTE_MS);
+      const limited = await request(app).get("/").expect(429);
+      expect(limited.body).toEqual({ error: "Too many requests. Try again later.", code: "rate_limited" });
+      // The first request leaves the window 10 minutes after it was made
+      expect(limited.headers["retry-after"]).toBe(String(5 * 60));
+
+      clock.advance(5 * MINUTE_MS - 1000);
+      await request(app).get("/").expect(429);
+      clock.advance(1000);
+      await request(app).get("/").expect(204);
+      // The second request is still in the window, so the next slot is its
+      const next = await request(app).get("/").expect(429);
+      expect(next.headers["retry-after"]).toBe(String(4 * 60));
+    });
+
+    it("doesn't count rejected requests", async () => {
+      const app = limitedApp();
+      await request(app).get("/").expect(204);
+      await request(app).get("/").expect(204);
+      for (let i = 0; i < 5; i++) await request(app).get("/").expect(429);
+
+      clock.advance(10 * MINUTE_MS);
+      await request(app).get("/").expect(204);
+      await request(app).get("/").expect(204);
+    });
+  });
+
+  describe("createLockout", () => {
+    function lockout() {
+      return createLockout({
+        name: "test",
+        maxFailures: 3,
+        lockoutMs: MINUTE_MS,
+        maxLockoutMs: 4 * MINUTE_MS,
+        windowMs: 60 * MINUTE_MS,
+        store,
+        clock,
+      });
+    }
+
+    async function failTimes(locks: ReturnType<typeof lockout>, times: number) {
+      for (let i = 0; i < times; i++) await locks.fail("asha");
+    }
+
+    it("locks after max failures and doubles the lock up to the maximum", async () => {
+      const locks = lockout();
+      await failTimes(locks, 2);
+      expect(await locks.getRetryAfterMs("asha")).toBe(0);
+      await failTimes(locks, 1);
+      expect(await locks.getRetryAfterMs("asha")).toBe(MINUTE_MS);
+
+      clock.advance(MINUTE_MS);
+      expect(await locks.getRetryAfterMs("asha")).toBe(0);
+
+      // Every failure once locked locks it again
+      await failTimes(locks, 1);
+      expect(await locks.getRetryAfterMs("asha")).toBe(MINUTE_MS);
+      clock.advance(MINUTE_MS);
+      await failTimes(locks, 2);
+      expect(await locks.getRetryAfterMs("asha")).toBe(2 * MINUTE_MS);
+
+      clock.advance(2 * MINUTE_MS);
+      await failTimes(locks, 3);
+      expect(await locks.getRetryAfterMs("asha")).toBe(4 * MINUTE_MS);
+      clock.advance(4 * MINUTE_MS);
+      await failTimes(locks, 3);
+      expect(await locks.getRetryAfterMs("asha")).toBe(4 * MINUTE_MS);
+      expect(await locks.getRetryAfterMs("bishal")).toBe(0);
+    });
+
+    it("forgets failures outside the window or after a reset", async () => {
+      const locks = lockout();
+      await failTimes(locks, 2);
+      clock.advance(60 * MINUTE_MS + 1);
+      await failTimes(locks, 2);
+      expect(await locks.getRetryAfterMs("asha")).toBe(0);
+
+      await failTimes(locks, 1);
+      expect(await locks.getRetryAfterMs("asha")).toBe(MINUTE_MS);
+      await locks.reset("asha");
+      expect(await locks.getRetryAfterMs("asha")).toBe(0);
+    });
+  });
+});
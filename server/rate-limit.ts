@@ -0,0 +1,136 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { rateLimitStore, type RateLimitStore } from "./rate-limit-store";
+import { systemClock, type Clock } from "./interval-job";
+
+const MINUTE_MS = 60 * 1000;
+
+export const rateLimitConfig = {
+  // Failed logins for one username before it is locked
+  loginMaxFailures: Number(process.env.LOGIN_MAX_FAILURES) || 5,
+  // Failed logins from one IP address, for any usernames, before it is locked
+  loginMaxFailuresPerIp: Number(process.env.LOGIN_MAX_FAILURES_PER_IP) || 20,
+  // The first lock; each further round of failures doubles it up to the maximum
+  loginLockoutMinutes: Number(process.env.LOGIN_LOCKOUT_MINUTES) || 1,
+  loginMaxLockoutMinutes: Number(process.env.LOGIN_MAX_LOCKOUT_MINUTES) || 60,
+  // How long a failure counts towards a lock; at most the store's 24 hours
+  loginFailureWindowMinutes: Number(process.env.LOGIN_FAILURE_WINDOW_MINUTES) || 24 * 60,
+};
+
+// Shown for every limit, so responses don't reveal which one was hit
+export const RATE_LIMIT_MESSAGE = "Too many requests. Try again later.";
+
+export function setRetryAfter(res: Response, retryAfterMs: number) {
+  res.set("Retry-After", String(Math.max(1, Math.ceil(retryAfterMs / 1000))));
+}
+
+interface RateLimitOptions {
+  // Keeps the counts of different limits apart in the store
+  name: string;
+  max: number;
+  windowMs: number;
+  // Signed-in users are counted per account, anyone else per IP address
+  key?: (req: Request) => string;
+  store?: RateLimitStore;
+  clock?: Clock;
+}
+
+function defaultKey(req: Request): string {
+  return req.user ? `user:${req.user.id}` : `ip:${req.ip}`;
+}
+
+// Allows at most `max` requests in any `windowMs`. Rejected requests are not
+// counted, so a client that waits out Retry-After gets through.
+export function rateLimit({
+  name,
+  max,
+  windowMs,
+  key = defaultKey,
+  store = rateLimitStore,
+  clock = systemClock,
+}: RateLimitOptions): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const storeKey = `${name}:${key(req)}`;
+      const now = clock.now();
+      // A hit stops counting windowMs after it was made, as Retry-After says
+      const hits = await store.getHits(storeKey, new Date(now.getTime() - windowMs + 1));
+      if (hits.length >= max) {
+        // A slot frees up when the oldest hit that still counts leaves the window
+        setRetryAfter(res, hits[hits.length - max].getTime() + windowMs - now.getTime());
+        return res.status(429).json({ error: RATE_LIMIT_MESSAGE, code: "rate_limited" });
+      }
+      await store.addHit(storeKey, now);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+interface LockoutOptions {
+  name: string;
+  maxFailures: number;
+  lockoutMs: number;
+  maxLockoutMs: number;
+  windowMs: number;
+  store?: RateLimitStore;
+  clock?: Clock;
+}
+
+// Locks a key after repeated failures. Once locked, each further failure
+// locks it again, for twice as long after every `maxFailures` of them.
+export function createLockout({
+  name,
+  maxFailures,
+  lockoutMs,
+  maxLockoutMs,
+  windowMs,
+  store = rateLimitStore,
+  clock = systemClock,
+}: LockoutOptions) {
+  const storeKey = (key: string) => `${name}:${key}`;
+
+  return {
+    // How long until the key may try again, or 0 if it isn't locked
+    async getRetryAfterMs(key: string): Promise<number> {
+      const now = clock.now();
+      const failures = await store.getHits(storeKey(key), new Date(now.getTime() - windowMs));
+      if (failures.length < maxFailures) return 0;
+      const rounds = Math.floor(failures.length / maxFailures) - 1;
+      const duration = Math.min(lockoutMs * Math.pow(2, rounds), maxLockoutMs);
+      const lockedUntil = failures[failures.length - 1].getTime() + duration;
+      return Math.max(0, lockedUntil - now.getTime());
+    },
+    fail(key: string): Promise<void> {
+      return store.addHit(storeKey(key), clock.now());
+    },
+    reset(key: string): Promise<void> {
+      return store.reset(storeKey(key));
+    },
+  };
+}
+
+export const loginLockouts = {
+  username: createLockout({
+    name: "login-user",
+    maxFailures: rateLimitConfig.loginMaxFailures,
+    lockoutMs: rateLimitConfig.loginLockoutMinutes * MINUTE_MS,
+    maxLockoutMs: rateLimitConfig.loginMaxLockoutMinutes * MINUTE_MS,
+    windowMs: rateLimitConfig.loginFailureWindowMinutes * MINUTE_MS,
+  }),
+  ip: createLockout({
+    name: "login-ip",
+    maxFailures: rateLimitConfig.loginMaxFailuresPerIp,
+    lockoutMs: rateLimitConfig.loginLockoutMinutes * MINUTE_MS,
+    maxLockoutMs: rateLimitConfig.loginMaxLockoutMinutes * MINUTE_MS,
+    windowMs: rateLimitConfig.loginFailureWindowMinutes * MINUTE_MS,
+  }),
+  // Wrong two-factor codes, per account
+  twoFactor: createLockout({
+    name: "login-2fa",
+    maxFailures: rateLimitConfig.loginMaxFailures,
+    lockoutMs: rateLimitConfig.loginLockoutMinutes * MINUTE_MS,
+    maxLockoutMs: rateLimitConfig.loginMaxLockoutMinutes * MINUTE_MS,
+    windowMs: rateLimitConfig.loginFailureWindowMinutes * MINUTE_MS,
+  }),
+};
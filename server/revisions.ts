@@ -0,0 +1,31 @@
+import type { Comment, CommentRevision, Post, PostRevision, PostVersion } from "@shared/schema";
+
+// The version of a post that an edit is about to replace
+export function toPostRevision(post: Post): Omit<PostRevision, "id"> {
+  return {
+    postId: post.id,
+    type: post.type,
+    title: post.title,
+    description: post.description,
+    price: post.price,
+    location: post.location,
+    images: post.images,
+    roomDetails: post.roomDetails,
+    jobDetails: post.jobDetails,
+    createdAt: post.editedAt ?? post.createdAt,
+  };
+}
+
+export function toCommentRevision(comment: Comment): Omit<CommentRevision, "id"> {
+  return {
+    commentId: comment.id,
+    content: comment.content,
+    createdAt: comment.editedAt ?? comment.createdAt,
+  };
+}
+
+// Full edit history of a post, oldest first, ending with the current version
+export function getPostVersions(post: Post, revisions: PostRevision[]): PostVersion[] {
+  const toVersion = ({ postId: _postId, ...version }: Omit<PostRevision, "id">): PostVersion => version;
+  return [...revisions.map(({ id: _id, ...revision }) => toVersion(revision)), toVersion(toPostRevision(post))];
+}
@@ -0,0 +1,861 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import { Secret, TOTP } from "otpauth";
+import type { Socket } from "socket.io-client";
+import { authConfig } from "./auth";
+import { storage } from "./storage";
+import { mailTransport, type MailMessage } from "./mail";
+import {
+  connectSocket,
+  jobPost,
+  recordEvents,
+  sessionCookie,
+  settle,
+  signUp,
+  startTestServer,
+  verifyEmail,
+  type TestServer,
+} from "./test-server";
+
+let server: TestServer;
+let sockets: Socket[] = [];
+
+beforeAll(async () => {
+  server = await startTestServer();
+});
+
+afterEach(() => {
+  sockets.forEach((socket) => socket.disconnect());
+  sockets = [];
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+async function openSocket(cookie?: string): Promise<Socket> {
+  const socket = await connectSocket(server.url, cookie);
+  sockets.push(socket);
+  return socket;
+}
+
+// A signed-in socket that has joined its user's room
+async function openUserSocket(cookie: string, userId: number): Promise<Socket> {
+  const socket = await openSocket(cookie);
+  const joined = new Promise((resolve) => socket.once("initial-online-users", resolve));
+  socket.emit("user-online", userId);
+  await joined;
+  return socket;
+}
+
+async function createPost(cookie: string, overrides = {}) {
+  const res = await request(server.app).post("/api/posts").set("Cookie", cookie).send(jobPost(overrides)).expect(200);
+  return res.body;
+}
+
+async function createChat(cookie: string, participantIds: number[]) {
+  const res = await request(server.app).post("/api/chats").set("Cookie", cookie).send({ participantIds }).expect(200);
+  return res.body;
+}
+
+describe("auth", () => {
+  it("registers, logs out and logs back in", async () => {
+    const { user, cookie } = await signUp(server.app, "asha");
+    expect(user).toMatchObject({ username: "asha", email: "asha@example.com" });
+    expect(user).not.toHaveProperty("password");
+
+    const me = await request(server.app).get("/api/user").set("Cookie", cookie).expect(200);
+    expect(me.body.id).toBe(user.id);
+
+    await request(server.app).post("/api/logout").set("Cookie", cookie).expect(200);
+    await request(server.app).get("/api/user").set("Cookie", cookie).expect(401);
+
+    const login = await request(server.app)
+      .post("/api/login")
+      .send({ username: "asha", password: "correct horse" })
+      .expect(200);
+    expect(login.body).toMatchObject({ id: user.id, username: "asha" });
+    expect(login.body).not.toHaveProperty("password");
+  });
+
+  it("rejects taken usernames and wrong passwords", async () => {
+    await signUp(server.app, "bikash");
+    await request(server.app)
+      .post("/api/register")
+      .send({ username: "bikash", fullname: "Another", email: "other@example.com", password: "pw" })
+      .expect(400);
+    await request(server.app).post("/api/login").send({ username: "bikash", password: "wrong" }).expect(401);
+    await request(server.app).post("/api/login").send({ username: "nobody", password: "wrong" }).expect(401);
+  });
+
+  it("answers forgot-password without waiting for the email", async () => {
+    const { user } = await signUp(server.app, "dipa");
+    await verifyEmail(user.id);
+    const send = vi.spyOn(mailTransport, "send").mockRejectedValue(new Error("SMTP is down"));
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+    try {
+      await request(server.app).post("/api/forgot-password").send({ email: "dipa@example.com" }).expect(204);
+      await request(server.app).post("/api/forgot-password").send({ email: "nobody@example.com" }).expect(204);
+      await vi.waitFor(() => expect(logged).toHaveBeenCalledWith("Error sending password reset email:", expect.any(Error)));
+      expect(send).toHaveBeenCalledTimes(1);
+    } finally {
+      send.mockRestore();
+      logged.mockRestore();
+    }
+  });
+
+  it("sets an email until it is confirmed", async () => {
+    const sent: MailMessage[] = [];
+    const send = vi.spyOn(mailTransport, "send").mockImplementation(async (message) => {
+      sent.push(message);
+    });
+    const linkTo = async (to: string) => {
+      await vi.waitFor(() => expect(sent.some((message) => message.to === to)).toBe(true));
+      return sent.find((message) => message.to === to)!.text.match(/token=([\w-]+)/)![1];
+    };
+    try {
+      const { cookie } = await signUp(server.app, "esha");
+      const oldToken = await linkTo("esha@example.com");
+      const firoz = await signUp(server.app, "firoz");
+      await verifyEmail(firoz.user.id);
+
+      await request(server.app)
+        .put("/api/user/email")
+        .set("Cookie", cookie)
+        .send({ email: "firoz@example.com" })
+        .expect(400);
+      const res = await request(server.app)
+        .put("/api/user/email")
+        .set("Cookie", cookie)
+        .send({ email: " Esha.Rai@Example.com " })
+        .expect(200);
+      expect(res.body).toMatchObject({ email: "esha.rai@example.com", emailVerifiedAt: null });
+
+      // The link sent to the old address can't confirm the new one
+      await request(server.app).post("/api/verify-email").send({ token: oldToken }).expect(400);
+      const newToken = await linkTo("esha.rai@example.com");
+      await request(server.app).post("/api/verify-email").send({ token: newToken }).expect(204);
+
+      await request(server.app)
+        .put("/api/user/email")
+        .set("Cookie", cookie)
+        .send({ email: "esha@example.com" })
+        .expect(400);
+    } finally {
+      send.mockRestore();
+    }
+  });
+
+  it("keeps a verified email to one account and sends resets only there", async () => {
+    const sent: MailMessage[] = [];
+    const send = vi.spyOn(mailTransport, "send").mockImplementation(async (message) => {
+      sent.push(message);
+    });
+    const resetsTo = (to: string) => sent.filter((message) => message.to === to && message.text.includes("reset-password"));
+    try {
+      const hema = await signUp(server.app, "hema");
+      // Someone else may type the same address until its owner confirms it
+      const other = await signUp(server.app, "hemanta");
+      await request(server.app)
+        .put("/api/user/email")
+        .set("Cookie", other.cookie)
+        .send({ email: "hema@example.com" })
+        .expect(200);
+      const otherLink = () =>
+        sent.find((message) => message.to === "hema@example.com" && message.text.includes("Test hemanta"));
+      await vi.waitFor(() => expect(otherLink()).toBeDefined());
+
+      await request(server.app).post("/api/forgot-password").send({ email: "hema@example.com" }).expect(204);
+      await verifyEmail(hema.user.id);
+      await request(server.app).post("/api/forgot-password").send({ email: "hema@example.com" }).expect(204);
+      await vi.waitFor(() => expect(resetsTo("hema@example.com")).toHaveLength(1));
+
+      await request(server.app)
+        .post("/api/register")
+        .send({ username: "hema2", fullname: "Hema", email: "hema@example.com", password: "correct horse" })
+        .expect(400);
+      // The other account's link no longer confirms it
+      const token = otherLink()!.text.match(/token=([\w-]+)/)![1];
+      const verify = await request(server.app).post("/api/verify-email").send({ token }).expect(400);
+      expect(verify.text).toBe("Another account has already confirmed this email");
+    } finally {
+      send.mockRestore();
+    }
+  });
+
+  it("only holds back unverified accounts when verification is required", async () => {
+    const { user, cookie } = await signUp(server.app);
+    await createPost(cookie);
+
+    authConfig.requireEmailVerification = true;
+    try {
+      const res = await request(server.app).post("/api/posts").set("Cookie", cookie).send(jobPost()).expect(403);
+      expect(res.body.code).toBe("email_unverified");
+      await verifyEmail(user.id);
+      await createPost(cookie);
+    } finally {
+      authConfig.requireEmailVerification = false;
+    }
+  });
+
+  it("requires a session for protected routes", async () => {
+    await request(server.app).post("/api/posts").send(jobPost()).expect(401);
+    await request(server.app).get("/api/chats").expect(401);
+    await request(server.app).get("/api/user/bookmarks").expect(401);
+    await request(server.app).put("/api/user/email").send({ email: "someone@example.com" }).expect(401);
+  });
+});
+
+describe("two-factor authentication", () => {
+  // The app's code for the current time step, or one a number of steps away
+  const totpCode = (secret: string, steps = 0) =>
+    TOTP.generate({ secret: Secret.fromBase32(secret), timestamp: Date.now() + steps * 30 * 1000 });
+
+  async function enableTwoFactor(cookie: string) {
+    const setup = await request(server.app).post("/api/2fa/setup").set("Cookie", cookie).expect(200);
+    const { secret } = setup.body;
+    const enabled = await request(server.app)
+      .post("/api/2fa/enable")
+      .set("Cookie", cookie)
+      .send({ code: totpCode(secret) })
+      .expect(200);
+    return { secret, recoveryCodes: enabled.body.recoveryCodes as string[] };
+  }
+
+  // Enters the password and returns the session waiting for the second step
+  async function startLogin(username: string) {
+    const res = await request(server.app).post("/api/login").send({ username, password: "correct horse" }).expect(200);
+    expect(res.body).toEqual({ twoFactorRequired: true });
+    return sessionCookie(res);
+  }
+
+  it("asks for a code from the app after the password", async () => {
+    const { user, cookie } = await signUp(server.app, "hari");
+    const { secret } = await enableTwoFactor(cookie);
+
+    const pending = await startLogin("hari");
+    await request(server.app).get("/api/user").set("Cookie", pending).expect(401);
+
+    const wrong = String((Number(totpCode(secret)) + 1) % 1_000_000).padStart(6, "0");
+    await request(server.app).post("/api/login/2fa").set("Cookie", pending).send({ code: wrong }).expect(400);
+    // The code used to turn it on can't log in
+    await request(server.app).post("/api/login/2fa").set("Cookie", pending).send({ code: totpCode(secret) }).expect(400);
+
+    const login = await request(server.app)
+      .post("/api/login/2fa")
+      .set("Cookie", pending)
+      .send({ code: totpCode(secret, 1) })
+      .expect(200);
+    expect(login.body).toMatchObject({ id: user.id, username: "hari" });
+    await request(server.app).get("/api/user").set("Cookie", sessionCookie(login)).expect(200);
+
+    const again = await startLogin("hari");
+    await request(server.app).post("/api/login/2fa").set("Cookie", again).send({ code: totpCode(secret, 1) }).expect(400);
+  });
+
+  it("needs the password step before a code", async () => {
+    const { cookie } = await signUp(server.app, "indra");
+    const { secret } = await enableTwoFactor(cookie);
+    await request(server.app).post("/api/login/2fa").send({ code: totpCode(secret, 1) }).expect(401);
+  });
+
+  it("accepts each recovery code once", async () => {
+    const { cookie } = await signUp(server.app, "jamuna");
+    const { recoveryCodes } = await enableTwoFactor(cookie);
+
+    const first = await startLogin("jamuna");
+    const login = await request(server.app)
+      .post("/api/login/2fa")
+      .set("Cookie", first)
+      .send({ code: recoveryCodes[0] })
+      .expect(200);
+    const status = await request(server.app).get("/api/2fa").set("Cookie", sessionCookie(login)).expect(200);
+    expect(status.body).toEqual({ enabled: true, recoveryCodesRemaining: 9 });
+
+    const second = await startLogin("jamuna");
+    await request(server.app).post("/api/login/2fa").set("Cookie", second).send({ code: recoveryCodes[0] }).expect(400);
+    await request(server.app).get("/api/user").set("Cookie", second).expect(401);
+  });
+
+  it("needs a valid code to replace recovery codes or turn it off", async () => {
+    const { cookie } = await signUp(server.app, "kiran");
+    const { secret, recoveryCodes } = await enableTwoFactor(cookie);
+
+    // Only a code from the app can make new recovery codes
+    await request(server.app).post("/api/2fa/recovery-codes").set("Cookie", cookie).send({ code: recoveryCodes[0] }).expect(400);
+    const replaced = await request(server.app)
+      .post("/api/2fa/recovery-codes")
+      .set("Cookie", cookie)
+      .send({ code: totpCode(secret, 1) })
+      .expect(200);
+    expect(replaced.body.recoveryCodes).toHaveLength(10);
+
+    await request(server.app).post("/api/2fa/disable").set("Cookie", cookie).send({ code: recoveryCodes[1] }).expect(400);
+    await request(server.app).post("/api/2fa/disable").set("Cookie", cookie).send({ code: "123" }).expect(400);
+    await request(server.app)
+      .post("/api/2fa/disable")
+      .set("Cookie", cookie)
+      .send({ code: replaced.body.recoveryCodes[0] })
+      .expect(204);
+    const status = await request(server.app).get("/api/2fa").set("Cookie", cookie).expect(200);
+    expect(status.body).toEqual({ enabled: false, recoveryCodesRemaining: 0 });
+
+    const login = await request(server.app)
+      .post("/api/login")
+      .send({ username: "kiran", password: "correct horse" })
+      .expect(200);
+    expect(login.body).toMatchObject({ username: "kiran" });
+  });
+});
+
+describe("posts", () => {
+  it("creates, reads, edits and deletes a post", async () => {
+    const { user, cookie } = await signUp(server.app);
+    const post = await createPost(cookie);
+    expect(post).toMatchObject({ userId: user.id, type: "job", title: "Kitchen helper", username: user.username });
+
+    const detail = await request(server.app).get(`/api/posts/${post.id}`).expect(200);
+    expect(detail.body.owner).toEqual({ id: user.id, username: user.username, fullname: user.fullname });
+
+    const feed = await request(server.app).get("/api/posts").expect(200);
+    expect(feed.body.posts.map((p: { id: number }) => p.id)).toContain(post.id);
+
+    const edited = await request(server.app)
+      .patch(`/api/posts/${post.id}`)
+      .set("Cookie", cookie)
+      .send({ title: "Head cook" })
+      .expect(200);
+    expect(edited.body.title).toBe("Head cook");
+
+    await request(server.app).delete(`/api/posts/${post.id}`).set("Cookie", cookie).expect(200);
+    await request(server.app).get(`/api/posts/${post.id}`).expect(404);
+  });
+
+  it("rejects invalid posts", async () => {
+    const { cookie } = await signUp(server.app);
+    await request(server.app).post("/api/posts").set("Cookie", cookie).send(jobPost({ title: "" })).expect(400);
+    await request(server.app)
+      .post("/api/posts")
+      .set("Cookie", cookie)
+      .send(jobPost({ jobDetails: null }))
+      .expect(400);
+    await request(server.app)
+      .post("/api/posts")
+      .set("Cookie", cookie)
+      .send(jobPost({ jobDetails: { ...jobPost().jobDetails!, applicationDeadline: "2025-02-30" } }))
+      .expect(400);
+    // Room posts need at least one photo
+    await request(server.app)
+      .post("/api/posts")
+      .set("Cookie", cookie)
+      .send({ ...jobPost(), type: "room", price: 8000, jobDetails: null })
+      .expect(400);
+  });
+
+  it("pages through the posts inside a map viewport", async () => {
+    const { cookie } = await signUp(server.app);
+    const ids: number[] = [];
+    for (let i = 0; i < 3; i++) ids.push((await createPost(cookie, { location: "Pokhara" })).id);
+    await createPost(cookie, { location: "Kathmandu" });
+
+    const seen: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await request(server.app)
+        .get("/api/posts")
+        .query({ bbox: "83.9,28.1,84.1,28.3", limit: 2, ...(cursor && { cursor }) })
+        .expect(200);
+      seen.push(...page.body.posts.map((post: { id: number }) => post.id));
+      cursor = page.body.nextCursor ?? undefined;
+    } while (cursor);
+    expect(seen.sort((a, b) => a - b)).toEqual(ids);
+  });
+
+  it("rejects impossible dates in feed filters", async () => {
+    await request(server.app).get("/api/posts").query({ availableBy: "2025-02-30" }).expect(400);
+    await request(server.app).get("/api/posts").query({ availableBy: "2025-02-28" }).expect(200);
+  });
+
+  it("rejects feed cursors that don't fit the sort", async () => {
+    const cursor = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+    const feed = (query: Record<string, string>) => request(server.app).get("/api/posts").query(query);
+
+    await feed({ cursor: "not-a-cursor" }).expect(400);
+    await feed({ cursor: cursor([1000, 1]) }).expect(400);
+    await feed({ cursor: cursor(["yesterday", 1]) }).expect(400);
+    const invalid = await feed({ sort: "price_asc", cursor: cursor(["2025-01-01T00:00:00.000Z", 1]) }).expect(400);
+    expect(invalid.body).toEqual({ error: "Invalid cursor" });
+    await feed({ sort: "price_asc", cursor: cursor([1000, "1"]) }).expect(400);
+
+    await feed({ cursor: cursor(["2025-01-01T00:00:00.000Z", 1]) }).expect(200);
+    await feed({ sort: "price_desc", cursor: cursor([1000, 1]) }).expect(200);
+  });
+
+  it("searches posts and rejects invalid search queries", async () => {
+    const { cookie } = await signUp(server.app);
+    const post = await createPost(cookie, { title: "Dhulikhel resort cook" });
+    const search = (query: Record<string, string>) => request(server.app).get("/api/posts/search").query(query);
+
+    const found = await search({ q: "dhulikhel" }).expect(200);
+    expect(found.body.posts.map((p: { id: number }) => p.id)).toEqual([post.id]);
+    expect(found.body.posts[0].highlights.title).toBe("<mark>Dhulikhel</mark> resort cook");
+
+    const missing = await search({ q: " " }).expect(400);
+    expect(missing.body).toEqual({ error: "Search query is required" });
+    const invalid = await search({ q: "dhulikhel", cursor: "abc" }).expect(400);
+    expect(invalid.body).toEqual({ error: "Invalid cursor" });
+    await search({ q: "dhulikhel", cursor: "-1" }).expect(400);
+    const past = await search({ q: "dhulikhel", cursor: "20" }).expect(200);
+    expect(past.body).toEqual({ posts: [], nextCursor: null });
+  });
+
+  it("only lets the owner edit or delete a post", async () => {
+    const owner = await signUp(server.app);
+    const other = await signUp(server.app);
+    const post = await createPost(owner.cookie);
+
+    await request(server.app)
+      .patch(`/api/posts/${post.id}`)
+      .set("Cookie", other.cookie)
+      .send({ title: "Mine now" })
+      .expect(403);
+    await request(server.app).delete(`/api/posts/${post.id}`).set("Cookie", other.cookie).expect(403);
+    await request(server.app).get(`/api/posts/${post.id}`).expect(200);
+  });
+
+  it("answers with an error when looking up the post fails", async () => {
+    const { cookie } = await signUp(server.app);
+    const post = await createPost(cookie);
+    const getPost = vi.spyOn(storage, "getPost").mockRejectedValue(new Error("Connection lost"));
+    const logged = vi.spyOn(console, "error").mockImplementation(() => {});
+    try {
+      await request(server.app).patch(`/api/posts/${post.id}`).set("Cookie", cookie).send({ title: "Edited" }).expect(400);
+      const res = await request(server.app).delete(`/api/posts/${post.id}`).set("Cookie", cookie).expect(500);
+      expect(res.body).toEqual({ error: "Failed to delete post" });
+    } finally {
+      getPost.mockRestore();
+      logged.mockRestore();
+    }
+  });
+});
+
+describe("comments", () => {
+  it("adds, edits and deletes comments", async () => {
+    const author = await signUp(server.app);
+    const commenter = await signUp(server.app);
+    const post = await createPost(author.cookie);
+
+    const created = await request(server.app)
+      .post(`/api/posts/${post.id}/comments`)
+      .set("Cookie", commenter.cookie)
+      .send({ postId: post.id, content: "Is this still open?" })
+      .expect(200);
+    expect(created.body).toMatchObject({ postId: post.id, userId: commenter.user.id, username: commenter.user.username });
+
+    const comments = await request(server.app).get(`/api/posts/${post.id}/comments`).expect(200);
+    expect(comments.body).toHaveLength(1);
+    expect(comments.body[0].content).toBe("Is this still open?");
+
+    await request(server.app)
+      .patch(`/api/comments/${created.body.id}`)
+      .set("Cookie", author.cookie)
+      .send({ content: "Edited by someone else" })
+      .expect(403);
+    const edited = await request(server.app)
+      .patch(`/api/comments/${created.body.id}`)
+      .set("Cookie", commenter.cookie)
+      .send({ content: "Is this role still open?" })
+      .expect(200);
+    expect(edited.body.content).toBe("Is this role still open?");
+
+    await request(server.app).delete(`/api/comments/${created.body.id}`).set("Cookie", author.cookie).expect(403);
+    await request(server.app).delete(`/api/comments/${created.body.id}`).set("Cookie", commenter.cookie).expect(200);
+    const after = await request(server.app).get(`/api/posts/${post.id}/comments`).expect(200);
+    expect(after.body).toHaveLength(0);
+  });
+
+  it("only replies to comments on the same post and not on deleted posts", async () => {
+    const { cookie } = await signUp(server.app);
+    const post = await createPost(cookie);
+    const otherPost = await createPost(cookie);
+    const comment = (postId: number, body: object) =>
+      request(server.app).post(`/api/posts/${postId}/comments`).set("Cookie", cookie).send({ postId, ...body });
+
+    const parent = await comment(otherPost.id, { content: "Elsewhere" }).expect(200);
+    const crossPost = await comment(post.id, { content: "Reply", parentId: parent.body.id }).expect(400);
+    expect(crossPost.body).toEqual({ error: "Can only reply to a comment on the same post" });
+    await comment(post.id, { content: "Reply", parentId: 99999 }).expect(400);
+    const reply = await comment(otherPost.id, { content: "Reply", parentId: parent.body.id }).expect(200);
+    expect(reply.body).toMatchObject({ postId: otherPost.id, parentId: parent.body.id });
+    await comment(post.id, {}).expect(400);
+
+    await request(server.app).delete(`/api/posts/${post.id}`).set("Cookie", cookie).expect(200);
+    const deleted = await comment(post.id, { content: "Still there?" }).expect(404);
+    expect(deleted.body).toEqual({ error: "Post not found" });
+  });
+});
+
+describe("bookmarks", () => {
+  it("toggles a bookmark and lists bookmarked posts", async () => {
+    const author = await signUp(server.app);
+    const reader = await signUp(server.app);
+    const post = await createPost(author.cookie);
+
+    const added = await request(server.app).post(`/api/posts/${post.id}/bookmark`).set("Cookie", reader.cookie).expect(200);
+    expect(added.body).toEqual({ bookmarked: true, count: 1, postId: post.id });
+    const status = await request(server.app).get(`/api/posts/${post.id}/bookmark`).set("Cookie", reader.cookie).expect(200);
+    expect(status.body).toEqual({ bookmarked: true });
+
+    const list = await request(server.app).get("/api/user/bookmarks").set("Cookie", reader.cookie).expect(200);
+    expect(list.body.map((p: { id: number }) => p.id)).toEqual([post.id]);
+
+    const removed = await request(server.app).post(`/api/posts/${post.id}/bookmark`).set("Cookie", reader.cookie).expect(200);
+    expect(removed.body).toEqual({ bookmarked: false, count: 0, postId: post.id });
+  });
+
+  it("can't bookmark a missing post", async () => {
+    const { cookie } = await signUp(server.app);
+    await request(server.app).post("/api/posts/99999/bookmark").set("Cookie", cookie).expect(404);
+  });
+});
+
+describe("chats", () => {
+  it("starts a chat, sends messages and deletes it", async () => {
+    const alice = await signUp(server.app);
+    const bob = await signUp(server.app);
+    const outsider = await signUp(server.app);
+
+    const chat = await createChat(alice.cookie, [alice.user.id, bob.user.id]);
+    expect(chat.participants.map((p: { id: number }) => p.id).sort()).toEqual([alice.user.id, bob.user.id].sort());
+
+    const sent = await request(server.app)
+      .post(`/api/chats/${chat.id}/messages`)
+      .set("Cookie", alice.cookie)
+      .send({ content: "Namaste" })
+      .expect(200);
+    // Only what other users may see of the sender
+    expect(sent.body.user).toEqual({ id: alice.user.id, username: alice.user.username, fullname: alice.user.fullname });
+
+    const messages = await request(server.app).get(`/api/chats/${chat.id}/messages`).set("Cookie", bob.cookie).expect(200);
+    expect(messages.body.map((m: { content: string }) => m.content)).toEqual(["Namaste"]);
+
+    const bobsChats = await request(server.app).get("/api/chats").set("Cookie", bob.cookie).expect(200);
+    expect(bobsChats.body.map((c: { id: number }) => c.id)).toContain(chat.id);
+
+    await request(server.app).delete(`/api/chats/${chat.id}`).set("Cookie", outsider.cookie).expect(403);
+    await request(server.app).delete(`/api/chats/${chat.id}`).set("Cookie", bob.cookie).expect(200);
+    const afterDelete = await request(server.app).get("/api/chats").set("Cookie", alice.cookie).expect(200);
+    expect(afterDelete.body.map((c: { id: number }) => c.id)).not.toContain(chat.id);
+  });
+
+  it("keeps messages to the participants", async () => {
+    const alice = await signUp(server.app);
+    const bob = await signUp(server.app);
+    const outsider = await signUp(server.app);
+    const chat = await createChat(alice.cookie, [alice.user.id, bob.user.id]);
+
+    await request(server.app).get(`/api/chats/${chat.id}/messages`).set("Cookie", outsider.cookie).expect(403);
+    await request(server.app)
+      .post(`/api/chats/${chat.id}/messages`)
+      .set("Cookie", outsider.cookie)
+      .send({ content: "Let me in" })
+      .expect(403);
+    const messages = await request(server.app).get(`/api/chats/${chat.id}/messages`).set("Cookie", bob.cookie).expect(200);
+    expect(messages.body).toEqual([]);
+  });
+
+  it("rejects chats with unknown users", async () => {
+    const { cookie } = await signUp(server.app);
+    await request(server.app).post("/api/chats").set("Cookie", cookie).send({ participantIds: [99999] }).expect(400);
+  });
+});
+
+describe("blocking", () => {
+  it("blocks, lists and unblocks users", async () => {
+    const blocker = await signUp(server.app);
+    const blocked = await signUp(server.app);
+
+    await request(server.app).post(`/api/users/${blocked.user.id}/block`).set("Cookie", blocker.cookie).expect(200);
+    const list = await request(server.app).get("/api/users/blocked").set("Cookie", blocker.cookie).expect(200);
+    expect(list.body).toEqual([{ id: blocked.user.id, username: blocked.user.username, fullname: blocked.user.fullname }]);
+
+    await request(server.app).delete(`/api/users/${blocked.user.id}/block`).set("Cookie", blocker.cookie).expect(200);
+    const after = await request(server.app).get("/api/users/blocked").set("Cookie", blocker.cookie).expect(200);
+    expect(after.body).toEqual([]);
+  });
+
+  it("can't block yourself or a missing user", async () => {
+    const { user, cookie } = await signUp(server.app);
+    await request(server.app).post(`/api/users/${user.id}/block`).set("Cookie", cookie).expect(400);
+    await request(server.app).post("/api/users/99999/block").set("Cookie", cookie).expect(404);
+  });
+});
+
+describe("sessions", () => {
+  // Logs the account in again, as if from another device
+  async function logIn(username: string, userAgent = "Another browser") {
+    const res = await request(server.app)
+      .post("/api/login")
+      .set("User-Agent", userAgent)
+      .send({ username, password: "correct horse" })
+      .expect(200);
+    return sessionCookie(res);
+  }
+
+  function disconnected(socket: Socket) {
+    return new Promise<void>((resolve) => socket.once("disconnect", () => resolve()));
+  }
+
+  it("lists the account's sessions and signs out one of them", async () => {
+    const { cookie } = await signUp(server.app, "laxmi");
+    const phone = await logIn("laxmi", "Phone");
+    await signUp(server.app, "mohan");
+
+    const list = await request(server.app).get("/api/sessions").set("Cookie", cookie).expect(200);
+    expect(list.body).toHaveLength(2);
+    expect(list.body[0].current).toBe(true);
+    expect(list.body[1]).toMatchObject({ current: false, userAgent: "Phone" });
+
+    await request(server.app).delete(`/api/sessions/${list.body[0].id}`).set("Cookie", cookie).expect(400);
+    await request(server.app).delete("/api/sessions/unknown").set("Cookie", cookie).expect(404);
+
+    const phoneSocket = await openSocket(phone);
+    const revoked = recordEvents(phoneSocket, "session-revoked");
+    const closed = disconnected(phoneSocket);
+    await request(server.app).delete(`/api/sessions/${list.body[1].id}`).set("Cookie", cookie).expect(204);
+    await closed;
+    expect(revoked).toHaveLength(1);
+
+    await request(server.app).get("/api/user").set("Cookie", phone).expect(401);
+    await request(server.app).get("/api/user").set("Cookie", cookie).expect(200);
+  });
+
+  it("signs out every other session", async () => {
+    const { cookie } = await signUp(server.app, "nabin");
+    const phone = await logIn("nabin");
+    const laptop = await logIn("nabin");
+    const other = await signUp(server.app, "ojaswi");
+
+    const laptopSocket = await openSocket(laptop);
+    const closed = disconnected(laptopSocket);
+    const res = await request(server.app).delete("/api/sessions").set("Cookie", cookie).expect(200);
+    expect(res.body).toEqual({ revoked: 2 });
+    await closed;
+
+    await request(server.app).get("/api/user").set("Cookie", phone).expect(401);
+    await request(server.app).get("/api/user").set("Cookie", laptop).expect(401);
+    await request(server.app).get("/api/user").set("Cookie", cookie).expect(200);
+    await request(server.app).get("/api/user").set("Cookie", other.cookie).expect(200);
+  });
+
+  it("signs out everywhere when the password is reset", async () => {
+    const sent: MailMessage[] = [];
+    const send = vi.spyOn(mailTransport, "send").mockImplementation(async (message) => {
+      sent.push(message);
+    });
+    try {
+      const { user, cookie } = await signUp(server.app, "pabitra");
+      await verifyEmail(user.id);
+      const phone = await logIn("pabitra");
+      const phoneSocket = await openSocket(phone);
+      const closed = disconnected(phoneSocket);
+
+      await request(server.app).post("/api/forgot-password").send({ email: "pabitra@example.com" }).expect(204);
+      await vi.waitFor(() => expect(sent.some((message) => message.text.includes("reset-password"))).toBe(true));
+      const token = sent.find((message) => message.text.includes("reset-password"))!.text.match(/token=([\w-]+)/)![1];
+      await request(server.app).post("/api/reset-password").send({ token, password: "new horse battery" }).expect(204);
+      await closed;
+
+      await request(server.app).get("/api/user").set("Cookie", cookie).expect(401);
+      await request(server.app).get("/api/user").set("Cookie", phone).expect(401);
+      await request(server.app)
+        .post("/api/login")
+        .send({ username: "pabitra", password: "new horse battery" })
+        .expect(200);
+    } finally {
+      send.mockRestore();
+    }
+  });
+});
+
+describe("rate limits", () => {
+  // Each test file has its own rate limit state, so these start from zero
+  it("locks logins after repeated failures", async () => {
+    await signUp(server.app, "gita");
+    for (let i = 0; i < 5; i++) {
+      await request(server.app).post("/api/login").send({ username: "gita", password: "wrong" }).expect(401);
+    }
+    const locked = await request(server.app)
+      .post("/api/login")
+      .send({ username: "gita", password: "correct horse" })
+      .expect(429);
+    expect(locked.text).toBe("Too many requests. Try again later.");
+    expect(locked.headers["retry-after"]).toBe("60");
+  });
+
+  it("limits new posts, comments and messages per account", async () => {
+    const alice = await signUp(server.app);
+    const bob = await signUp(server.app);
+    const post = await createPost(bob.cookie);
+    const chat = await createChat(alice.cookie, [alice.user.id, bob.user.id]);
+    const expectLimited = (res: request.Response) => {
+      expect(res.body).toEqual({ error: "Too many requests. Try again later.", code: "rate_limited" });
+      expect(Number(res.headers["retry-after"])).toBeGreaterThan(0);
+    };
+
+    for (let i = 0; i < 10; i++) await createPost(alice.cookie);
+    expectLimited(await request(server.app).post("/api/posts").set("Cookie", alice.cookie).send(jobPost()).expect(429));
+
+    const comment = () =>
+      request(server.app)
+        .post(`/api/posts/${post.id}/comments`)
+        .set("Cookie", alice.cookie)
+        .send({ postId: post.id, content: "Still open?" });
+    for (let i = 0; i < 20; i++) await comment().expect(200);
+    expectLimited(await comment().expect(429));
+
+    const message = () =>
+      request(server.app).post(`/api/chats/${chat.id}/messages`).set("Cookie", alice.cookie).send({ content: "Namaste" });
+    for (let i = 0; i < 30; i++) await message().expect(200);
+    expectLimited(await message().expect(429));
+
+    // Other accounts have limits of their own
+    await createPost(bob.cookie);
+  });
+});
+
+describe("realtime events", () => {
+  it("broadcasts new and updated posts to everyone", async () => {
+    const { cookie } = await signUp(server.app);
+    const visitor = await openSocket();
+    const member = await openSocket(cookie);
+    const newPosts = [recordEvents(visitor, "new-post"), recordEvents(member, "new-post")];
+    const updates = [recordEvents(visitor, "post-updated"), recordEvents(member, "post-updated")];
+
+    const post = await createPost(cookie);
+    await vi.waitFor(() => newPosts.forEach((received) => expect(received).toMatchObject([{ id: post.id }])));
+
+    await request(server.app).patch(`/api/posts/${post.id}`).set("Cookie", cookie).send({ title: "Updated" }).expect(200);
+    await vi.waitFor(() =>
+      updates.forEach((received) => expect(received).toMatchObject([{ id: post.id, title: "Updated" }])),
+    );
+  });
+
+  it("sends new comments only to sockets viewing the post", async () => {
+    const { cookie } = await signUp(server.app);
+    const post = await createPost(cookie);
+    const otherPost = await createPost(cookie);
+
+    const viewer = await openSocket();
+    const elsewhere = await openSocket();
+    const idle = await openSocket();
+    viewer.emit("join-post", String(post.id));
+    elsewhere.emit("join-post", String(otherPost.id));
+    await settle();
+    const [forViewer, forElsewhere, forIdle] = [viewer, elsewhere, idle].map((socket) =>
+      recordEvents(socket, "new-comment"),
+    );
+
+    await request(server.app)
+      .post(`/api/posts/${post.id}/comments`)
+      .set("Cookie", cookie)
+      .send({ postId: post.id, content: "Still hiring" })
+      .expect(200);
+
+    await vi.waitFor(() => expect(forViewer).toMatchObject([{ postId: post.id, content: "Still hiring" }]));
+    await settle();
+    expect(forElsewhere).toEqual([]);
+    expect(forIdle).toEqual([]);
+  });
+
+  it("sends new messages only to sockets in the chat", async () => {
+    const alice = await signUp(server.app);
+    const bob = await signUp(server.app);
+    const carol = await signUp(server.app);
+    const chat = await createChat(alice.cookie, [alice.user.id, bob.user.id]);
+
+    const inChat = await openSocket(bob.cookie);
+    const notInChat = await openSocket(carol.cookie);
+    const anonymous = await openSocket();
+    inChat.emit("join-chat", String(chat.id));
+    // Neither is a participant, so asking to join does nothing
+    notInChat.emit("join-chat", String(chat.id));
+    anonymous.emit("join-chat", String(chat.id));
+    await settle();
+    const [forBob, forCarol, forAnonymous] = [inChat, notInChat, anonymous].map((socket) =>
+      recordEvents(socket, "new-message"),
+    );
+
+    await request(server.app)
+      .post(`/api/chats/${chat.id}/messages`)
+      .set("Cookie", alice.cookie)
+      .send({ content: "Is the room free?" })
+      .expect(200);
+
+    await vi.waitFor(() => expect(forBob).toMatchObject([{ chatId: chat.id, content: "Is the room free?" }]));
+    expect(forBob[0]).not.toHaveProperty("user.password");
+    await settle();
+    expect(forCarol).toEqual([]);
+    expect(forAnonymous).toEqual([]);
+  });
+
+  it("tells only the participants when a chat is deleted", async () => {
+    const alice = await signUp(server.app);
+    const bob = await signUp(server.app);
+    const carol = await signUp(server.app);
+    const chat = await createChat(alice.cookie, [alice.user.id, bob.user.id]);
+
+    const connected = await Promise.all([
+      openUserSocket(alice.cookie, alice.user.id),
+      openUserSocket(bob.cookie, bob.user.id),
+      openUserSocket(carol.cookie, carol.user.id),
+    ]);
+    const [forAlice, forBob, forCarol] = connected.map((socket) => recordEvents(socket, "chat-deleted"));
+
+    await request(server.app).delete(`/api/chats/${chat.id}`).set("Cookie", alice.cookie).expect(200);
+
+    await vi.waitFor(() => {
+      expect(forAlice).toEqual([chat.id]);
+      expect(forBob).toEqual([chat.id]);
+    });
+    await settle();
+    expect(forCarol).toEqual([]);
+  });
+
+  it("announces users coming online and going offline", async () => {
+    const { user, cookie } = await signUp(server.app);
+    const watcher = await openSocket();
+    const changes = recordEvents(watcher, "user-status-change");
+
+    const socket = await openUserSocket(cookie, user.id);
+    await vi.waitFor(() => expect(changes).toEqual([{ userId: user.id, status: "online" }]));
+
+    socket.disconnect();
+    await vi.waitFor(() =>
+      expect(changes).toEqual([
+        { userId: user.id, status: "online" },
+        { userId: user.id, status: "offline" },
+      ]),
+    );
+  });
+
+  it("ignores sockets claiming to be another user", async () => {
+    const alice = await signUp(server.app);
+    const mallory = await signUp(server.app);
+    const chat = await createChat(alice.cookie, [alice.user.id, mallory.user.id]);
+
+    const watcher = await openSocket();
+    const changes = recordEvents(watcher, "user-status-change");
+    const impostor = await openSocket(mallory.cookie);
+    impostor.emit("user-online", alice.user.id);
+    const anonymous = await openSocket();
+    anonymous.emit("user-online", alice.user.id);
+    await settle();
+    const deletions = [impostor, anonymous].map((socket) => recordEvents(socket, "chat-deleted"));
+
+    await request(server.app).delete(`/api/chats/${chat.id}`).set("Cookie", alice.cookie).expect(200);
+    await settle();
+    expect(changes).toEqual([]);
+    deletions.forEach((received) => expect(received).toEqual([]));
+  });
+});
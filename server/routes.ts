@@ -1,31 +1,24 @@
-import express, { type Express } from "express";
+import express, { type Express, type Request } from "express";
 import { createServer, type Server } from "http";
 import { Server as SocketIOServer } from "socket.io";
-import { setupAuth } from "./auth";
+import { setupAuth, authConfig } from "./auth";
 import { storage } from "./storage";
-import { insertPostSchema, insertCommentSchema, insertChatSchema, insertMessageSchema } from "@shared/schema";
+import { insertPostSchema, insertCommentSchema, insertChatSchema, insertMessageSchema, postFeedQuerySchema, postSearchQuerySchema, updatePostStatusSchema, getAllowedPostStatuses, openPostStatuses, type PostDetail, type PublicUser, type User, type MessageWithUser } from "@shared/schema";
+import { createExpiryScheduler, getPostExpiryDate } from "./post-expiry";
+import { createPurgeScheduler, getRestorableSince } from "./soft-delete";
+import { createUploadGcScheduler } from "./upload-gc";
+import { getPostVersions } from "./revisions";
+import { searchPlaces } from "./geocoder";
+import { processUploads, deleteImage } from "./images";
+import { uploadDir } from "./blob-store";
+import { rateLimit } from "./rate-limit";
+import { getSessionPublicId, getSessionRoom, toActiveSession } from "./sessions";
 import multer from "multer";
 import path from "path";
-import fs from "fs";
-
-// Configure multer for storing files
-const uploadDir = path.join(process.cwd(), "uploads");
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-
-const imageStorage = multer.diskStorage({
-  destination: function (req, file, cb) {
-    cb(null, uploadDir);
-  },
-  filename: function (req, file, cb) {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    cb(null, file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname));
-  }
-});
 
+// Uploads are kept in memory until they are processed into the blob store
 const upload = multer({
-  storage: imageStorage,
+  storage: multer.memoryStorage(),
   limits: {
     fileSize: 5 * 1024 * 1024 // 5MB limit
   },
@@ -41,8 +34,65 @@ const upload = multer({
   }
 });
 
+// Multipart bodies carry every field as a string, so coerce the ones that
+// aren't before validation. Only fields present in the body are touched.
+function normalizePostBody(body: Record<string, any>) {
+  const data = { ...body };
+  if ("price" in data) {
+    data.price = data.price ? Number(data.price) : null;
+  }
+  for (const key of ["roomDetails", "jobDetails"]) {
+    if (typeof data[key] === "string") {
+      data[key] = data[key] ? JSON.parse(data[key]) : null;
+    }
+  }
+  return data;
+}
+
+// What other users may see of an account; never send a full user row
+function toPublicUser(user: User): PublicUser {
+  return { id: user.id, username: user.username, fullname: user.fullname };
+}
+
+const MAX_POST_IMAGES = 5;
+const NEW_IMAGE_PREFIX = "new:";
+
+// An edit lists the post's images in their new order, the first being the
+// cover. Existing images are referenced by URL and images uploaded with the
+// edit as "new:<index>". Without an order, new images are appended.
+function resolvePostImages(order: unknown, current: string[], uploaded: string[]): string[] {
+  if (order === undefined) {
+    order = [...current, ...uploaded.map((_, i) => `${NEW_IMAGE_PREFIX}${i}`)];
+  }
+  if (!Array.isArray(order) || !order.every((entry) => typeof entry === "string")) {
+    throw new Error("imageOrder must be a list of image URLs and new:<index> entries");
+  }
+
+  const images = (order as string[]).map((entry) => {
+    if (entry.startsWith(NEW_IMAGE_PREFIX)) {
+      const url = uploaded[Number(entry.slice(NEW_IMAGE_PREFIX.length))];
+      if (!url) throw new Error(`No uploaded file for ${entry}`);
+      return url;
+    }
+    if (!current.includes(entry)) throw new Error(`${entry} is not an image of this post`);
+    return entry;
+  });
+
+  if (images.some((url, i) => images.indexOf(url) !== i)) {
+    throw new Error("imageOrder lists an image more than once");
+  }
+  if (images.length > MAX_POST_IMAGES) {
+    throw new Error(`A post can have at most ${MAX_POST_IMAGES} images`);
+  }
+  return images;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  setupAuth(app);
+  const sessionMiddleware = setupAuth(app, {
+    onPasswordReset: async (userId, currentSid) => {
+      await revokeOtherSessions(userId, currentSid);
+    },
+  });
 
   // Create HTTP server
   const httpServer = createServer(app);
@@ -54,8 +104,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       methods: ["GET", "POST"]
     }
   });
+  // Gives each connection the session of its handshake
+  io.engine.use(sessionMiddleware);
 
-  // Serve uploaded files statically
+  // Serve uploaded files statically. Kept with another blob store too, for
+  // images uploaded to disk before it was configured.
   app.use('/uploads', express.static(uploadDir));
 
   // Middleware to check authentication
@@ -64,44 +117,108 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   };
 
+  // For actions throwaway accounts abuse; goes after requireAuth
+  const requireVerifiedEmail = (req: any, res: any, next: any) => {
+    if (!authConfig.requireEmailVerification || req.user.emailVerifiedAt) return next();
+    res.status(403).json({ error: "Confirm your email address to do this", code: "email_unverified" });
+  };
+
+  // Per account, since these go after requireAuth
+  const postLimit = rateLimit({ name: "create-post", max: 10, windowMs: 60 * 60 * 1000 });
+  const commentLimit = rateLimit({ name: "create-comment", max: 20, windowMs: 10 * 60 * 1000 });
+  const chatLimit = rateLimit({ name: "create-chat", max: 10, windowMs: 60 * 60 * 1000 });
+  const messageLimit = rateLimit({ name: "send-message", max: 30, windowMs: 60 * 1000 });
+
   // Posts
   app.get("/api/posts", async (req, res) => {
-    const posts = await storage.getPosts();
-    const postsWithUsernames = await Promise.all(
-      posts.map(async (post) => {
-        const user = await storage.getUser(post.userId);
-        return { ...post, username: user?.username };
-      })
-    );
-    res.json(postsWithUsernames);
+    const parsed = postFeedQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid feed query" });
+    }
+
+    try {
+      res.json(await storage.getPostsPage(parsed.data));
+    } catch (error: any) {
+      if (error.message === "Invalid cursor") {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error fetching posts feed:", error);
+      res.status(500).json({ error: "Failed to get posts" });
+    }
+  });
+
+  app.get("/api/posts/search", async (req, res) => {
+    const parsed = postSearchQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid search query" });
+    }
+
+    try {
+      res.json(await storage.searchPosts(parsed.data));
+    } catch (error) {
+      console.error("Error searching posts:", error);
+      res.status(500).json({ error: "Failed to search posts" });
+    }
+  });
+
+  // Location autocomplete, served from the bundled gazetteer
+  app.get("/api/places", (req, res) => {
+    const q = typeof req.query.q === "string" ? req.query.q : "";
+    res.json(searchPlaces(q));
+  });
+
+  // Public, so shared links work for visitors who are not logged in
+  app.get("/api/posts/:id", async (req, res) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(404).json({ error: "Post not found" });
+    }
+
+    try {
+      const post = await storage.getPost(id);
+      if (!post) {
+        return res.status(404).json({ error: "Post not found" });
+      }
+
+      const owner = await storage.getUser(post.userId);
+      const detail: PostDetail = {
+        ...post,
+        username: owner?.username,
+        owner: owner ? toPublicUser(owner) : null,
+      };
+      res.json(detail);
+    } catch (error) {
+      console.error("Error fetching post:", error);
+      res.status(500).json({ error: "Failed to get post" });
+    }
   });
 
-  app.post("/api/posts", requireAuth, upload.array('images', 5), async (req, res) => {
+  app.post("/api/posts", requireAuth, requireVerifiedEmail, postLimit, upload.array('images', MAX_POST_IMAGES), async (req, res) => {
+    let imageUrls: string[] = [];
     try {
       console.log("Creating post with data:", req.body);
       console.log("Files received:", req.files);
 
-      const files = req.files as Express.Multer.File[];
-      let imageUrls: string[] = [];
+      const files = (req.files as Express.Multer.File[] | undefined) ?? [];
 
       if (req.body.type === "room") {
-        if (!files || files.length === 0) {
+        if (files.length === 0) {
           return res.status(400).json({ error: "At least one image is required for room posts" });
         }
-        // Convert uploaded files to URLs
-        imageUrls = files.map(file => `/uploads/${file.filename}`);
+        // Strip metadata and convert to WebP sizes before anything is stored
+        imageUrls = await processUploads(files.map((file) => file.buffer));
       }
 
       const data = {
-        ...req.body,
-        price: req.body.price ? Number(req.body.price) : null,
+        price: null,
+        ...normalizePostBody(req.body),
         images: imageUrls
       };
 
       console.log("Parsed data:", data);
 
       const parsed = insertPostSchema.parse(data);
-      const post = await storage.createPost(req.user!.id, parsed);
+      const post = await storage.createPost(req.user!.id, parsed, getPostExpiryDate());
 
       const user = await storage.getUser(post.userId);
       const postWithUser = { ...post, username: user?.username };
@@ -112,52 +229,177 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(postWithUser);
     } catch (error) {
       console.error("Error creating post:", error);
-      // Clean up uploaded files if there's an error
-      if (req.files) {
-        const files = req.files as Express.Multer.File[];
-        files.forEach(file => {
-          fs.unlink(file.path, (err) => {
-            if (err) console.error("Error deleting file:", err);
+      // Clean up stored images if there's an error
+      imageUrls.forEach(deleteImage);
+      res.status(400).json({ error: error.message || "Failed to create post" });
+    }
+  });
+
+  // Accepts JSON, or multipart when new images are uploaded with the edit
+  app.patch("/api/posts/:id", requireAuth, upload.array('images', MAX_POST_IMAGES), async (req, res) => {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    let uploadedUrls: string[] = [];
+    try {
+      const post = await storage.getPost(Number(req.params.id));
+      if (!post) return res.sendStatus(404);
+      if (post.userId !== req.user!.id) return res.sendStatus(403);
+
+      // Images are only changed through imageOrder and uploaded files
+      const { status, images: _images, imageOrder, ...changes } = req.body;
+      const statusChanged = status !== undefined && status !== post.status;
+
+      // Check the transition up front so a rejected status change doesn't
+      // leave the other edits half applied
+      if (statusChanged) {
+        const nextStatus = updatePostStatusSchema.parse({ status }).status;
+        const nextType = changes.type ?? post.type;
+        if (!getAllowedPostStatuses(nextType, post.status).includes(nextStatus)) {
+          return res.status(400).json({
+            error: `Cannot change a ${nextType} post from ${post.status} to ${nextStatus}`,
           });
-        });
+        }
       }
-      res.status(400).json({ error: error.message || "Failed to create post" });
+
+      uploadedUrls = await processUploads(files.map((file) => file.buffer));
+      const currentImages = post.images ?? [];
+      // Job posts show no photos, so a room post converted to a job drops its own
+      const nextImages = (changes.type ?? post.type) === "job"
+        ? []
+        : imageOrder !== undefined || uploadedUrls.length > 0
+          ? resolvePostImages(typeof imageOrder === "string" ? JSON.parse(imageOrder) : imageOrder, currentImages, uploadedUrls)
+          : currentImages;
+      const imagesChanged = nextImages.join("\n") !== currentImages.join("\n");
+
+      let updated = post;
+
+      if (Object.keys(changes).length > 0 || imagesChanged) {
+        // Validate the post as it will look after the update, so per-type rules
+        // still hold when only some fields are sent
+        const data = {
+          type: post.type,
+          title: post.title,
+          description: post.description,
+          location: post.location,
+          price: post.price,
+          roomDetails: post.roomDetails,
+          jobDetails: post.jobDetails,
+          ...normalizePostBody(changes),
+          images: nextImages,
+        };
+        if (data.type === "room" && imagesChanged && nextImages.length === 0) {
+          throw new Error("At least one image is required for room posts");
+        }
+        // Details of the other post type are dropped when the type changes
+        if (data.type === "room") {
+          data.jobDetails = null;
+        } else {
+          data.roomDetails = null;
+        }
+
+        const parsed = insertPostSchema.parse(data);
+        updated = await storage.updatePost(post.id, parsed);
+      }
+
+      if (statusChanged) {
+        updated = await storage.updatePostStatus(post.id, status);
+        // Reopening a closed listing starts a fresh expiry period
+        if (!openPostStatuses.includes(post.status) && openPostStatuses.includes(updated.status)) {
+          updated = await storage.renewPost(post.id, getPostExpiryDate());
+        }
+      }
+
+      // Drop removed images and any upload the new order left out
+      const keptImages = updated.images ?? [];
+      [...currentImages, ...uploadedUrls]
+        .filter((url) => !keptImages.includes(url))
+        .forEach(deleteImage);
+
+      const user = await storage.getUser(updated.userId);
+      const postWithUser = { ...updated, username: user?.username };
+
+      // Emit post update to all connected clients
+      io.emit("post-updated", postWithUser);
+
+      res.json(postWithUser);
+    } catch (error: any) {
+      console.error("Error updating post:", error);
+      uploadedUrls.forEach(deleteImage);
+      res.status(400).json({ error: error.message || "Failed to update post" });
     }
   });
 
-  app.patch("/api/posts/:id", requireAuth, async (req, res) => {
-    const post = await storage.getPost(Number(req.params.id));
-    if (!post) return res.sendStatus(404);
-    if (post.userId !== req.user!.id) return res.sendStatus(403);
+  // Public like the post itself, so anyone can see what an edit changed
+  app.get("/api/posts/:id/revisions", async (req, res) => {
+    try {
+      const post = await storage.getPost(Number(req.params.id));
+      if (!post) return res.sendStatus(404);
 
-    const data = {
-      ...req.body,
-      price: req.body.price ? Number(req.body.price) : null,
-      editedAt: new Date(), // Add editedAt timestamp
-    };
+      const revisions = await storage.getPostRevisions(post.id);
+      res.json(getPostVersions(post, revisions));
+    } catch (error) {
+      console.error("Error fetching post revisions:", error);
+      res.status(500).json({ error: "Failed to fetch post revisions" });
+    }
+  });
 
-    const parsed = insertPostSchema.partial().parse(data);
-    const updated = await storage.updatePost(post.id, parsed);
-    const user = await storage.getUser(updated.userId);
-    const postWithUser = { ...updated, username: user?.username };
+  app.post("/api/posts/:id/renew", requireAuth, async (req, res) => {
+    try {
+      const post = await storage.getPost(Number(req.params.id));
+      if (!post) return res.sendStatus(404);
+      if (post.userId !== req.user!.id) return res.sendStatus(403);
 
-    // Emit post update to all connected clients
-    io.emit("post-updated", postWithUser);
+      if (!openPostStatuses.includes(post.status) && post.status !== "expired") {
+        return res.status(400).json({ error: `Cannot renew a ${post.status} post` });
+      }
 
-    res.json(postWithUser);
+      const renewed = await storage.renewPost(post.id, getPostExpiryDate());
+      const postWithUser = { ...renewed, username: req.user!.username };
+
+      io.emit("post-updated", postWithUser);
+
+      res.json(postWithUser);
+    } catch (error) {
+      console.error("Error renewing post:", error);
+      res.status(500).json({ error: "Failed to renew post" });
+    }
   });
 
   app.delete("/api/posts/:id", requireAuth, async (req, res) => {
-    const post = await storage.getPost(Number(req.params.id));
-    if (!post) return res.sendStatus(404);
-    if (post.userId !== req.user!.id) return res.sendStatus(403);
+    try {
+      const post = await storage.getPost(Number(req.params.id));
+      if (!post) return res.sendStatus(404);
+      if (post.userId !== req.user!.id) return res.sendStatus(403);
 
-    await storage.deletePost(post.id);
+      await storage.deletePost(post.id);
 
-    // Emit post deletion to all connected clients
-    io.emit("post-deleted", post.id);
+      // Emit post deletion to all connected clients
+      io.emit("post-deleted", post.id);
 
-    res.sendStatus(200);
+      res.sendStatus(200);
+    } catch (error) {
+      console.error("Error deleting post:", error);
+      res.status(500).json({ error: "Failed to delete post" });
+    }
+  });
+
+  // Undo a delete within the grace window
+  app.post("/api/posts/:id/restore", requireAuth, async (req, res) => {
+    try {
+      const post = await storage.restorePost(Number(req.params.id), req.user!.id, getRestorableSince());
+      if (!post) {
+        return res.status(404).json({ error: "Nothing to restore" });
+      }
+
+      const postWithUser = { ...post, username: req.user!.username };
+
+      // A restored post reappears in feeds just like a new one
+      io.emit("new-post", postWithUser);
+
+      res.json(postWithUser);
+    } catch (error) {
+      console.error("Error restoring post:", error);
+      res.status(500).json({ error: "Failed to restore post" });
+    }
   });
 
   // Comments
@@ -170,30 +412,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const comments = await storage.getComments(postId);
       console.log(`[GET /api/posts/${postId}/comments] Retrieved ${comments.length} comments from storage`);
 
-      // Get usernames for each comment
-      console.log(`[GET /api/posts/${postId}/comments] Fetching usernames for comments`);
-      const commentsWithUsernames = await Promise.all(
-        comments.map(async (comment) => {
-          const user = await storage.getUser(comment.userId);
-          return { ...comment, username: user?.username };
-        })
-      );
-
-      console.log(`[GET /api/posts/${postId}/comments] Sending ${commentsWithUsernames.length} comments with usernames`);
-      console.log('Comments data:', commentsWithUsernames);
-
-      res.json(commentsWithUsernames);
+      res.json(comments);
     } catch (error) {
       console.error('[GET /api/posts/:id/comments] Error:', error);
       res.status(500).json({ error: "Failed to get comments" });
     }
   });
 
-  app.post("/api/posts/:id/comments", requireAuth, async (req, res) => {
+  app.post("/api/posts/:id/comments", requireAuth, requireVerifiedEmail, commentLimit, async (req, res) => {
     try {
       console.log(`[POST /api/posts/${req.params.id}/comments] Creating new comment...`);
-      const parsed = insertCommentSchema.parse(req.body);
-      const comment = await storage.createComment(req.user!.id, parsed);
+      const postId = Number(req.params.id);
+      const parsed = insertCommentSchema.safeParse({ ...req.body, postId });
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid comment" });
+      }
+      // Deleted posts stay in the database until purged, but take no new comments
+      if (!(await storage.getPost(postId))) {
+        return res.status(404).json({ error: "Post not found" });
+      }
+      if (parsed.data.parentId != null) {
+        const parent = await storage.getComment(parsed.data.parentId);
+        if (!parent || parent.postId !== postId) {
+          return res.status(400).json({ error: "Can only reply to a comment on the same post" });
+        }
+      }
+      const comment = await storage.createComment(req.user!.id, parsed.data);
       const user = await storage.getUser(comment.userId);
       const commentWithUser = { ...comment, username: user?.username };
 
@@ -254,6 +498,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/comments/:id/restore", requireAuth, async (req, res) => {
+    try {
+      const comment = await storage.restoreComment(Number(req.params.id), req.user!.id, getRestorableSince());
+      if (!comment) {
+        return res.status(404).json({ error: "Nothing to restore" });
+      }
+
+      const commentWithUser = { ...comment, username: req.user!.username };
+
+      io.to(`post-${comment.postId}`).emit("comment-restored", commentWithUser);
+
+      res.json(commentWithUser);
+    } catch (error) {
+      console.error('[POST /api/comments/:id/restore] Error:', error);
+      res.status(500).json({ error: "Failed to restore comment" });
+    }
+  });
+
   // Bookmarks
   app.post("/api/posts/:id/bookmark", requireAuth, async (req, res) => {
     try {
@@ -298,24 +560,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Add endpoint to get bookmarked posts for user profile
   app.get("/api/user/bookmarks", requireAuth, async (req, res) => {
     try {
-      const bookmarks = await storage.getBookmarks(req.user!.id);
-      const bookmarkedPosts = await Promise.all(
-        bookmarks.map(async (bookmark) => {
-          const post = await storage.getPost(bookmark.postId);
-          // Skip if post is deleted
-          if (!post) return null;
-          const user = await storage.getUser(post.userId);
-          return { ...post, username: user?.username };
-        })
-      );
-      // Filter out null values (deleted posts)
-      res.json(bookmarkedPosts.filter(Boolean));
+      res.json(await storage.getBookmarkedPosts(req.user!.id));
     } catch (error) {
       res.status(500).json({ error: "Failed to get bookmarked posts" });
     }
   });
 
 
+  // Get blocked users; before /api/users/:username, which would match it
+  app.get("/api/users/blocked", requireAuth, async (req, res) => {
+    try {
+      const blockedUsers = await storage.getBlockedUsers(req.user!.id);
+      res.json(blockedUsers);
+    } catch (error) {
+      console.error("Error getting blocked users:", error);
+      res.status(500).json({ error: "Failed to get blocked users" });
+    }
+  });
+
   // Add these routes after the existing user routes
   app.get("/api/users/:username", requireAuth, async (req, res) => {
     try {
@@ -323,7 +585,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      res.json(user);
+      res.json(toPublicUser(user));
     } catch (error) {
       res.status(500).json({ error: "Failed to get user" });
     }
@@ -335,42 +597,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
-      const posts = await storage.getUserPosts(user.id);
-      const postsWithUsernames = await Promise.all(
-        posts.map(async (post) => {
-          const postUser = await storage.getUser(post.userId);
-          return { ...post, username: postUser?.username };
-        })
-      );
-      res.json(postsWithUsernames);
+      res.json(await storage.getUserPosts(user.id));
     } catch (error) {
       res.status(500).json({ error: "Failed to get user posts" });
     }
   });
 
   // Chat endpoints
+  const isChatParticipant = async (chatId: number, userId: number) =>
+    (await storage.getChatParticipants(chatId)).some((participant) => participant.id === userId);
+
   app.get("/api/chats", requireAuth, async (req, res) => {
     try {
-      const chats = await storage.getUserChats(req.user!.id);
-      const chatsWithDetails = await Promise.all(
-        chats.map(async (chat) => {
-          const participants = await storage.getChatParticipants(chat.id);
-          const lastMessage = await storage.getLastMessage(chat.id);
-          return {
-            ...chat,
-            participants,
-            lastMessage,
-          };
-        })
-      );
-      res.json(chatsWithDetails);
+      res.json(await storage.getUserChats(req.user!.id));
     } catch (error) {
       res.status(500).json({ error: "Failed to get chats" });
     }
   });
 
   // Update the chat creation route with better error handling
-  app.post("/api/chats", requireAuth, async (req, res) => {
+  app.post("/api/chats", requireAuth, requireVerifiedEmail, chatLimit, async (req, res) => {
     try {
       console.log("Creating chat with data:", req.body);
       const parsed = insertChatSchema.parse(req.body);
@@ -411,22 +657,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/chats/:id/messages", requireAuth, async (req, res) => {
     try {
       const chatId = Number(req.params.id);
-      const messages = await storage.getChatMessages(chatId);
-      const messagesWithUsers = await Promise.all(
-        messages.map(async (message) => {
-          const user = await storage.getUser(message.userId);
-          return { ...message, user };
-        })
-      );
-      res.json(messagesWithUsers);
+      if (!(await isChatParticipant(chatId, req.user!.id))) {
+        return res.status(403).json({ error: "Not a participant in this chat" });
+      }
+      res.json(await storage.getChatMessages(chatId));
     } catch (error) {
       res.status(500).json({ error: "Failed to get messages" });
     }
   });
 
-  app.post("/api/chats/:id/messages", requireAuth, async (req, res) => {
+  app.post("/api/chats/:id/messages", requireAuth, messageLimit, async (req, res) => {
     try {
       const chatId = Number(req.params.id);
+      if (!(await isChatParticipant(chatId, req.user!.id))) {
+        return res.status(403).json({ error: "Not a participant in this chat" });
+      }
       const parsed = insertMessageSchema.parse({ ...req.body, chatId });
       const message = await storage.createMessage(req.user!.id, parsed);
       const user = await storage.getUser(message.userId);
@@ -434,7 +679,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update last message timestamp
       await storage.updateChatLastMessage(chatId);
 
-      const messageWithUser = { ...message, user };
+      const messageWithUser: MessageWithUser = { ...message, user: user && toPublicUser(user) };
 
       // Emit new message to all clients in this chat room
       io.to(`chat-${chatId}`).emit("new-message", messageWithUser);
@@ -476,6 +721,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/chats/:id/restore", requireAuth, async (req, res) => {
+    try {
+      const chatId = Number(req.params.id);
+
+      const participants = await storage.getChatParticipants(chatId);
+      if (!participants.some(p => p.id === req.user!.id)) {
+        return res.status(403).json({ error: "Not authorized to restore this chat" });
+      }
+
+      const chat = await storage.restoreChat(chatId, getRestorableSince());
+      if (!chat) {
+        return res.status(404).json({ error: "Nothing to restore" });
+      }
+
+      participants.forEach(participant => {
+        io.to(`user-${participant.id}`).emit("chat-restored", chatId);
+      });
+
+      res.json(chat);
+    } catch (error) {
+      console.error("Error restoring chat:", error);
+      res.status(500).json({ error: "Failed to restore chat" });
+    }
+  });
+
   // Block user
   app.post("/api/users/:id/block", requireAuth, async (req, res) => {
     try {
@@ -511,14 +781,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get blocked users
-  app.get("/api/users/blocked", requireAuth, async (req, res) => {
+  // Sessions
+  // Ends a session in the store and drops its live connections
+  const revokeSession = async (sid: string) => {
+    await new Promise<void>((resolve, reject) =>
+      storage.sessionStore.destroy(sid, (err) => (err ? reject(err) : resolve())),
+    );
+    io.to(getSessionRoom(sid)).emit("session-revoked");
+    io.in(getSessionRoom(sid)).disconnectSockets(true);
+  };
+
+  // Returns how many sessions were ended
+  const revokeOtherSessions = async (userId: number, currentSid: string) => {
+    const others = (await storage.getUserSessions(userId)).filter((session) => session.sid !== currentSid);
+    await Promise.all(others.map((session) => revokeSession(session.sid)));
+    return others.length;
+  };
+
+  app.get("/api/sessions", requireAuth, async (req, res) => {
     try {
-      const blockedUsers = await storage.getBlockedUsers(req.user!.id);
-      res.json(blockedUsers);
+      const sessions = (await storage.getUserSessions(req.user!.id))
+        // The stored copy of this session may not have this request's changes yet
+        .map((session) => (session.sid === req.sessionID ? { ...session, data: req.session } : session))
+        .map((session) => toActiveSession(session, req.sessionID))
+        // This session first, then the most recently used
+        .sort((a, b) => Number(b.current) - Number(a.current) || (b.lastSeenAt?.getTime() ?? 0) - (a.lastSeenAt?.getTime() ?? 0));
+      res.json(sessions);
     } catch (error) {
-      console.error("Error getting blocked users:", error);
-      res.status(500).json({ error: "Failed to get blocked users" });
+      console.error("Error getting sessions:", error);
+      res.status(500).json({ error: "Failed to get sessions" });
+    }
+  });
+
+  // Signs out every other session of the user
+  app.delete("/api/sessions", requireAuth, async (req, res) => {
+    try {
+      res.json({ revoked: await revokeOtherSessions(req.user!.id, req.sessionID) });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ error: "Failed to sign out other sessions" });
+    }
+  });
+
+  app.delete("/api/sessions/:id", requireAuth, async (req, res) => {
+    try {
+      const session = (await storage.getUserSessions(req.user!.id)).find(
+        (session) => getSessionPublicId(session.sid) === req.params.id,
+      );
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      if (session.sid === req.sessionID) {
+        return res.status(400).json({ error: "Log out to end the session you're using" });
+      }
+      await revokeSession(session.sid);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ error: "Failed to sign out session" });
     }
   });
 
@@ -528,25 +848,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   io.on("connection", (socket) => {
     console.log("Client connected");
+    // Clients reconnect after logging in or out, so this stays current
+    const { session, sessionID } = socket.request as Request;
+    const sessionUserId = session?.passport?.user;
+    if (sessionUserId) {
+      socket.join(getSessionRoom(sessionID));
+    }
 
     socket.on("user-online", (userId: number) => {
+      // Only for the user the connection is signed in as
+      if (userId !== sessionUserId) return;
       onlineUsers.set(userId, socket.id);
+      // Per-user room for notifications such as chat deletions and expiry warnings
+      socket.join(`user-${userId}`);
       // Broadcast initial online users to the newly connected client
       socket.emit("initial-online-users", Array.from(onlineUsers.keys()));
       // Broadcast this user's online status to others
       io.emit("user-status-change", { userId, status: "online" });
     });
 
-    socket.on("join-chat", (chatId: string) => {
-      socket.join(`chat-${chatId}`);
+    // Only participants may listen to a chat's messages
+    socket.on("join-chat", async (chatId: string) => {
+      try {
+        if (sessionUserId && (await isChatParticipant(Number(chatId), sessionUserId))) {
+          socket.join(`chat-${Number(chatId)}`);
+        }
+      } catch (error) {
+        console.error("Error joining chat room:", error);
+      }
     });
 
     socket.on("leave-chat", (chatId: string) => {
       socket.leave(`chat-${chatId}`);
     });
 
-    socket.on("join-post", (postId: string) => {
-      socket.join(`post-${postId}`);
+    // Comments are public, so anyone may watch a post that exists
+    socket.on("join-post", async (postId: string) => {
+      try {
+        if (await storage.getPost(Number(postId))) {
+          socket.join(`post-${Number(postId)}`);
+        }
+      } catch (error) {
+        console.error("Error joining post room:", error);
+      }
     });
 
     socket.on("leave-post", (postId: string) => {
@@ -566,5 +910,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  storage
+    .geocodeMissingPosts()
+    .then((count) => {
+      if (count > 0) console.log(`Geocoded ${count} posts`);
+    })
+    .catch((error) => console.error("Error geocoding posts:", error));
+
+  // Expire stale listings and warn owners shortly before
+  createExpiryScheduler({
+    storage,
+    onWarned: (posts) => {
+      posts.forEach((post) => io.to(`user-${post.userId}`).emit("post-expiring", post));
+    },
+    onExpired: (posts) => {
+      posts.forEach((post) => io.emit("post-updated", post));
+    },
+  }).start();
+
+  // Permanently remove what was deleted longer ago than the undo window
+  createPurgeScheduler({ storage }).start();
+  // In-memory posts vanish on restart while files stay on disk, so a
+  // collection run would delete images that a database still refers to
+  if (process.env.STORAGE !== "memory") {
+    createUploadGcScheduler({ storage }).start();
+  }
+
   return httpServer;
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { createHash } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import type { SessionData } from "express-session";
+import type { ActiveSession } from "@shared/schema";
+
+// How often a session's last-seen time is saved. Each save writes to the
+// session store, so it isn't done on every request.
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+declare module "express-session" {
+  interface SessionData {
+    passport?: { user?: number };
+    // Where a signed-in session is used from, shown in its owner's session list
+    device?: {
+      userAgent: string | null;
+      ip: string | null;
+      signedInAt: string;
+      lastSeenAt: string;
+    };
+  }
+}
+
+// A session as kept by the session store
+export interface StoredSession {
+  sid: string;
+  data: SessionData;
+}
+
+// Session ids let anyone holding the secret sign a cookie for them, so the
+// API identifies sessions by a hash instead
+export function getSessionPublicId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
+// Socket.IO room holding every connection made with a session
+export function getSessionRoom(sid: string): string {
+  return `session-${sid}`;
+}
+
+// Saves where the session is used from. Called on signing in too, since
+// trackSessionDevice runs before the login request has a user.
+export function recordSessionDevice(req: Request, now: Date = new Date()) {
+  req.session.device = {
+    userAgent: req.get("user-agent") ?? null,
+    ip: req.ip ?? null,
+    signedInAt: req.session.device?.signedInAt ?? now.toISOString(),
+    lastSeenAt: now.toISOString(),
+  };
+}
+
+// Keeps the device details of signed-in sessions current. Goes after
+// passport.session().
+export function trackSessionDevice(req: Request, _res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) return next();
+  const now = new Date();
+  const device = req.session.device;
+  if (!device || now.getTime() - new Date(device.lastSeenAt).getTime() > LAST_SEEN_INTERVAL_MS) {
+    recordSessionDevice(req, now);
+  }
+  next();
+}
+
+export function toActiveSession({ sid, data }: StoredSession, currentSid: string): ActiveSession {
+  return {
+    id: getSessionPublicId(sid),
+    userAgent: data.device?.userAgent ?? null,
+    ip: data.device?.ip ?? null,
+    signedInAt: data.device ? new Date(data.device.signedInAt) : null,
+    lastSeenAt: data.device ? new Date(data.device.lastSeenAt) : null,
+    current: sid === currentSid,
+  };
+}
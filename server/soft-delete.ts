@@ -0,0 +1,58 @@
+import type { CommentWithAuthor } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { createIntervalJob, systemClock, type Clock } from "./interval-job";
+
+const MINUTE_MS = 60 * 1000;
+
+export const softDeleteConfig = {
+  // How long deleted posts, comments and chats can be restored before they
+  // are purged for good
+  graceMinutes: Number(process.env.DELETE_GRACE_MINUTES) || 24 * 60,
+  intervalMs: Number(process.env.DELETE_PURGE_INTERVAL_MS) || 60 * 60 * 1000,
+};
+
+// Anything deleted at or after this time can still be restored
+export function getRestorableSince(now: Date = systemClock.now(), graceMinutes = softDeleteConfig.graceMinutes): Date {
+  return new Date(now.getTime() - graceMinutes * MINUTE_MS);
+}
+
+// A deleted comment stays in the thread as a "[deleted]" placeholder while
+// any reply beneath it is still live, so the thread keeps its shape. The
+// placeholder carries no content or author, not even the author's id.
+// Deleted comments with nothing live beneath them are dropped.
+export function maskDeletedComments(comments: CommentWithAuthor[]): CommentWithAuthor[] {
+  const hasLiveReply = (id: number): boolean =>
+    comments.some((reply) => reply.parentId === id && (reply.deletedAt === null || hasLiveReply(reply.id)));
+
+  return comments
+    .filter((comment) => comment.deletedAt === null || hasLiveReply(comment.id))
+    .map((comment) =>
+      comment.deletedAt === null ? comment : { ...comment, content: "", userId: null, username: undefined },
+    );
+}
+
+interface PurgeSchedulerOptions {
+  storage: Pick<IStorage, "purgeDeleted">;
+  clock?: Clock;
+  graceMinutes?: number;
+  intervalMs?: number;
+}
+
+export function createPurgeScheduler({
+  storage,
+  clock = systemClock,
+  graceMinutes = softDeleteConfig.graceMinutes,
+  intervalMs = softDeleteConfig.intervalMs,
+}: PurgeSchedulerOptions) {
+  async function run() {
+    const purged = await storage.purgeDeleted(getRestorableSince(clock.now(), graceMinutes));
+    const total = purged.posts + purged.comments + purged.chats;
+    if (total > 0) {
+      console.log(
+        `[purge] Removed ${purged.posts} posts, ${purged.comments} comments and ${purged.chats} chats deleted over ${graceMinutes} minutes ago`,
+      );
+    }
+  }
+
+  return createIntervalJob({ run, intervalMs, errorMessage: "Error purging deleted rows:" });
+}
@@ -0,0 +1,459 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { postFeedQuerySchema, postSearchQuerySchema, type InsertPost, type User } from "@shared/schema";
+import { DatabaseStorage, type IStorage } from "./storage";
+import { MemStorage } from "./mem-storage";
+import { hasTestDatabase, resetTestDatabase } from "./test-database";
+import { jobPost } from "./test-server";
+
+// Both storages must behave the same, so the in-memory one can stand in for
+// the database in development and in the API tests
+const implementations: [string, () => Promise<IStorage>][] = [["MemStorage", async () => new MemStorage()]];
+if (hasTestDatabase) {
+  implementations.push([
+    "DatabaseStorage",
+    async () => {
+      await resetTestDatabase();
+      return new DatabaseStorage();
+    },
+  ]);
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function roomPost(overrides: Partial<InsertPost> = {}): InsertPost {
+  return {
+    type: "room",
+    title: "Sunny room",
+    description: "Two rooms with a kitchen near Baneshwor",
+    location: "Kathmandu",
+    price: 12000,
+    images: [],
+    roomDetails: {
+      roomCount: 2,
+      furnished: "semi",
+      attachedBathroom: true,
+      waterIncluded: true,
+      electricityIncluded: false,
+      parking: false,
+      petsAllowed: false,
+      genderPreference: "any",
+      availableFrom: "2025-01-01",
+    },
+    ...overrides,
+  };
+}
+
+const byId = (a: number, b: number) => a - b;
+
+const feed = (query: Record<string, unknown> = {}) => postFeedQuerySchema.parse(query);
+
+describe.each(implementations)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+  let alice: User;
+  let bob: User;
+  const inADay = () => new Date(Date.now() + 24 * HOUR_MS);
+
+  beforeEach(async () => {
+    storage = await createStorage();
+    alice = await storage.createUser({ username: "alice", fullname: "Alice", password: "hash", email: "alice@example.com" });
+    bob = await storage.createUser({ username: "bob", fullname: "Bob", password: "hash", email: "bob@example.com" });
+  });
+
+  describe("users", () => {
+    it("finds users by id, username and verified email", async () => {
+      expect(await storage.getUser(alice.id)).toMatchObject({ username: "alice", emailVerifiedAt: null, totpSecret: null });
+      expect((await storage.getUserByUsername("bob"))?.id).toBe(bob.id);
+      expect(await storage.getUserByUsername("carol")).toBeUndefined();
+
+      expect(await storage.getUserByVerifiedEmail("alice@example.com")).toBeUndefined();
+      await storage.createEmailVerificationToken(alice.id, "token", inADay());
+      await storage.verifyEmail("token", new Date());
+      expect((await storage.getUserByVerifiedEmail("alice@example.com"))?.id).toBe(alice.id);
+    });
+
+    it("rejects a taken username", async () => {
+      await expect(storage.createUser({ username: "alice", fullname: "A", password: "x" })).rejects.toThrow();
+    });
+
+    it("lets only one account verify an email", async () => {
+      const now = new Date();
+      const squatter = await storage.createUser({ username: "alice2", fullname: "A", password: "x", email: "alice@example.com" });
+      await storage.createEmailVerificationToken(alice.id, "alice", inADay());
+      await storage.createEmailVerificationToken(squatter.id, "squatter", inADay());
+
+      expect((await storage.verifyEmail("alice", now))?.emailVerifiedAt?.getTime()).toBe(now.getTime());
+      expect(await storage.verifyEmail("squatter", now)).toMatchObject({ id: squatter.id, emailVerifiedAt: null });
+      expect((await storage.getUserByVerifiedEmail("alice@example.com"))?.id).toBe(alice.id);
+    });
+
+    it("resets a password once per token", async () => {
+      const now = new Date();
+      await storage.createPasswordResetToken(alice.id, "expired", new Date(now.getTime() - 1000));
+      await storage.createPasswordResetToken(alice.id, "first", inADay());
+      await storage.createPasswordResetToken(alice.id, "second", inADay());
+
+      expect(await storage.resetPassword("expired", "new", now)).toBeUndefined();
+      expect(await storage.resetPassword("first", "new", now)).toMatchObject({ id: alice.id, password: "new" });
+      // Using one link voids the others
+      expect(await storage.resetPassword("second", "newer", now)).toBeUndefined();
+    });
+
+    it("verifies an email with an unexpired token", async () => {
+      const now = new Date();
+      await storage.createEmailVerificationToken(bob.id, "token", inADay());
+      const verified = await storage.verifyEmail("token", now);
+      expect(verified?.emailVerifiedAt?.getTime()).toBe(now.getTime());
+      expect(await storage.verifyEmail("token", now)).toBeUndefined();
+    });
+
+    it("sets an unverified email and drops links sent to the old one", async () => {
+      const now = new Date();
+      await storage.createEmailVerificationToken(bob.id, "old", inADay());
+      await storage.verifyEmail("old", now);
+      await storage.createEmailVerificationToken(bob.id, "pending", inADay());
+
+      const user = await storage.setEmail(bob.id, "bob@example.org", now);
+      expect(user).toMatchObject({ email: "bob@example.org", emailVerifiedAt: null });
+      expect(await storage.getUserByVerifiedEmail("bob@example.org")).toBeUndefined();
+      expect(await storage.verifyEmail("pending", now)).toBeUndefined();
+    });
+
+    it("accepts each two-factor code once", async () => {
+      const user = await storage.enableTwoFactor(alice.id, "SECRET", ["a", "b"], new Date());
+      expect(user).toMatchObject({ totpSecret: "SECRET", totpLastUsedStep: null });
+
+      expect(await storage.recordTotpStep(alice.id, 10)).toBe(true);
+      expect(await storage.recordTotpStep(alice.id, 10)).toBe(false);
+      expect(await storage.recordTotpStep(alice.id, 9)).toBe(false);
+      expect(await storage.recordTotpStep(alice.id, 11)).toBe(true);
+
+      expect(await storage.useRecoveryCode(alice.id, "a", new Date())).toBe(true);
+      expect(await storage.useRecoveryCode(alice.id, "a", new Date())).toBe(false);
+      expect(await storage.useRecoveryCode(bob.id, "b", new Date())).toBe(false);
+      expect(await storage.countRecoveryCodes(alice.id)).toBe(1);
+
+      await storage.replaceRecoveryCodes(alice.id, ["c", "d", "e"]);
+      expect(await storage.countRecoveryCodes(alice.id)).toBe(3);
+
+      const disabled = await storage.disableTwoFactor(alice.id);
+      expect(disabled).toMatchObject({ totpSecret: null, totpEnabledAt: null });
+      expect(await storage.countRecoveryCodes(alice.id)).toBe(0);
+    });
+  });
+
+  describe("posts", () => {
+    it("creates, edits and soft-deletes a post", async () => {
+      const post = await storage.createPost(alice.id, jobPost(), inADay());
+      expect(post).toMatchObject({ userId: alice.id, status: "available", deletedAt: null, editedAt: null });
+      // Known places are geocoded from the bundled gazetteer
+      expect(post.latitude).not.toBeNull();
+
+      const updated = await storage.updatePost(post.id, { title: "Head cook" });
+      expect(updated.title).toBe("Head cook");
+      expect(updated.editedAt).not.toBeNull();
+      const revisions = await storage.getPostRevisions(post.id);
+      expect(revisions.map((revision) => revision.title)).toEqual(["Kitchen helper"]);
+
+      await storage.deletePost(post.id);
+      expect(await storage.getPost(post.id)).toBeUndefined();
+      expect((await storage.getPostsPage(feed())).posts).toEqual([]);
+
+      const deletedSince = new Date(Date.now() - HOUR_MS);
+      expect(await storage.restorePost(post.id, bob.id, deletedSince)).toBeUndefined();
+      expect(await storage.restorePost(post.id, alice.id, deletedSince)).toMatchObject({ id: post.id, deletedAt: null });
+      expect(await storage.getPost(post.id)).toBeDefined();
+    });
+
+    it("pages through the feed newest first", async () => {
+      const ids: number[] = [];
+      for (let i = 0; i < 3; i++) ids.push((await storage.createPost(alice.id, jobPost(), inADay())).id);
+
+      const first = await storage.getPostsPage(feed({ limit: 2 }));
+      expect(first.posts.map((post) => post.id)).toEqual([ids[2], ids[1]]);
+      expect(first.posts[0].username).toBe("alice");
+      expect(first.nextCursor).not.toBeNull();
+
+      const second = await storage.getPostsPage(feed({ limit: 2, cursor: first.nextCursor }));
+      expect(second.posts.map((post) => post.id)).toEqual([ids[0]]);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it("filters the feed by type, price and room details", async () => {
+      const job = await storage.createPost(alice.id, jobPost(), inADay());
+      const cheap = await storage.createPost(alice.id, roomPost({ price: 5000 }), inADay());
+      const later = await storage.createPost(
+        bob.id,
+        roomPost({ roomDetails: { ...roomPost().roomDetails!, availableFrom: "2025-06-01", parking: true } }),
+        inADay(),
+      );
+      const ids = async (query: Record<string, unknown>) =>
+        (await storage.getPostsPage(feed(query))).posts.map((post) => post.id).sort(byId);
+
+      expect(await ids({ type: "job" })).toEqual([job.id]);
+      expect(await ids({ type: "room", maxPrice: "8000" })).toEqual([cheap.id]);
+      expect(await ids({ parking: "true" })).toEqual([later.id]);
+      expect(await ids({ availableBy: "2025-03-01" })).toEqual([cheap.id]);
+    });
+
+    it("matches the location filter literally", async () => {
+      const percent = await storage.createPost(alice.id, jobPost({ location: "Ward 10%, Kathmandu" }), inADay());
+      await storage.createPost(alice.id, jobPost({ location: "Lalitpur" }), inADay());
+      const ids = async (location: string) =>
+        (await storage.getPostsPage(feed({ location }))).posts.map((post) => post.id);
+
+      expect(await ids("10%")).toEqual([percent.id]);
+      expect(await ids("%")).toEqual([percent.id]);
+      expect(await ids("_alitpur")).toEqual([]);
+    });
+
+    it("rejects a cursor from another sort order", async () => {
+      for (let i = 0; i < 2; i++) await storage.createPost(alice.id, jobPost({ price: 1000 }), inADay());
+      const { nextCursor } = await storage.getPostsPage(feed({ limit: 1 }));
+
+      await expect(storage.getPostsPage(feed({ limit: 1, sort: "price_asc", cursor: nextCursor }))).rejects.toThrow(
+        "Invalid cursor",
+      );
+      const byPrice = await storage.getPostsPage(feed({ limit: 1, sort: "price_asc" }));
+      await expect(storage.getPostsPage(feed({ limit: 1, cursor: byPrice.nextCursor }))).rejects.toThrow("Invalid cursor");
+      const next = await storage.getPostsPage(feed({ limit: 1, sort: "price_asc", cursor: byPrice.nextCursor }));
+      expect(next.posts).toHaveLength(1);
+    });
+
+    it("hides jobs past their application deadline", async () => {
+      const withDeadline = (applicationDeadline: string | null) =>
+        jobPost({ jobDetails: { ...jobPost().jobDetails!, applicationDeadline } });
+      const open = await storage.createPost(alice.id, withDeadline("2999-12-31"), inADay());
+      const closed = await storage.createPost(alice.id, withDeadline("2000-01-01"), inADay());
+      const none = await storage.createPost(alice.id, withDeadline(null), inADay());
+
+      const ids = async (query: Record<string, unknown>) =>
+        (await storage.getPostsPage(feed(query))).posts.map((post) => post.id).sort(byId);
+      expect(await ids({})).toEqual([open.id, none.id].sort(byId));
+      expect(await ids({ includeExpired: "true" })).toEqual([open.id, closed.id, none.id].sort(byId));
+    });
+
+    it("doesn't fail on impossible dates saved before they were validated", async () => {
+      await storage.createPost(
+        alice.id,
+        jobPost({ jobDetails: { ...jobPost().jobDetails!, applicationDeadline: "2999-02-30" } }),
+        inADay(),
+      );
+      await storage.createPost(
+        alice.id,
+        roomPost({ roomDetails: { ...roomPost().roomDetails!, availableFrom: "2025-02-30" } }),
+        inADay(),
+      );
+
+      expect((await storage.getPostsPage(feed())).posts).toHaveLength(2);
+      expect((await storage.getPostsPage(feed({ availableBy: "2025-03-01" }))).posts).toHaveLength(1);
+      expect((await storage.searchPosts(postSearchQuerySchema.parse({ q: "kathmandu" }))).posts).toHaveLength(2);
+    });
+
+    it("searches by word prefix", async () => {
+      const kitchen = await storage.createPost(alice.id, jobPost(), inADay());
+      await storage.createPost(alice.id, roomPost(), inADay());
+
+      const results = await storage.searchPosts(postSearchQuerySchema.parse({ q: "kitch helper" }));
+      expect(results.posts.map((post) => post.id)).toEqual([kitchen.id]);
+      expect(results.posts[0].username).toBe("alice");
+    });
+
+    it("ranks title matches above location, then description, and pages through them", async () => {
+      const inDescription = await storage.createPost(
+        alice.id,
+        roomPost({ title: "Flat with a view", description: "Ten minutes from Baneshwor chowk" }),
+        inADay(),
+      );
+      const inLocation = await storage.createPost(
+        alice.id,
+        roomPost({ title: "Quiet flat", location: "Baneshwor, Kathmandu" }),
+        inADay(),
+      );
+      const inTitle = await storage.createPost(alice.id, roomPost({ title: "Baneshwor room" }), inADay());
+      const search = (query: Record<string, unknown>) => storage.searchPosts(postSearchQuerySchema.parse(query));
+
+      const first = await search({ q: "banesh", limit: 2 });
+      expect(first.posts.map((post) => post.id)).toEqual([inTitle.id, inLocation.id]);
+      expect(first.posts[0].rank).toBeGreaterThan(first.posts[1].rank);
+      expect(first.posts[0].highlights.title).toBe("<mark>Baneshwor</mark> room");
+      expect(first.posts[1].highlights.location).toBe("<mark>Baneshwor</mark>, Kathmandu");
+      expect(first.nextCursor).not.toBeNull();
+
+      const second = await search({ q: "banesh", limit: 2, cursor: first.nextCursor });
+      expect(second.posts.map((post) => post.id)).toEqual([inDescription.id]);
+      expect(second.posts[0].highlights.description).toContain("<mark>Baneshwor</mark>");
+      expect(second.nextCursor).toBeNull();
+
+      expect((await search({ q: "banesh", type: "job" })).posts).toEqual([]);
+    });
+
+    it("warns about and expires stale posts", async () => {
+      const now = new Date();
+      const soon = await storage.createPost(alice.id, jobPost(), new Date(now.getTime() + HOUR_MS));
+      const stale = await storage.createPost(alice.id, jobPost(), new Date(now.getTime() - HOUR_MS));
+      await storage.createPost(alice.id, jobPost(), new Date(now.getTime() + 48 * HOUR_MS));
+
+      const warned = await storage.warnExpiringPosts(new Date(now.getTime() + 2 * HOUR_MS), now);
+      expect(warned.map((post) => post.id)).toEqual([soon.id]);
+      expect(await storage.warnExpiringPosts(new Date(now.getTime() + 2 * HOUR_MS), now)).toEqual([]);
+
+      const expired = await storage.expirePosts(now);
+      expect(expired.map((post) => post.id)).toEqual([stale.id]);
+      expect((await storage.getPost(stale.id))?.status).toBe("expired");
+      expect((await storage.getPostsPage(feed())).posts.map((post) => post.id)).not.toContain(stale.id);
+
+      const renewed = await storage.renewPost(stale.id, inADay());
+      expect(renewed).toMatchObject({ status: "available", expiryWarnedAt: null });
+    });
+
+    it("replaces image URLs in posts", async () => {
+      const post = await storage.createPost(alice.id, roomPost({ images: ["/uploads/a.jpg", "/uploads/b.jpg"] }), inADay());
+      expect(await storage.replacePostImage("/uploads/a.jpg", "/uploads/a-full.webp")).toBe(1);
+      expect((await storage.getPost(post.id))?.images).toEqual(["/uploads/a-full.webp", "/uploads/b.jpg"]);
+      expect((await storage.getPostImageUrls()).sort()).toEqual(["/uploads/a-full.webp", "/uploads/b.jpg"]);
+    });
+  });
+
+  describe("comments", () => {
+    it("keeps a deleted comment as a placeholder while it has live replies", async () => {
+      const post = await storage.createPost(alice.id, jobPost(), inADay());
+      const question = await storage.createComment(bob.id, { postId: post.id, content: "Still open?" });
+      const answer = await storage.createComment(alice.id, { postId: post.id, parentId: question.id, content: "Yes" });
+      const aside = await storage.createComment(bob.id, { postId: post.id, content: "Thanks" });
+
+      await storage.deleteComment(question.id);
+      await storage.deleteComment(aside.id);
+      expect(await storage.getComment(question.id)).toBeUndefined();
+
+      const thread = await storage.getComments(post.id);
+      expect(thread.map((comment) => comment.id)).toEqual([question.id, answer.id]);
+      expect(thread[0]).toMatchObject({ content: "", userId: null, username: undefined });
+      expect(thread[1]).toMatchObject({ content: "Yes", username: "alice" });
+
+      const deletedSince = new Date(Date.now() - HOUR_MS);
+      expect(await storage.restoreComment(aside.id, alice.id, deletedSince)).toBeUndefined();
+      expect(await storage.restoreComment(aside.id, bob.id, deletedSince)).toMatchObject({ content: "Thanks" });
+    });
+
+    it("updates the content and edit time", async () => {
+      const post = await storage.createPost(alice.id, jobPost(), inADay());
+      const comment = await storage.createComment(bob.id, { postId: post.id, content: "Frist" });
+      const edited = await storage.updateComment(comment.id, "First");
+      expect(edited).toMatchObject({ content: "First" });
+      expect(edited.editedAt).not.toBeNull();
+    });
+  });
+
+  describe("bookmarks", () => {
+    it("toggles bookmarks and leaves out deleted posts", async () => {
+      const kept = await storage.createPost(alice.id, jobPost(), inADay());
+      const gone = await storage.createPost(alice.id, jobPost(), inADay());
+
+      expect(await storage.toggleBookmark(bob.id, kept.id)).toBe(true);
+      expect(await storage.toggleBookmark(bob.id, gone.id)).toBe(true);
+      expect(await storage.isBookmarked(bob.id, kept.id)).toBe(true);
+      await storage.deletePost(gone.id);
+
+      const posts = await storage.getBookmarkedPosts(bob.id);
+      expect(posts.map((post) => post.id)).toEqual([kept.id]);
+      expect(posts[0].username).toBe("alice");
+
+      expect(await storage.toggleBookmark(bob.id, kept.id)).toBe(false);
+      expect(await storage.isBookmarked(bob.id, kept.id)).toBe(false);
+      expect(await storage.getBookmarks(bob.id)).toHaveLength(1);
+    });
+
+    it("toggles only the user's own bookmark", async () => {
+      const post = await storage.createPost(alice.id, jobPost(), inADay());
+      await storage.toggleBookmark(alice.id, post.id);
+
+      expect(await storage.toggleBookmark(bob.id, post.id)).toBe(true);
+      expect(await storage.toggleBookmark(bob.id, post.id)).toBe(false);
+      expect((await storage.getBookmarkedPosts(alice.id)).map((saved) => saved.id)).toEqual([post.id]);
+    });
+
+    it("checks each user's bookmarks separately", async () => {
+      const post = await storage.createPost(alice.id, jobPost(), inADay());
+      await storage.toggleBookmark(alice.id, post.id);
+
+      expect(await storage.isBookmarked(alice.id, post.id)).toBe(true);
+      expect(await storage.isBookmarked(bob.id, post.id)).toBe(false);
+    });
+  });
+
+  describe("chats", () => {
+    it("lists chats with participants and the latest message", async () => {
+      const chat = await storage.createChat([alice.id, bob.id]);
+      await storage.createMessage(alice.id, { chatId: chat.id, content: "Hi" });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await storage.createMessage(bob.id, { chatId: chat.id, content: "Hello" });
+      await storage.updateChatLastMessage(chat.id);
+
+      const [listed] = await storage.getUserChats(bob.id);
+      expect(listed.id).toBe(chat.id);
+      expect(listed.participants.map((user) => user.username).sort()).toEqual(["alice", "bob"]);
+      expect(listed.participants[0]).not.toHaveProperty("password");
+      expect(listed.lastMessage?.content).toBe("Hello");
+
+      const messages = await storage.getChatMessages(chat.id);
+      expect(messages.map((message) => [message.content, message.user?.username])).toEqual([
+        ["Hi", "alice"],
+        ["Hello", "bob"],
+      ]);
+      expect((await storage.getChatParticipants(chat.id)).map((user) => user.id).sort(byId)).toEqual(
+        [alice.id, bob.id].sort(byId),
+      );
+    });
+
+    it("hides a deleted chat until it is restored", async () => {
+      const chat = await storage.createChat([alice.id, bob.id]);
+      await storage.deleteChat(chat.id);
+      expect(await storage.getUserChats(alice.id)).toEqual([]);
+
+      expect(await storage.restoreChat(chat.id, new Date(Date.now() + HOUR_MS))).toBeUndefined();
+      expect(await storage.restoreChat(chat.id, new Date(Date.now() - HOUR_MS))).toMatchObject({ deletedAt: null });
+      expect(await storage.getUserChats(alice.id)).toHaveLength(1);
+    });
+  });
+
+  it("purges what was deleted before the cutoff", async () => {
+    const post = await storage.createPost(alice.id, jobPost(), inADay());
+    const other = await storage.createPost(alice.id, jobPost(), inADay());
+    const parent = await storage.createComment(bob.id, { postId: other.id, content: "Parent" });
+    await storage.createComment(alice.id, { postId: other.id, parentId: parent.id, content: "Reply" });
+    const chat = await storage.createChat([alice.id, bob.id]);
+
+    await storage.deletePost(post.id);
+    await storage.deleteComment(parent.id);
+    await storage.deleteChat(chat.id);
+
+    expect(await storage.purgeDeleted(new Date(Date.now() - HOUR_MS))).toEqual({ posts: 0, comments: 0, chats: 0 });
+    // The deleted comment still has a live reply, so it stays
+    expect(await storage.purgeDeleted(new Date(Date.now() + HOUR_MS))).toEqual({ posts: 1, comments: 0, chats: 1 });
+    expect(await storage.restorePost(post.id, alice.id, new Date(0))).toBeUndefined();
+    expect(await storage.getComments(other.id)).toHaveLength(2);
+  });
+
+  it("blocks and unblocks users", async () => {
+    await storage.blockUser(alice.id, bob.id);
+    await storage.blockUser(alice.id, bob.id);
+    expect(await storage.isUserBlocked(alice.id, bob.id)).toBe(true);
+    expect(await storage.isUserBlocked(bob.id, alice.id)).toBe(false);
+    expect(await storage.getBlockedUsers(alice.id)).toEqual([{ id: bob.id, username: "bob", fullname: "Bob" }]);
+
+    await storage.unblockUser(alice.id, bob.id);
+    expect(await storage.getBlockedUsers(alice.id)).toEqual([]);
+  });
+
+  it("keeps each user's blocks separate", async () => {
+    const carol = await storage.createUser({ username: "carol", fullname: "Carol", password: "hash", email: "carol@example.com" });
+    await storage.blockUser(alice.id, carol.id);
+    await storage.blockUser(bob.id, carol.id);
+    expect(await storage.isUserBlocked(bob.id, alice.id)).toBe(false);
+
+    await storage.unblockUser(bob.id, carol.id);
+    expect(await storage.isUserBlocked(bob.id, carol.id)).toBe(false);
+    expect(await storage.isUserBlocked(alice.id, carol.id)).toBe(true);
+    expect(await storage.getBlockedUsers(alice.id)).toEqual([{ id: carol.id, username: "carol", fullname: "Carol" }]);
+  });
+});
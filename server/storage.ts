@@ -1,6 +1,12 @@
-import { users, posts, comments, bookmarks, chats, chatParticipants, messages, userBlocks } from "@shared/schema";
+import { users, posts, comments, bookmarks, chats, chatParticipants, messages, userBlocks, postRevisions, commentRevisions, passwordResetTokens, emailVerificationTokens, recoveryCodes, openPostStatuses } from "@shared/schema";
 import { db } from "./db";
-import { eq, sql } from "drizzle-orm";
+import { geocodeLocation } from "./geocoder";
+import { decodeFeedCursor, encodeFeedCursor } from "./feed-cursor";
+import { maskDeletedComments } from "./soft-delete";
+import { toCommentRevision, toPostRevision } from "./revisions";
+import { MemStorage } from "./mem-storage";
+import { and, desc, eq, getTableColumns, gt, gte, ilike, inArray, isNotNull, isNull, lt, ne, lte, or, sql, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import {
   type User,
   type Post,
@@ -14,44 +20,125 @@ import {
   type ChatParticipant,
   type InsertChat,
   type InsertMessage,
+  type PostFeedQuery,
+  type PostFeedPage,
+  type PostSearchQuery,
+  type PostSearchResult,
+  type RoomDetails,
+  type PostStatus,
+  type PublicUser,
+  type PostWithAuthor,
+  type CommentWithAuthor,
+  type MessageWithUser,
+  type ChatWithDetails,
+  type PostRevision,
 } from "@shared/schema";
-import session from "express-session";
+import session, { type SessionData } from "express-session";
+import type { StoredSession } from "./sessions";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
 
 const PostgresSessionStore = connectPg(session);
 
+// Every post column except the search document, which is only useful to SQL
+const { searchVector: _searchVector, ...postColumns } = getTableColumns(posts);
+
+// Account fields that are safe to send to other users
+const publicUserColumns = {
+  id: users.id,
+  username: users.username,
+  fullname: users.fullname,
+};
+
+// Rows joined to their author with a left join carry a null username when the
+// author is gone; the API has always sent that as a missing field
+function withAuthor<T extends { username: string | null }>(row: T): T & { username?: string } {
+  return { ...row, username: row.username ?? undefined };
+}
+
+// False only for job posts whose application deadline has passed. Compared as
+// YYYY-MM-DD text, which orders like the dates, so a malformed stored value
+// can't fail the whole query the way a ::date cast would.
+const isWithinDeadline = sql`coalesce(${posts.jobDetails}->>'applicationDeadline' >= to_char(current_date, 'YYYY-MM-DD'), true)`;
+
+const EARTH_RADIUS_KM = 6371;
+
+// Haversine distance in kilometres from a point to each post's coordinates
+function distanceKmFrom(latitude: number, longitude: number): SQL {
+  return sql`${2 * EARTH_RADIUS_KM} * asin(sqrt(
+    power(sin(radians(${posts.latitude} - ${latitude}::float8) / 2), 2) +
+    cos(radians(${latitude}::float8)) * cos(radians(${posts.latitude})) *
+    power(sin(radians(${posts.longitude} - ${longitude}::float8) / 2), 2)
+  ))`;
+}
+
+const HIGHLIGHT_OPTIONS = "StartSel=<mark>, StopSel=</mark>, HighlightAll=true";
+const SNIPPET_OPTIONS = "StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10";
+
+// So % and _ typed into a filter match themselves rather than anything
+function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, "\\$&");
+}
+
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  // Unverified addresses may be shared, so only a verified one finds its account
+  getUserByVerifiedEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  createPost(userId: number, post: InsertPost): Promise<Post>;
+  createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<void>;
+  resetPassword(tokenHash: string, password: string, now: Date): Promise<User | undefined>;
+  createEmailVerificationToken(userId: number, tokenHash: string, expiresAt: Date): Promise<void>;
+  verifyEmail(tokenHash: string, now: Date): Promise<User | undefined>;
+  setEmail(userId: number, email: string, now: Date): Promise<User>;
+  enableTwoFactor(userId: number, secret: string, recoveryCodeHashes: string[], now: Date): Promise<User>;
+  disableTwoFactor(userId: number): Promise<User>;
+  recordTotpStep(userId: number, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: number, codeHash: string, now: Date): Promise<boolean>;
+  countRecoveryCodes(userId: number): Promise<number>;
+  createPost(userId: number, post: InsertPost, expiresAt: Date): Promise<Post>;
   getPost(id: number): Promise<Post | undefined>;
-  getPosts(): Promise<Post[]>;
+  getPostsPage(query: PostFeedQuery): Promise<PostFeedPage>;
+  searchPosts(query: PostSearchQuery): Promise<PostFeedPage<PostSearchResult>>;
   updatePost(id: number, post: Partial<InsertPost>): Promise<Post>;
+  getPostRevisions(postId: number): Promise<PostRevision[]>;
+  updatePostStatus(id: number, status: PostStatus): Promise<Post>;
+  renewPost(id: number, expiresAt: Date): Promise<Post>;
+  warnExpiringPosts(expiringBefore: Date, now: Date): Promise<Post[]>;
+  expirePosts(now: Date): Promise<Post[]>;
+  geocodeMissingPosts(): Promise<number>;
+  replacePostImage(from: string, to: string): Promise<number>;
+  getPostImageUrls(): Promise<string[]>;
   deletePost(id: number): Promise<void>;
+  restorePost(id: number, userId: number, deletedSince: Date): Promise<Post | undefined>;
   createComment(userId: number, comment: InsertComment): Promise<Comment>;
   getComment(id: number): Promise<Comment | undefined>;
-  getComments(postId: number): Promise<Comment[]>;
+  getComments(postId: number): Promise<CommentWithAuthor[]>;
   updateComment(id: number, content: string): Promise<Comment>;
   deleteComment(id: number): Promise<void>;
+  restoreComment(id: number, userId: number, deletedSince: Date): Promise<Comment | undefined>;
   toggleBookmark(userId: number, postId: number): Promise<boolean>;
   getBookmarks(userId: number): Promise<Bookmark[]>;
+  getBookmarkedPosts(userId: number): Promise<PostWithAuthor[]>;
   isBookmarked(userId: number, postId: number): Promise<boolean>;
-  getUserChats(userId: number): Promise<Chat[]>;
-  getChatParticipants(chatId: number): Promise<User[]>;
-  getLastMessage(chatId: number): Promise<{ content: string; createdAt: string } | undefined>;
+  getUserChats(userId: number): Promise<ChatWithDetails[]>;
+  getChatParticipants(chatId: number): Promise<PublicUser[]>;
   createChat(participantIds: number[]): Promise<Chat>;
-  getChatMessages(chatId: number): Promise<Message[]>;
+  getChatMessages(chatId: number): Promise<MessageWithUser[]>;
   createMessage(userId: number, message: InsertMessage): Promise<Message>;
   updateChatLastMessage(chatId: number): Promise<void>;
   sessionStore: session.Store;
-  getUserPosts(userId: number): Promise<Post[]>;
+  // Unexpired sessions signed in as the user
+  getUserSessions(userId: number): Promise<StoredSession[]>;
+  getUserPosts(userId: number): Promise<PostWithAuthor[]>;
   deleteChat(chatId: number): Promise<void>;
+  restoreChat(chatId: number, deletedSince: Date): Promise<Chat | undefined>;
+  purgeDeleted(deletedBefore: Date): Promise<{ posts: number; comments: number; chats: number }>;
   blockUser(userId: number, blockedUserId: number): Promise<void>;
   unblockUser(userId: number, blockedUserId: number): Promise<void>;
   isUserBlocked(userId: number, blockedUserId: number): Promise<boolean>;
-  getBlockedUsers(userId: number): Promise<User[]>;
+  getBlockedUsers(userId: number): Promise<PublicUser[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -64,6 +151,14 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  // The table connect-pg-simple keeps sessions in, which isn't part of the schema
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const { rows } = await db.execute<{ sid: string; sess: SessionData }>(
+      sql`select sid, sess from "session" where sess->'passport'->>'user' = ${String(userId)} and expire > now()`,
+    );
+    return rows.map((row) => ({ sid: row.sid, data: row.sess }));
+  }
+
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
     return user;
@@ -77,39 +172,473 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByVerifiedEmail(email: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.email, email), isNotNull(users.emailVerifiedAt)));
+    return user;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db.insert(users).values(insertUser).returning();
     return user;
   }
 
-  async createPost(userId: number, post: InsertPost): Promise<Post> {
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<void> {
+    await db.insert(passwordResetTokens).values({ userId, tokenHash, expiresAt });
+  }
+
+  // Uses up the token and sets the new password hash together. Every other
+  // outstanding token of the user stops working as well. Returns undefined
+  // when the token is unknown, used or expired.
+  async resetPassword(tokenHash: string, password: string, now: Date): Promise<User | undefined> {
+    return db.transaction(async (tx) => {
+      const [token] = await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: now })
+        .where(
+          and(
+            eq(passwordResetTokens.tokenHash, tokenHash),
+            isNull(passwordResetTokens.usedAt),
+            gt(passwordResetTokens.expiresAt, now),
+          ),
+        )
+        .returning();
+      if (!token) return undefined;
+
+      await tx
+        .update(passwordResetTokens)
+        .set({ usedAt: now })
+        .where(and(eq(passwordResetTokens.userId, token.userId), isNull(passwordResetTokens.usedAt)));
+      const [user] = await tx.update(users).set({ password }).where(eq(users.id, token.userId)).returning();
+      return user;
+    });
+  }
+
+  async createEmailVerificationToken(userId: number, tokenHash: string, expiresAt: Date): Promise<void> {
+    await db.insert(emailVerificationTokens).values({ userId, tokenHash, expiresAt });
+  }
+
+  // Like resetPassword, but marks the email verified. Returns undefined when
+  // the token is unknown, used or expired, and the user still unverified when
+  // another account verified the same address first.
+  async verifyEmail(tokenHash: string, now: Date): Promise<User | undefined> {
+    return db.transaction(async (tx) => {
+      const [token] = await tx
+        .update(emailVerificationTokens)
+        .set({ usedAt: now })
+        .where(
+          and(
+            eq(emailVerificationTokens.tokenHash, tokenHash),
+            isNull(emailVerificationTokens.usedAt),
+            gt(emailVerificationTokens.expiresAt, now),
+          ),
+        )
+        .returning();
+      if (!token) return undefined;
+
+      await tx
+        .update(emailVerificationTokens)
+        .set({ usedAt: now })
+        .where(and(eq(emailVerificationTokens.userId, token.userId), isNull(emailVerificationTokens.usedAt)));
+      const [user] = await tx.select().from(users).where(eq(users.id, token.userId));
+      const [owner] = user.email
+        ? await tx
+            .select({ id: users.id })
+            .from(users)
+            .where(and(eq(users.email, user.email), isNotNull(users.emailVerifiedAt), ne(users.id, user.id)))
+        : [];
+      if (owner) return user;
+      const [verified] = await tx
+        .update(users)
+        .set({ emailVerifiedAt: now })
+        .where(eq(users.id, token.userId))
+        .returning();
+      return verified;
+    });
+  }
+
+  // Sets an unverified email address. Links already sent to the old address
+  // stop working, so they can't verify the new one.
+  async setEmail(userId: number, email: string, now: Date): Promise<User> {
+    return db.transaction(async (tx) => {
+      await tx
+        .update(emailVerificationTokens)
+        .set({ usedAt: now })
+        .where(and(eq(emailVerificationTokens.userId, userId), isNull(emailVerificationTokens.usedAt)));
+      const [user] = await tx
+        .update(users)
+        .set({ email, emailVerifiedAt: null })
+        .where(eq(users.id, userId))
+        .returning();
+      return user;
+    });
+  }
+
+  // Saves the confirmed secret and a fresh set of recovery codes together
+  async enableTwoFactor(userId: number, secret: string, recoveryCodeHashes: string[], now: Date): Promise<User> {
+    return db.transaction(async (tx) => {
+      const [user] = await tx
+        .update(users)
+        .set({ totpSecret: secret, totpEnabledAt: now, totpLastUsedStep: null })
+        .where(eq(users.id, userId))
+        .returning();
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(recoveryCodeHashes.map((codeHash) => ({ userId, codeHash })));
+      return user;
+    });
+  }
+
+  async disableTwoFactor(userId: number): Promise<User> {
+    return db.transaction(async (tx) => {
+      const [user] = await tx
+        .update(users)
+        .set({ totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null })
+        .where(eq(users.id, userId))
+        .returning();
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      return user;
+    });
+  }
+
+  // Accepts each time step once. False when a code from this step or a later
+  // one was already used, even by a concurrent request.
+  async recordTotpStep(userId: number, step: number): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ totpLastUsedStep: step })
+      .where(and(eq(users.id, userId), or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+    });
+  }
+
+  // False when the code is unknown or already used
+  async useRecoveryCode(userId: number, codeHash: string, now: Date): Promise<boolean> {
+    const used = await db
+      .update(recoveryCodes)
+      .set({ usedAt: now })
+      .where(and(eq(recoveryCodes.userId, userId), eq(recoveryCodes.codeHash, codeHash), isNull(recoveryCodes.usedAt)))
+      .returning({ id: recoveryCodes.id });
+    return used.length > 0;
+  }
+
+  // Codes not used yet
+  async countRecoveryCodes(userId: number): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return row.count;
+  }
+
+  async createPost(userId: number, post: InsertPost, expiresAt: Date): Promise<Post> {
     const [newPost] = await db
       .insert(posts)
-      .values({ ...post, userId, images: post.images || null })
-      .returning();
+      .values({ ...post, ...geocodeLocation(post.location), userId, images: post.images || null, expiresAt })
+      .returning(postColumns);
     return newPost;
   }
 
   async getPost(id: number): Promise<Post | undefined> {
-    const [post] = await db.select().from(posts).where(eq(posts.id, id));
+    const [post] = await db
+      .select(postColumns)
+      .from(posts)
+      .where(and(eq(posts.id, id), isNull(posts.deletedAt)));
     return post;
   }
 
-  async getPosts(): Promise<Post[]> {
-    return await db.select().from(posts);
+  async getPostsPage(query: PostFeedQuery): Promise<PostFeedPage> {
+    const conditions: SQL[] = [inArray(posts.status, openPostStatuses), isNull(posts.deletedAt)];
+
+    if (query.type) conditions.push(eq(posts.type, query.type));
+    if (!query.includeExpired) conditions.push(isWithinDeadline);
+    if (query.minPrice !== undefined) conditions.push(gte(posts.price, query.minPrice));
+    if (query.maxPrice !== undefined) conditions.push(lte(posts.price, query.maxPrice));
+    if (query.location) conditions.push(ilike(posts.location, `%${escapeLikePattern(query.location)}%`));
+    if (query.near) {
+      const { latitude, longitude } = query.near;
+      // Bounding box first so the coordinates index narrows the rows the
+      // exact distance is computed for
+      const latDelta = query.radiusKm / 111.32;
+      const lngDelta = query.radiusKm / (111.32 * Math.max(Math.cos((latitude * Math.PI) / 180), 0.01));
+      conditions.push(
+        gte(posts.latitude, latitude - latDelta),
+        lte(posts.latitude, latitude + latDelta),
+        gte(posts.longitude, longitude - lngDelta),
+        lte(posts.longitude, longitude + lngDelta),
+        sql`${distanceKmFrom(latitude, longitude)} <= ${query.radiusKm}`,
+      );
+    }
+    if (query.bbox) {
+      const { west, south, east, north } = query.bbox;
+      conditions.push(gte(posts.latitude, south), lte(posts.latitude, north));
+      // A box whose west edge is east of its east edge spans the antimeridian
+      conditions.push(
+        west <= east
+          ? and(gte(posts.longitude, west), lte(posts.longitude, east))!
+          : or(gte(posts.longitude, west), lte(posts.longitude, east))!,
+      );
+    }
+
+    // Exact-match room attributes use JSON containment so the GIN index applies
+    const roomMatch: Partial<RoomDetails> = {};
+    if (query.furnished) roomMatch.furnished = query.furnished;
+    if (query.attachedBathroom !== undefined) roomMatch.attachedBathroom = query.attachedBathroom;
+    if (query.waterIncluded !== undefined) roomMatch.waterIncluded = query.waterIncluded;
+    if (query.electricityIncluded !== undefined) roomMatch.electricityIncluded = query.electricityIncluded;
+    if (query.parking !== undefined) roomMatch.parking = query.parking;
+    if (query.petsAllowed !== undefined) roomMatch.petsAllowed = query.petsAllowed;
+    if (Object.keys(roomMatch).length > 0) {
+      conditions.push(sql`${posts.roomDetails} @> ${JSON.stringify(roomMatch)}::jsonb`);
+    }
+    if (query.minRooms !== undefined) {
+      conditions.push(sql`(${posts.roomDetails}->>'roomCount')::int >= ${query.minRooms}`);
+    }
+    if (query.genderPreference) {
+      conditions.push(sql`${posts.roomDetails}->>'genderPreference' IN (${query.genderPreference}, 'any')`);
+    }
+    if (query.availableBy) {
+      // As text, like the deadline, so a malformed stored date can't fail the query
+      conditions.push(sql`${posts.roomDetails}->>'availableFrom' <= ${query.availableBy}`);
+    }
+
+    // Timestamps are truncated to milliseconds so the cursor round-trips
+    // through a JS Date without losing rows that share a timestamp.
+    const createdAtKey = sql`date_trunc('milliseconds', ${posts.createdAt})`;
+    const priceKey = sql`coalesce(${posts.price}, 0)`;
+
+    if (query.cursor) {
+      const [value, id] = decodeFeedCursor(query.cursor, query.sort);
+      if (query.sort === "newest") {
+        conditions.push(sql`(${createdAtKey}, ${posts.id}) < (${String(value)}::timestamp, ${id})`);
+      } else if (query.sort === "price_asc") {
+        conditions.push(sql`(${priceKey}, ${posts.id}) > (${Number(value)}, ${id})`);
+      } else {
+        conditions.push(sql`(${priceKey}, ${posts.id}) < (${Number(value)}, ${id})`);
+      }
+    }
+
+    const orderBy =
+      query.sort === "newest"
+        ? [sql`${createdAtKey} DESC`, sql`${posts.id} DESC`]
+        : query.sort === "price_asc"
+          ? [sql`${priceKey} ASC`, sql`${posts.id} ASC`]
+          : [sql`${priceKey} DESC`, sql`${posts.id} DESC`];
+
+    // Fetch one extra row to find out whether another page exists
+    const rows = await db
+      .select({ ...postColumns, username: users.username })
+      .from(posts)
+      .leftJoin(users, eq(posts.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(...orderBy)
+      .limit(query.limit + 1);
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+    const nextCursor =
+      rows.length > query.limit && last
+        ? encodeFeedCursor([
+            query.sort === "newest" ? last.createdAt.toISOString() : last.price ?? 0,
+            last.id,
+          ])
+        : null;
+
+    return { posts: page.map(withAuthor), nextCursor };
+  }
+
+  async searchPosts(query: PostSearchQuery): Promise<PostFeedPage<PostSearchResult>> {
+    const offset = query.cursor ? Number(query.cursor) : 0;
+
+    // Prefix-match every term so partial words like "banesh" still hit.
+    // Terms are reduced to letters and digits, so they can't inject tsquery operators.
+    const terms = query.q.toLowerCase().match(new RegExp("[\\p{L}\\p{N}]+", "gu")) ?? [];
+    const tsQuery = terms.length
+      ? sql`to_tsquery('simple', ${terms.map((term) => `${term}:*`).join(" & ")})`
+      : sql`''::tsquery`;
+
+    // Trigram similarity against title and location catches misspelt place
+    // names ("baneswor", "lalitpr") that the tsquery misses
+    const haystack = sql`(${posts.title} || ' ' || ${posts.location})`;
+    const rank = sql<number>`ts_rank(${posts.searchVector}, ${tsQuery}) + word_similarity(${query.q}, ${haystack})`;
+
+    const conditions: SQL[] = [
+      or(sql`${posts.searchVector} @@ ${tsQuery}`, sql`${query.q} <% ${haystack}`)!,
+      inArray(posts.status, openPostStatuses),
+      isNull(posts.deletedAt),
+      isWithinDeadline,
+    ];
+    if (query.type) conditions.push(eq(posts.type, query.type));
+
+    const rows = await db
+      .select({
+        ...postColumns,
+        username: users.username,
+        rank,
+        titleHighlight: sql<string>`ts_headline('simple', ${posts.title}, ${tsQuery}, ${HIGHLIGHT_OPTIONS})`,
+        descriptionHighlight: sql<string>`ts_headline('simple', ${posts.description}, ${tsQuery}, ${SNIPPET_OPTIONS})`,
+        locationHighlight: sql<string>`ts_headline('simple', ${posts.location}, ${tsQuery}, ${HIGHLIGHT_OPTIONS})`,
+      })
+      .from(posts)
+      .leftJoin(users, eq(posts.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(sql`${rank} DESC`, sql`${posts.id} DESC`)
+      .limit(query.limit + 1)
+      .offset(offset);
+
+    const results = rows
+      .slice(0, query.limit)
+      .map(({ titleHighlight, descriptionHighlight, locationHighlight, ...post }) => ({
+        ...withAuthor(post),
+        rank: Number(post.rank),
+        highlights: {
+          title: titleHighlight,
+          description: descriptionHighlight,
+          location: locationHighlight,
+        },
+      }));
+
+    return {
+      posts: results,
+      nextCursor: rows.length > query.limit ? String(offset + query.limit) : null,
+    };
   }
 
+  // Saves the version being replaced as a revision, so edits can't quietly
+  // rewrite what people already saw
   async updatePost(id: number, updates: Partial<InsertPost>): Promise<Post> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select(postColumns).from(posts).where(eq(posts.id, id)).for("update");
+      if (current) await tx.insert(postRevisions).values(toPostRevision(current));
+
+      const [post] = await tx
+        .update(posts)
+        .set({
+          ...updates,
+          ...(updates.location !== undefined ? geocodeLocation(updates.location) : {}),
+          editedAt: new Date(),
+        })
+        .where(eq(posts.id, id))
+        .returning(postColumns);
+      return post;
+    });
+  }
+
+  async getPostRevisions(postId: number): Promise<PostRevision[]> {
+    return db
+      .select()
+      .from(postRevisions)
+      .where(eq(postRevisions.postId, postId))
+      .orderBy(postRevisions.createdAt, postRevisions.id);
+  }
+
+  async updatePostStatus(id: number, status: PostStatus): Promise<Post> {
+    // A status change is not an edit, so editedAt is left alone
     const [post] = await db
       .update(posts)
-      .set(updates)
+      .set({ status })
       .where(eq(posts.id, id))
-      .returning();
+      .returning(postColumns);
+    return post;
+  }
+
+  async renewPost(id: number, expiresAt: Date): Promise<Post> {
+    const [post] = await db
+      .update(posts)
+      .set({
+        expiresAt,
+        expiryWarnedAt: null,
+        status: sql`case when ${posts.status} = 'expired' then 'available' else ${posts.status} end`,
+      })
+      .where(eq(posts.id, id))
+      .returning(postColumns);
     return post;
   }
 
+  async warnExpiringPosts(expiringBefore: Date, now: Date): Promise<Post[]> {
+    return db
+      .update(posts)
+      .set({ expiryWarnedAt: now })
+      .where(
+        and(
+          inArray(posts.status, openPostStatuses),
+          isNull(posts.deletedAt),
+          isNull(posts.expiryWarnedAt),
+          gt(posts.expiresAt, now),
+          lte(posts.expiresAt, expiringBefore),
+        ),
+      )
+      .returning(postColumns);
+  }
+
+  async expirePosts(now: Date): Promise<Post[]> {
+    return db
+      .update(posts)
+      .set({ status: "expired" })
+      .where(and(inArray(posts.status, openPostStatuses), isNull(posts.deletedAt), lte(posts.expiresAt, now)))
+      .returning(postColumns);
+  }
+
+  // Fills in coordinates for posts created before geocoding existed, or whose
+  // location only became known after the gazetteer was extended
+  async geocodeMissingPosts(): Promise<number> {
+    const missing = await db
+      .select({ id: posts.id, location: posts.location })
+      .from(posts)
+      .where(isNull(posts.latitude));
+
+    let geocoded = 0;
+    for (const post of missing) {
+      const coordinates = geocodeLocation(post.location);
+      if (coordinates.latitude === null) continue;
+      await db.update(posts).set(coordinates).where(eq(posts.id, post.id));
+      geocoded++;
+    }
+    return geocoded;
+  }
+
+  // Repoints posts, deleted ones and past versions included, from one image
+  // URL to another. Not an edit, so editedAt is left alone.
+  async replacePostImage(from: string, to: string): Promise<number> {
+    const updated = await db
+      .update(posts)
+      .set({ images: sql`array_replace(${posts.images}, ${from}, ${to})` })
+      .where(sql`${from} = any(${posts.images})`)
+      .returning({ id: posts.id });
+    await db
+      .update(postRevisions)
+      .set({ images: sql`array_replace(${postRevisions.images}, ${from}, ${to})` })
+      .where(sql`${from} = any(${postRevisions.images})`);
+    return updated.length;
+  }
+
+  // Deleted posts count, since restoring one brings its images back
+  async getPostImageUrls(): Promise<string[]> {
+    const rows = await db.selectDistinct({ url: sql<string>`unnest(${posts.images})` }).from(posts);
+    return rows.map((row) => row.url);
+  }
+
+  // Hides the post until it is restored or purged. Its comments and
+  // bookmarks are removed by the foreign keys when it is purged.
   async deletePost(id: number): Promise<void> {
-    await db.delete(posts).where(eq(posts.id, id));
+    await db.update(posts).set({ deletedAt: new Date() }).where(eq(posts.id, id));
+  }
+
+  async restorePost(id: number, userId: number, deletedSince: Date): Promise<Post | undefined> {
+    const [post] = await db
+      .update(posts)
+      .set({ deletedAt: null })
+      .where(and(eq(posts.id, id), eq(posts.userId, userId), gte(posts.deletedAt, deletedSince)))
+      .returning(postColumns);
+    return post;
   }
 
   async createComment(userId: number, comment: InsertComment): Promise<Comment> {
@@ -121,44 +650,64 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getComment(id: number): Promise<Comment | undefined> {
-    const [comment] = await db.select().from(comments).where(eq(comments.id, id));
+    const [comment] = await db
+      .select()
+      .from(comments)
+      .where(and(eq(comments.id, id), isNull(comments.deletedAt)));
     return comment;
   }
 
-  async getComments(postId: number): Promise<Comment[]> {
-    return await db
-      .select()
+  async getComments(postId: number): Promise<CommentWithAuthor[]> {
+    const rows = await db
+      .select({ ...getTableColumns(comments), username: users.username })
       .from(comments)
+      .leftJoin(users, eq(comments.userId, users.id))
       .where(eq(comments.postId, postId))
       .orderBy(sql`${comments.createdAt} ASC`);
+    return maskDeletedComments(rows.map(withAuthor));
   }
 
   async updateComment(id: number, content: string): Promise<Comment> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(comments).where(eq(comments.id, id)).for("update");
+      if (current) await tx.insert(commentRevisions).values(toCommentRevision(current));
+
+      const [comment] = await tx
+        .update(comments)
+        .set({ content, editedAt: new Date() })
+        .where(eq(comments.id, id))
+        .returning();
+      return comment;
+    });
+  }
+
+  // Replies stay; the comment shows as a placeholder while any remain
+  async deleteComment(id: number): Promise<void> {
+    await db.update(comments).set({ deletedAt: new Date() }).where(eq(comments.id, id));
+  }
+
+  async restoreComment(id: number, userId: number, deletedSince: Date): Promise<Comment | undefined> {
     const [comment] = await db
       .update(comments)
-      .set({ content, editedAt: new Date() })
-      .where(eq(comments.id, id))
+      .set({ deletedAt: null })
+      .where(and(eq(comments.id, id), eq(comments.userId, userId), gte(comments.deletedAt, deletedSince)))
       .returning();
     return comment;
   }
 
-  async deleteComment(id: number): Promise<void> {
-    await db.delete(comments).where(eq(comments.id, id));
-  }
-
   async toggleBookmark(userId: number, postId: number): Promise<boolean> {
     const [existingBookmark] = await db
       .select()
       .from(bookmarks)
-      .where(eq(bookmarks.userId, userId))
-      .where(eq(bookmarks.postId, postId));
+      .where(and(eq(bookmarks.userId, userId), eq(bookmarks.postId, postId)));
 
     if (existingBookmark) {
       await db.delete(bookmarks).where(eq(bookmarks.id, existingBookmark.id));
       return false;
     }
 
-    await db.insert(bookmarks).values({ userId, postId });
+    // A concurrent toggle may have bookmarked it already
+    await db.insert(bookmarks).values({ userId, postId }).onConflictDoNothing();
     return true;
   }
 
@@ -169,50 +718,74 @@ export class DatabaseStorage implements IStorage {
       .where(eq(bookmarks.userId, userId));
   }
 
+  // Bookmarks whose post was deleted drop out through the inner join
+  async getBookmarkedPosts(userId: number): Promise<PostWithAuthor[]> {
+    const rows = await db
+      .select({ ...postColumns, username: users.username })
+      .from(bookmarks)
+      .innerJoin(posts, eq(bookmarks.postId, posts.id))
+      .leftJoin(users, eq(posts.userId, users.id))
+      .where(and(eq(bookmarks.userId, userId), isNull(posts.deletedAt)))
+      .orderBy(desc(bookmarks.createdAt));
+    return rows.map(withAuthor);
+  }
+
   async isBookmarked(userId: number, postId: number): Promise<boolean> {
     const [bookmark] = await db
       .select()
       .from(bookmarks)
-      .where(eq(bookmarks.userId, userId))
-      .where(eq(bookmarks.postId, postId));
+      .where(and(eq(bookmarks.userId, userId), eq(bookmarks.postId, postId)));
     return !!bookmark;
   }
 
-  async getUserChats(userId: number): Promise<Chat[]> {
+  // Three queries however many chats the user has: the chats, every
+  // participant of those chats, and the latest message of each
+  async getUserChats(userId: number): Promise<ChatWithDetails[]> {
     const results = await db
       .select()
       .from(chats)
       .innerJoin(chatParticipants, eq(chats.id, chatParticipants.chatId))
-      .where(eq(chatParticipants.userId, userId))
+      .where(and(eq(chatParticipants.userId, userId), isNull(chats.deletedAt)))
       .orderBy(sql`${chats.lastMessageAt} DESC`);
 
-    return results.map(({ chats }) => chats);
-  }
+    const userChats = results.map(({ chats }) => chats);
+    if (userChats.length === 0) return [];
+    const chatIds = userChats.map((chat) => chat.id);
 
-  async getChatParticipants(chatId: number): Promise<User[]> {
-    const results = await db
-      .select({
-        user: users,
-      })
+    const participantRows = await db
+      .select({ chatId: chatParticipants.chatId, ...publicUserColumns })
       .from(chatParticipants)
       .innerJoin(users, eq(chatParticipants.userId, users.id))
-      .where(eq(chatParticipants.chatId, chatId));
+      .where(inArray(chatParticipants.chatId, chatIds));
 
-    return results.map(({ user }) => user);
-  }
-
-  async getLastMessage(chatId: number): Promise<{ content: string; createdAt: string } | undefined> {
-    const [lastMessage] = await db
-      .select({
+    const lastMessages = await db
+      .selectDistinctOn([messages.chatId], {
+        chatId: messages.chatId,
         content: messages.content,
         createdAt: messages.createdAt,
       })
       .from(messages)
-      .where(eq(messages.chatId, chatId))
-      .orderBy(sql`${messages.createdAt} DESC`)
-      .limit(1);
+      .where(inArray(messages.chatId, chatIds))
+      .orderBy(messages.chatId, desc(messages.createdAt));
+
+    return userChats.map((chat) => {
+      const lastMessage = lastMessages.find((message) => message.chatId === chat.id);
+      return {
+        ...chat,
+        participants: participantRows
+          .filter((row) => row.chatId === chat.id)
+          .map(({ chatId: _chatId, ...user }) => user),
+        lastMessage: lastMessage ? { content: lastMessage.content, createdAt: lastMessage.createdAt } : null,
+      };
+    });
+  }
 
-    return lastMessage;
+  async getChatParticipants(chatId: number): Promise<PublicUser[]> {
+    return await db
+      .select(publicUserColumns)
+      .from(chatParticipants)
+      .innerJoin(users, eq(chatParticipants.userId, users.id))
+      .where(eq(chatParticipants.chatId, chatId));
   }
 
   async createChat(participantIds: number[]): Promise<Chat> {
@@ -241,12 +814,14 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getChatMessages(chatId: number): Promise<Message[]> {
-    return db
-      .select()
+  async getChatMessages(chatId: number): Promise<MessageWithUser[]> {
+    const rows = await db
+      .select({ message: messages, user: publicUserColumns })
       .from(messages)
+      .leftJoin(users, eq(messages.userId, users.id))
       .where(eq(messages.chatId, chatId))
       .orderBy(sql`${messages.createdAt} ASC`);
+    return rows.map(({ message, user }) => ({ ...message, user: user ?? undefined }));
   }
 
   async createMessage(userId: number, message: InsertMessage): Promise<Message> {
@@ -268,57 +843,96 @@ export class DatabaseStorage implements IStorage {
       .set({ lastMessageAt: new Date() })
       .where(eq(chats.id, chatId));
   }
-  async getUserPosts(userId: number): Promise<Post[]> {
-    return await db
-      .select()
+  async getUserPosts(userId: number): Promise<PostWithAuthor[]> {
+    const rows = await db
+      .select({ ...postColumns, username: users.username })
       .from(posts)
-      .where(eq(posts.userId, userId))
+      .leftJoin(users, eq(posts.userId, users.id))
+      .where(and(eq(posts.userId, userId), isNull(posts.deletedAt)))
       .orderBy(sql`${posts.createdAt} DESC`);
+    return rows.map(withAuthor);
   }
+  // Hides the chat from every participant until it is restored or purged.
+  // Messages and participants are removed by the foreign keys when purged.
   async deleteChat(chatId: number): Promise<void> {
-    // First delete all messages in the chat
-    await db.delete(messages).where(eq(messages.chatId, chatId));
-    // Then delete chat participants
-    await db.delete(chatParticipants).where(eq(chatParticipants.chatId, chatId));
-    // Finally delete the chat itself
-    await db.delete(chats).where(eq(chats.id, chatId));
+    await db.update(chats).set({ deletedAt: new Date() }).where(eq(chats.id, chatId));
+  }
+
+  async restoreChat(chatId: number, deletedSince: Date): Promise<Chat | undefined> {
+    const [chat] = await db
+      .update(chats)
+      .set({ deletedAt: null })
+      .where(and(eq(chats.id, chatId), gte(chats.deletedAt, deletedSince)))
+      .returning();
+    return chat;
+  }
+
+  async purgeDeleted(deletedBefore: Date): Promise<{ posts: number; comments: number; chats: number }> {
+    const purgedPosts = await db
+      .delete(posts)
+      .where(lt(posts.deletedAt, deletedBefore))
+      .returning({ id: posts.id });
+    const purgedChats = await db
+      .delete(chats)
+      .where(lt(chats.deletedAt, deletedBefore))
+      .returning({ id: chats.id });
+
+    // Leaves first: a deleted comment is only purged once nothing replies to
+    // it, so the cascade never takes live replies with it
+    const reply = alias(comments, "reply");
+    let purgedComments = 0;
+    for (;;) {
+      const purged = await db
+        .delete(comments)
+        .where(
+          and(
+            lt(comments.deletedAt, deletedBefore),
+            sql`not exists (select 1 from ${reply} where ${reply.parentId} = ${comments.id})`,
+          ),
+        )
+        .returning({ id: comments.id });
+      if (purged.length === 0) break;
+      purgedComments += purged.length;
+    }
+
+    return { posts: purgedPosts.length, comments: purgedComments, chats: purgedChats.length };
   }
 
   async blockUser(userId: number, blockedUserId: number): Promise<void> {
-    // Add user block record
-    await db.insert(userBlocks).values({
-      userId,
-      blockedUserId,
-      createdAt: new Date(),
-    });
+    // Add user block record; blocking someone twice is a no-op
+    await db
+      .insert(userBlocks)
+      .values({
+        userId,
+        blockedUserId,
+        createdAt: new Date(),
+      })
+      .onConflictDoNothing();
   }
 
   async unblockUser(userId: number, blockedUserId: number): Promise<void> {
-    await db.delete(userBlocks)
-      .where(eq(userBlocks.userId, userId))
-      .where(eq(userBlocks.blockedUserId, blockedUserId));
+    await db
+      .delete(userBlocks)
+      .where(and(eq(userBlocks.userId, userId), eq(userBlocks.blockedUserId, blockedUserId)));
   }
 
   async isUserBlocked(userId: number, blockedUserId: number): Promise<boolean> {
     const [block] = await db
       .select()
       .from(userBlocks)
-      .where(eq(userBlocks.userId, userId))
-      .where(eq(userBlocks.blockedUserId, blockedUserId));
+      .where(and(eq(userBlocks.userId, userId), eq(userBlocks.blockedUserId, blockedUserId)));
     return !!block;
   }
 
-  async getBlockedUsers(userId: number): Promise<User[]> {
-    const blocks = await db
-      .select({
-        blockedUser: users,
-      })
+  async getBlockedUsers(userId: number): Promise<PublicUser[]> {
+    return db
+      .select(publicUserColumns)
       .from(userBlocks)
       .innerJoin(users, eq(userBlocks.blockedUserId, users.id))
       .where(eq(userBlocks.userId, userId));
-
-    return blocks.map(({ blockedUser }) => blockedUser);
   }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+// STORAGE=memory keeps everything in process memory and needs no database;
+// data is lost on restart, so it is only meant for local development
+export const storage: IStorage = process.env.STORAGE === "memory" ? new MemStorage() : new DatabaseStorage();
\ No newline at end of file
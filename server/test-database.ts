@@ -0,0 +1,15 @@
+import { sql } from "drizzle-orm";
+import { db } from "./db";
+import { runMigrations } from "./migrate";
+
+// Tests that need PostgreSQL run against TEST_DATABASE_URL, which
+// vitest.config.ts passes on as DATABASE_URL, and are skipped without it.
+// Every table in that database is emptied, so never point it at real data.
+export const hasTestDatabase = !!process.env.DATABASE_URL;
+
+export async function resetTestDatabase(): Promise<void> {
+  await runMigrations();
+  await db.execute(sql`
+    truncate users, chats, rate_limit_hits restart identity cascade
+  `);
+}
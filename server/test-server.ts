@@ -0,0 +1,117 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import request from "supertest";
+import { io as connect, type Socket } from "socket.io-client";
+import type { CurrentUser, InsertPost } from "@shared/schema";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+// Helpers for tests that run the API against in-memory storage. Set
+// STORAGE=memory before importing; vitest.config.ts does.
+
+export type TestServer = {
+  app: express.Express;
+  server: Server;
+  url: string;
+  close: () => Promise<void>;
+};
+
+export type TestUser = {
+  user: CurrentUser;
+  // Session cookie, for requests and socket connections
+  cookie: string;
+};
+
+// Serves the API as server/index.ts does, on a free port
+export async function startTestServer(): Promise<TestServer> {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  const server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    app,
+    server,
+    url: `http://127.0.0.1:${port}`,
+    close: () =>
+      new Promise((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+// The session cookie a response sets, to send with later requests
+export function sessionCookie(res: request.Response): string {
+  const cookie = res.headers["set-cookie"]?.[0]?.split(";")[0];
+  if (!cookie) throw new Error("The response did not start a session");
+  return cookie;
+}
+
+let userCount = 0;
+
+// Registers a new account and returns its session
+export async function signUp(app: express.Express, username = `user${++userCount}`): Promise<TestUser> {
+  const res = await request(app)
+    .post("/api/register")
+    .send({ username, fullname: `Test ${username}`, email: `${username}@example.com`, password: "correct horse" })
+    .expect(201);
+  return { user: res.body, cookie: sessionCookie(res) };
+}
+
+// Confirms the user's email, as opening the link sent to it would
+export async function verifyEmail(userId: number): Promise<void> {
+  const tokenHash = `test-${userId}-${Date.now()}`;
+  await storage.createEmailVerificationToken(userId, tokenHash, new Date(Date.now() + 60 * 60 * 1000));
+  await storage.verifyEmail(tokenHash, new Date());
+}
+
+export function jobPost(overrides: Partial<InsertPost> = {}): InsertPost {
+  return {
+    type: "job",
+    title: "Kitchen helper",
+    description: "Evening shifts at a restaurant in Thamel",
+    location: "Kathmandu",
+    price: null,
+    jobDetails: {
+      salaryMin: 15000,
+      salaryMax: 20000,
+      salaryPeriod: "month",
+      employmentType: "part-time",
+      skills: ["cooking"],
+      applicationDeadline: null,
+    },
+    ...overrides,
+  };
+}
+
+// Opens a Socket.IO connection, signed in when given a session cookie
+export async function connectSocket(url: string, cookie?: string): Promise<Socket> {
+  const socket = connect(url, {
+    transports: ["websocket"],
+    forceNew: true,
+    reconnection: false,
+    extraHeaders: cookie ? { cookie } : undefined,
+  });
+  await new Promise<void>((resolve, reject) => {
+    socket.once("connect", resolve);
+    socket.once("connect_error", reject);
+  });
+  return socket;
+}
+
+// Collects the payloads a socket receives for an event
+export function recordEvents<T = unknown>(socket: Socket, event: string): T[] {
+  const received: T[] = [];
+  socket.on(event, (payload: T) => received.push(payload));
+  return received;
+}
+
+// Room joins aren't acknowledged, and sockets that should get nothing can
+// only be checked by waiting a little
+export function settle(ms = 100): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
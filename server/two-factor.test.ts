@@ -0,0 +1,38 @@
+import { Secret, TOTP } from "otpauth";
+import { describe, expect, it } from "vitest";
+import { generateRecoveryCodes, generateTotpSecret, hashRecoveryCode, isTotpCode, verifyTotp } from "./two-factor";
+
+const STEP_MS = 30 * 1000;
+
+describe("verifyTotp", () => {
+  const secret = generateTotpSecret();
+  const step = 57_000_000;
+  const code = TOTP.generate({ secret: Secret.fromBase32(secret), timestamp: step * STEP_MS });
+
+  it("accepts the code in its own step and the steps either side", () => {
+    expect(verifyTotp(secret, code, step * STEP_MS)).toBe(step);
+    expect(verifyTotp(secret, code, (step + 1) * STEP_MS - 1)).toBe(step);
+    expect(verifyTotp(secret, code, (step - 1) * STEP_MS)).toBe(step);
+    expect(verifyTotp(secret, code, (step + 2) * STEP_MS - 1)).toBe(step);
+  });
+
+  it("rejects the code two steps away", () => {
+    expect(verifyTotp(secret, code, (step - 1) * STEP_MS - 1)).toBeNull();
+    expect(verifyTotp(secret, code, (step + 2) * STEP_MS)).toBeNull();
+  });
+
+  it("ignores spaces and rejects other codes", () => {
+    expect(verifyTotp(secret, `${code.slice(0, 3)} ${code.slice(3)}`, step * STEP_MS)).toBe(step);
+    const wrong = String((Number(code) + 1) % 1_000_000).padStart(6, "0");
+    expect(verifyTotp(secret, wrong, step * STEP_MS)).toBeNull();
+  });
+});
+
+describe("recovery codes", () => {
+  it("are distinct, never look like app codes and hash the same however typed", () => {
+    const codes = generateRecoveryCodes();
+    expect(new Set(codes).size).toBe(codes.length);
+    codes.forEach((code) => expect(isTotpCode(code)).toBe(false));
+    expect(hashRecoveryCode(codes[0].toUpperCase().replace("-", " "))).toBe(hashRecoveryCode(codes[0]));
+  });
+});
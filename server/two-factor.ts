@@ -0,0 +1,51 @@
+import { createHash, randomBytes } from "crypto";
+import { Secret, TOTP } from "otpauth";
+import QRCode from "qrcode";
+import type { TwoFactorSetup } from "@shared/schema";
+
+const ISSUER = "Mero KamKotha";
+const RECOVERY_CODE_COUNT = 10;
+const totpCodePattern = /^\d{6}$/;
+
+// The settings every common authenticator app supports
+function createTotp(secret: string, label = "") {
+  return new TOTP({ issuer: ISSUER, label, algorithm: "SHA1", digits: 6, period: 30, secret: Secret.fromBase32(secret) });
+}
+
+export function generateTotpSecret(): string {
+  return new Secret({ size: 20 }).base32;
+}
+
+export async function getTotpSetup(secret: string, username: string): Promise<TwoFactorSetup> {
+  const otpauthUrl = createTotp(secret, username).toString();
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+function normalizeCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+// Recovery codes are longer, so the two never overlap
+export function isTotpCode(code: string): boolean {
+  return totpCodePattern.test(normalizeCode(code));
+}
+
+// The time step the code belongs to, or null if it is wrong. Codes from the
+// steps either side of now are accepted too, to allow for clock drift.
+export function verifyTotp(secret: string, code: string, now: number = Date.now()): number | null {
+  const totp = createTotp(secret);
+  const delta = totp.validate({ token: normalizeCode(code), timestamp: now, window: 1 });
+  return delta === null ? null : totp.counter({ timestamp: now }) + delta;
+}
+
+// Formatted as xxxxx-xxxxx; the dash and case don't matter when typed back
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeCode(code)).digest("hex");
+}
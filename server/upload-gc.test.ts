@@ -0,0 +1,108 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ListObjectsV2Command, S3Client } from "@aws-sdk/client-s3";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LocalBlobStore, S3BlobStore } from "./blob-store";
+import { collectOrphanedUploads } from "./upload-gc";
+
+const MINUTE_MS = 60 * 1000;
+const now = new Date("2025-03-01T12:00:00Z");
+
+describe("collectOrphanedUploads", () => {
+  let dir: string;
+  let store: LocalBlobStore;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "upload-gc-"));
+    store = new LocalBlobStore(dir);
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  async function upload(key: string, minutesAgo: number) {
+    await store.put(key, Buffer.from("image"));
+    const modified = new Date(now.getTime() - minutesAgo * MINUTE_MS);
+    await fs.promises.utimes(path.join(dir, key), modified, modified);
+  }
+
+  const storage = (urls: string[]) => ({ getPostImageUrls: async () => urls });
+
+  it("deletes only old files that no post refers to", async () => {
+    await upload("images-1-thumb.webp", 120);
+    await upload("images-1-card.webp", 120);
+    await upload("images-1-full.webp", 120);
+    await upload("orphan.jpg", 120);
+    await upload("new.jpg", 10);
+
+    const report = await collectOrphanedUploads({
+      storage: storage(["/uploads/images-1-full.webp"]),
+      now,
+      graceMinutes: 60,
+      store,
+    });
+
+    expect(report).toMatchObject({ dryRun: false, scannedFiles: 5, scannedBytes: 25, deletedFiles: 1, reclaimedBytes: 5 });
+    expect(report.orphans.map((orphan) => orphan.key)).toEqual(["orphan.jpg"]);
+    expect((await store.list()).map((blob) => blob.key).sort()).toEqual([
+      "images-1-card.webp",
+      "images-1-full.webp",
+      "images-1-thumb.webp",
+      "new.jpg",
+    ]);
+  });
+
+  it("only reports orphans on a dry run", async () => {
+    await upload("orphan.jpg", 120);
+
+    const report = await collectOrphanedUploads({ storage: storage([]), now, graceMinutes: 60, dryRun: true, store });
+
+    expect(report).toMatchObject({ dryRun: true, deletedFiles: 0, reclaimedBytes: 0 });
+    expect(report.orphans.map((orphan) => orphan.key)).toEqual(["orphan.jpg"]);
+    expect((await store.list()).map((blob) => blob.key)).toEqual(["orphan.jpg"]);
+  });
+});
+
+describe("S3BlobStore", () => {
+  const store = new S3BlobStore({
+    bucket: "room-images",
+    region: "us-east-1",
+    publicUrl: "https://cdn.example.com",
+    prefix: "uploads/",
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("keeps uploads under its prefix", () => {
+    expect(store.getUrl("images-1-full.webp")).toBe("https://cdn.example.com/uploads/images-1-full.webp");
+    expect(store.getKey("https://cdn.example.com/uploads/images-1-full.webp")).toBe("images-1-full.webp");
+    expect(store.getKey("https://cdn.example.com/backups/db.sql")).toBeNull();
+  });
+
+  it("lists and collects only what is under its prefix", async () => {
+    const lastModified = new Date(now.getTime() - 2 * 24 * 60 * MINUTE_MS);
+    const send = vi.spyOn(S3Client.prototype, "send").mockImplementation(async (command) => {
+      if (command instanceof ListObjectsV2Command) {
+        expect(command.input.Prefix).toBe("uploads/");
+        return {
+          Contents: [
+            { Key: "uploads/orphan.jpg", Size: 5, LastModified: lastModified },
+            { Key: "uploads/nested/other.jpg", Size: 5, LastModified: lastModified },
+          ],
+          IsTruncated: false,
+        };
+      }
+      return {};
+    });
+
+    const report = await collectOrphanedUploads({ storage: { getPostImageUrls: async () => [] }, now, store });
+
+    expect(report.orphans.map((orphan) => orphan.key)).toEqual(["orphan.jpg"]);
+    const deleted = send.mock.calls.map(([command]) => command.input).filter((input) => !("Prefix" in input));
+    expect(deleted).toEqual([{ Bucket: "room-images", Key: "uploads/orphan.jpg" }]);
+  });
+});
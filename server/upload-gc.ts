@@ -0,0 +1,107 @@
+import type { IStorage } from "./storage";
+import { blobStore, type BlobStore, type StoredBlob } from "./blob-store";
+import { getImageKeys } from "./images";
+import { createIntervalJob, systemClock, type Clock } from "./interval-job";
+
+const MINUTE_MS = 60 * 1000;
+
+export const uploadGcConfig = {
+  // Files younger than this are never collected, so images uploaded for a
+  // post that is still being saved are left alone
+  graceMinutes: Number(process.env.UPLOAD_GC_GRACE_MINUTES) || 24 * 60,
+  intervalMs: Number(process.env.UPLOAD_GC_INTERVAL_MS) || 24 * 60 * 60 * 1000,
+};
+
+export interface UploadGcReport {
+  dryRun: boolean;
+  scannedFiles: number;
+  scannedBytes: number;
+  // Unreferenced files past the grace period; deleted unless dryRun is set
+  orphans: StoredBlob[];
+  deletedFiles: number;
+  reclaimedBytes: number;
+}
+
+interface CollectOptions {
+  storage: Pick<IStorage, "getPostImageUrls">;
+  now?: Date;
+  graceMinutes?: number;
+  dryRun?: boolean;
+  store?: BlobStore;
+}
+
+// Deletes stored files that no post refers to. Every size of a processed
+// image is kept while the post refers to any of them.
+export async function collectOrphanedUploads({
+  storage,
+  now = new Date(),
+  graceMinutes = uploadGcConfig.graceMinutes,
+  dryRun = false,
+  store = blobStore,
+}: CollectOptions): Promise<UploadGcReport> {
+  const olderThan = new Date(now.getTime() - graceMinutes * MINUTE_MS);
+  // List before reading posts, so a file stored in between is either too
+  // new to collect or already referenced
+  const blobs = await store.list();
+  const referenced = new Set((await storage.getPostImageUrls()).flatMap((url) => getImageKeys(url, store)));
+  const orphans = blobs.filter((blob) => !referenced.has(blob.key) && blob.lastModified < olderThan);
+
+  const report: UploadGcReport = {
+    dryRun,
+    scannedFiles: blobs.length,
+    scannedBytes: blobs.reduce((total, blob) => total + blob.size, 0),
+    orphans,
+    deletedFiles: 0,
+    reclaimedBytes: 0,
+  };
+  if (dryRun) return report;
+
+  for (const orphan of orphans) {
+    try {
+      await store.delete(orphan.key);
+      report.deletedFiles++;
+      report.reclaimedBytes += orphan.size;
+    } catch (error) {
+      console.error(`Error deleting upload ${orphan.key}:`, error);
+    }
+  }
+  return report;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface UploadGcSchedulerOptions {
+  storage: Pick<IStorage, "getPostImageUrls">;
+  clock?: Clock;
+  graceMinutes?: number;
+  intervalMs?: number;
+}
+
+export function createUploadGcScheduler({
+  storage,
+  clock = systemClock,
+  graceMinutes = uploadGcConfig.graceMinutes,
+  intervalMs = uploadGcConfig.intervalMs,
+}: UploadGcSchedulerOptions) {
+  // Totals since the server started, logged with each run
+  const totals = { runs: 0, deletedFiles: 0, reclaimedBytes: 0 };
+
+  async function run() {
+    const report = await collectOrphanedUploads({ storage, now: clock.now(), graceMinutes });
+    totals.runs++;
+    totals.deletedFiles += report.deletedFiles;
+    totals.reclaimedBytes += report.reclaimedBytes;
+    if (report.orphans.length > 0) {
+      console.log(
+        `[upload-gc] Deleted ${report.deletedFiles} of ${report.orphans.length} orphaned files, reclaiming ${formatBytes(report.reclaimedBytes)} ` +
+          `(${report.scannedFiles} files scanned; ${totals.deletedFiles} files and ${formatBytes(totals.reclaimedBytes)} over ${totals.runs} runs)`,
+      );
+    }
+  }
+
+  return createIntervalJob({ run, intervalMs, errorMessage: "Error collecting orphaned uploads:" });
+}
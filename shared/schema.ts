@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, index, uniqueIndex, unique, customType, doublePrecision, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,25 +8,91 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   fullname: text("fullname").notNull(),
   password: text("password").notNull(),
-});
+  // Stored lowercased. Accounts created before emails were collected have none
+  // and cannot reset their password. Only one account may verify an address,
+  // so a typo or squatted address never locks its owner out.
+  email: text("email"),
+  // Set once the user opens the link sent to their email
+  emailVerifiedAt: timestamp("email_verified_at"),
+  // Base32 TOTP secret. Set, along with totpEnabledAt, once the user confirms
+  // enrollment with a code from their authenticator app.
+  totpSecret: text("totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  // Time step of the last code accepted, so a code can't be used twice
+  totpLastUsedStep: integer("totp_last_used_step"),
+}, (table) => [
+  uniqueIndex("users_verified_email_idx").on(table.email).where(sql`${table.emailVerifiedAt} is not null`),
+]);
+
+// Only a hash of each token is stored, so a database leak can't be used to
+// reset passwords
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  // Set when the token is used; a token works once
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("password_reset_tokens_user_id_idx").on(table.userId),
+]);
+
+// One row per counted request, for sliding-window rate limits shared by
+// every server instance. Rows older than the longest window are pruned.
+export const rateLimitHits = pgTable("rate_limit_hits", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull(),
+  createdAt: timestamp("created_at").notNull(),
+}, (table) => [
+  index("rate_limit_hits_key_created_at_idx").on(table.key, table.createdAt),
+  index("rate_limit_hits_created_at_idx").on(table.createdAt),
+]);
+
+// Stored the same way as password reset tokens
+export const emailVerificationTokens = pgTable("email_verification_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("email_verification_tokens_user_id_idx").on(table.userId),
+]);
+
+// Single-use codes for logging in without the authenticator app. Hashed like
+// the email tokens; generating a new set deletes the old one.
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("recovery_codes_user_id_idx").on(table.userId),
+]);
 
 export const chats = pgTable("chats", {
   id: serial("id").primaryKey(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   lastMessageAt: timestamp("last_message_at").defaultNow().notNull(),
+  // Set when deleted; the row is purged once the undo grace window passes
+  deletedAt: timestamp("deleted_at"),
 });
 
+// Rows that belong to a user or a parent row are deleted along with it
 export const chatParticipants = pgTable("chat_participants", {
   id: serial("id").primaryKey(),
-  chatId: integer("chat_id").notNull(),
-  userId: integer("user_id").notNull(),
+  chatId: integer("chat_id").notNull().references(() => chats.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   joinedAt: timestamp("joined_at").defaultNow().notNull(),
 });
 
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
-  chatId: integer("chat_id").notNull(),
-  userId: integer("user_id").notNull(),
+  chatId: integer("chat_id").notNull().references(() => chats.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   content: text("content").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   readAt: timestamp("read_at"),
@@ -34,41 +101,202 @@ export const messages = pgTable("messages", {
 // Add userBlocks table for blocking functionality
 export const userBlocks = pgTable("user_blocks", {
   id: serial("id").primaryKey(),
-  userId: integer("user_id").notNull(),
-  blockedUserId: integer("blocked_user_id").notNull(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  blockedUserId: integer("blocked_user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("user_blocks_user_blocked_user_unique").on(table.userId, table.blockedUserId),
+]);
+
+// Lifecycle of a listing. Rooms end up "rented" and jobs "filled"; both can
+// be archived by the owner and brought back later. Open listings that are not
+// renewed in time become "expired", which only renewal reopens.
+export const postStatuses = ["available", "pending", "rented", "filled", "archived", "expired"] as const;
+export type PostStatus = (typeof postStatuses)[number];
+
+// Statuses a post may move to from each status, before the per-type check
+const postStatusTransitions: Record<PostStatus, PostStatus[]> = {
+  available: ["pending", "rented", "filled", "archived"],
+  pending: ["available", "rented", "filled", "archived"],
+  rented: ["available", "archived"],
+  filled: ["available", "archived"],
+  archived: ["available"],
+  expired: ["archived"],
+};
+
+// Statuses shown in the feed; anything else is no longer available
+export const openPostStatuses: PostStatus[] = ["available", "pending"];
+
+export function getAllowedPostStatuses(type: "room" | "job", from: PostStatus): PostStatus[] {
+  return postStatusTransitions[from].filter((to) =>
+    type === "room" ? to !== "filled" : to !== "rented",
+  );
+}
+
+// Postgres full-text search document; only ever read inside SQL expressions
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// A YYYY-MM-DD string naming a day that exists. Round-tripping through Date
+// rejects what a pattern alone would let through, such as 2025-02-30.
+function isCalendarDate(value: string): boolean {
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+function calendarDateSchema(message: string) {
+  return z.string().refine(isCalendarDate, message);
+}
+
+// Structured attributes of a room listing, stored as JSON on the post
+export const roomDetailsSchema = z.object({
+  roomCount: z.number().int().min(1, "At least one room is required").max(20),
+  furnished: z.enum(["unfurnished", "semi", "full"]),
+  attachedBathroom: z.boolean(),
+  waterIncluded: z.boolean(),
+  electricityIncluded: z.boolean(),
+  parking: z.boolean(),
+  petsAllowed: z.boolean(),
+  genderPreference: z.enum(["any", "male", "female"]),
+  availableFrom: calendarDateSchema("Available from must be a date"),
+});
+
+export type RoomDetails = z.infer<typeof roomDetailsSchema>;
+
+// Structured attributes of a job listing, stored as JSON on the post
+export const jobDetailsSchema = z.object({
+  salaryMin: z.number().int().min(0).nullable(),
+  salaryMax: z.number().int().min(0).nullable(),
+  salaryPeriod: z.enum(["hour", "day", "month", "year"]),
+  employmentType: z.enum(["full-time", "part-time", "contract", "daily-wage"]),
+  skills: z.array(z.string().trim().min(1)).max(20),
+  applicationDeadline: calendarDateSchema("Deadline must be a date").nullable(),
+}).refine((data) => {
+  if (data.salaryMin !== null && data.salaryMax !== null) {
+    return data.salaryMin <= data.salaryMax;
+  }
+  return true;
+}, {
+  message: "Minimum salary cannot be more than the maximum",
+  path: ["salaryMax"],
 });
 
+export type JobDetails = z.infer<typeof jobDetailsSchema>;
+
+// Uploaded photos are stored as WebP at these widths. A post keeps the URL
+// of the full size; the other sizes sit beside it with their own suffix,
+// whichever blob store serves them.
+export const imageSizes = { thumb: 320, card: 800, full: 1600 } as const;
+export type ImageSize = keyof typeof imageSizes;
+
+const processedImagePattern = /^(.+)-full\.webp$/;
+
+// Images hosted elsewhere or not yet processed only have their one URL
+export function getImageVariantUrl(url: string, size: ImageSize): string {
+  const match = processedImagePattern.exec(url);
+  return match ? `${match[1]}-${size}.webp` : url;
+}
+
+export function getImageSrcSet(url: string): string | undefined {
+  if (!processedImagePattern.test(url)) return undefined;
+  return (Object.keys(imageSizes) as ImageSize[])
+    .map((size) => `${getImageVariantUrl(url, size)} ${imageSizes[size]}w`)
+    .join(", ");
+}
+
 // Keep existing tables
 export const posts = pgTable("posts", {
   id: serial("id").primaryKey(),
-  userId: integer("user_id").notNull(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   type: text("type", { enum: ["room", "job"] }).notNull(),
   title: text("title").notNull(),
   description: text("description").notNull(),
   price: integer("price"),
   location: text("location").notNull(),
   images: text("images").array(),
+  roomDetails: jsonb("room_details").$type<RoomDetails>(),
+  jobDetails: jsonb("job_details").$type<JobDetails>(),
+  status: text("status", { enum: postStatuses }).default("available").notNull(),
+  // Resolved from location against the bundled gazetteer; null when the
+  // location names no known place
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   editedAt: timestamp("edited_at"),
-});
+  // Set from POST_EXPIRY_DAYS on create and renewal; the default only covers
+  // rows that existed before expiry was introduced
+  expiresAt: timestamp("expires_at").default(sql`now() + interval '30 days'`).notNull(),
+  expiryWarnedAt: timestamp("expiry_warned_at"),
+  // Set when deleted; the row is purged once the undo grace window passes
+  deletedAt: timestamp("deleted_at"),
+  // Uses the 'simple' config so romanized Nepali words are not mangled by
+  // English stemming. Title matches rank highest, then location.
+  searchVector: tsvector("search_vector").generatedAlwaysAs(
+    sql`setweight(to_tsvector('simple', coalesce(title, '')), 'A') || setweight(to_tsvector('simple', coalesce(location, '')), 'B') || setweight(to_tsvector('simple', coalesce(description, '')), 'C')`,
+  ),
+}, (table) => [
+  index("posts_status_idx").on(table.status),
+  index("posts_expires_at_idx").on(table.expiresAt),
+  index("posts_coordinates_idx").on(table.latitude, table.longitude),
+  index("posts_search_vector_idx").using("gin", table.searchVector),
+  index("posts_room_details_idx").using("gin", sql`${table.roomDetails} jsonb_path_ops`),
+  // Trigram index backing typo-tolerant matching; needs the pg_trgm extension
+  index("posts_title_location_trgm_idx").using("gin", sql`(${table.title} || ' ' || ${table.location}) gin_trgm_ops`),
+]);
 
 export const comments = pgTable("comments", {
   id: serial("id").primaryKey(),
-  postId: integer("post_id").notNull(),
-  userId: integer("user_id").notNull(),
-  parentId: integer("parent_id"),
+  postId: integer("post_id").notNull().references(() => posts.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  // Replies go with the comment they answer; without it they have no context
+  parentId: integer("parent_id").references((): AnyPgColumn => comments.id, { onDelete: "cascade" }),
   content: text("content").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   editedAt: timestamp("edited_at"),
+  // Set when deleted; the row is purged once the undo grace window passes
+  // and no live reply depends on it
+  deletedAt: timestamp("deleted_at"),
 });
 
 export const bookmarks = pgTable("bookmarks", {
   id: serial("id").primaryKey(),
-  postId: integer("post_id").notNull(),
-  userId: integer("user_id").notNull(),
+  postId: integer("post_id").notNull().references(() => posts.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  unique("bookmarks_user_post_unique").on(table.userId, table.postId),
+]);
+
+// Earlier versions of posts and comments, saved each time one is edited. The
+// current version lives on the post or comment itself; createdAt is when the
+// saved version was published.
+export const postRevisions = pgTable("post_revisions", {
+  id: serial("id").primaryKey(),
+  postId: integer("post_id").notNull().references(() => posts.id, { onDelete: "cascade" }),
+  type: text("type", { enum: ["room", "job"] }).notNull(),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  price: integer("price"),
+  location: text("location").notNull(),
+  images: text("images").array(),
+  roomDetails: jsonb("room_details").$type<RoomDetails>(),
+  jobDetails: jsonb("job_details").$type<JobDetails>(),
+  createdAt: timestamp("created_at").notNull(),
+}, (table) => [
+  index("post_revisions_post_id_idx").on(table.postId),
+]);
+
+export const commentRevisions = pgTable("comment_revisions", {
+  id: serial("id").primaryKey(),
+  commentId: integer("comment_id").notNull().references(() => comments.id, { onDelete: "cascade" }),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").notNull(),
+}, (table) => [
+  index("comment_revisions_comment_id_idx").on(table.commentId),
+]);
 
 // Schema for creating new chats
 export const insertChatSchema = z.object({
@@ -83,6 +311,35 @@ export const insertMessageSchema = z.object({
 
 // Keep existing schemas
 export const insertUserSchema = createInsertSchema(users);
+
+const emailSchema = z.string().trim().toLowerCase().email("Enter a valid email address");
+
+export const registerUserSchema = insertUserSchema.pick({ username: true, fullname: true, password: true }).extend({
+  email: emailSchema,
+});
+
+export const forgotPasswordSchema = z.object({
+  email: emailSchema,
+});
+
+// Adds an email to an account that has none, or corrects one not yet verified
+export const setEmailSchema = z.object({
+  email: emailSchema,
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "Verification link is invalid"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset link is invalid"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// A code from the authenticator app, or a recovery code where one is accepted
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Enter a code"),
+});
 export const insertPostSchema = z.object({
   type: z.enum(["room", "job"]),
   title: z.string().min(1, "Title is required"),
@@ -90,27 +347,146 @@ export const insertPostSchema = z.object({
   location: z.string().min(1, "Location is required"),
   price: z.number().nullable(),
   images: z.array(z.string()).optional(),
-}).refine((data) => {
+  roomDetails: roomDetailsSchema.nullish(),
+  jobDetails: jobDetailsSchema.nullish(),
+}).superRefine((data, ctx) => {
   if (data.type === "room") {
-    return data.price !== null && data.price > 0;
+    if (data.price === null || data.price <= 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Price is required for room posts and must be greater than 0",
+        path: ["price"],
+      });
+    }
+    if (!data.roomDetails) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Room details are required for room posts",
+        path: ["roomDetails"],
+      });
+    }
+    if (data.jobDetails) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Job details are only allowed on job posts",
+        path: ["jobDetails"],
+      });
+    }
+  } else {
+    if (!data.jobDetails) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Job details are required for job posts",
+        path: ["jobDetails"],
+      });
+    }
+    if (data.roomDetails) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Room details are only allowed on room posts",
+        path: ["roomDetails"],
+      });
+    }
   }
-  return true;
-}, {
-  message: "Price is required for room posts and must be greater than 0",
-  path: ["price"],
+});
+
+export const updatePostStatusSchema = z.object({
+  status: z.enum(postStatuses),
+});
+
+// Query strings carry booleans as "true"/"false"
+const queryBoolean = z.enum(["true", "false"]).transform((value) => value === "true");
+
+// "lat,lng" pairs such as "27.7172,85.3240"
+const queryCoordinates = z
+  .string()
+  .regex(/^-?\d+(\.\d+)?,-?\d+(\.\d+)?$/, "Expected lat,lng")
+  .transform((value) => {
+    const [latitude, longitude] = value.split(",").map(Number);
+    return { latitude, longitude };
+  })
+  .refine(({ latitude, longitude }) => Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180, "Coordinates out of range");
+
+// "west,south,east,north" in degrees, as reported by map viewports
+const queryBoundingBox = z
+  .string()
+  .regex(/^(-?\d+(\.\d+)?,){3}-?\d+(\.\d+)?$/, "Expected west,south,east,north")
+  .transform((value) => {
+    const [west, south, east, north] = value.split(",").map(Number);
+    return { west, south, east, north };
+  })
+  .refine(({ south, north }) => south <= north, "Invalid bounding box");
+
+// Query parameters accepted by the paginated posts feed
+export const postFeedQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  type: z.enum(["room", "job"]).optional(),
+  minPrice: z.coerce.number().int().min(0).optional(),
+  maxPrice: z.coerce.number().int().min(0).optional(),
+  location: z.string().trim().min(1).optional(),
+  // Only posts within radiusKm of near; posts without coordinates are excluded
+  near: queryCoordinates.optional(),
+  radiusKm: z.coerce.number().positive().max(500).default(5),
+  // Only posts inside the box; used by the map view
+  bbox: queryBoundingBox.optional(),
+  sort: z.enum(["newest", "price_asc", "price_desc"]).default("newest"),
+  // Room detail filters; setting any of them limits the feed to rooms
+  minRooms: z.coerce.number().int().min(1).optional(),
+  furnished: roomDetailsSchema.shape.furnished.optional(),
+  attachedBathroom: queryBoolean.optional(),
+  waterIncluded: queryBoolean.optional(),
+  electricityIncluded: queryBoolean.optional(),
+  parking: queryBoolean.optional(),
+  petsAllowed: queryBoolean.optional(),
+  genderPreference: z.enum(["male", "female"]).optional(),
+  availableBy: roomDetailsSchema.shape.availableFrom.optional(),
+  // Jobs past their application deadline are hidden unless asked for
+  includeExpired: queryBoolean.default("false"),
+});
+
+// Query parameters accepted by full-text post search
+export const postSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search query is required").max(200),
+  type: z.enum(["room", "job"]).optional(),
+  cursor: z.string().regex(/^\d+$/, "Invalid cursor").optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
 });
 
 export const insertCommentSchema = createInsertSchema(comments).omit({ 
   id: true,
   userId: true,
   createdAt: true,
-  editedAt: true
+  editedAt: true,
+  deletedAt: true
 });
 
 // Export types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
-export type Post = typeof posts.$inferSelect;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type EmailVerificationToken = typeof emailVerificationTokens.$inferSelect;
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+// The signed-in user's own account, as the API returns it
+export type CurrentUser = Omit<User, "password" | "totpSecret" | "totpLastUsedStep">;
+// Answer to a correct password when the account also needs a code
+export type TwoFactorChallenge = { twoFactorRequired: true };
+export type TwoFactorStatus = { enabled: boolean; recoveryCodesRemaining: number };
+// A secret waiting for its first code; it isn't saved until then
+export type TwoFactorSetup = { secret: string; otpauthUrl: string; qrCode: string };
+// One of the signed-in user's sessions. The device fields are null for
+// sessions started before they were recorded.
+export type ActiveSession = {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  signedInAt: Date | null;
+  lastSeenAt: Date | null;
+  // Whether this is the session making the request
+  current: boolean;
+};
+export type Post = Omit<typeof posts.$inferSelect, "searchVector">;
 export type InsertPost = z.infer<typeof insertPostSchema>;
 export type Comment = typeof comments.$inferSelect;
 export type InsertComment = z.infer<typeof insertCommentSchema>;
@@ -120,4 +496,48 @@ export type ChatParticipant = typeof chatParticipants.$inferSelect;
 export type Message = typeof messages.$inferSelect;
 export type InsertChat = z.infer<typeof insertChatSchema>;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
-export type UserBlock = typeof userBlocks.$inferSelect;
\ No newline at end of file
+export type UserBlock = typeof userBlocks.$inferSelect;
+export type PostRevision = typeof postRevisions.$inferSelect;
+export type CommentRevision = typeof commentRevisions.$inferSelect;
+// One version of a post in its edit history, oldest first; the last entry is
+// the post as it is now
+export type PostVersion = Omit<PostRevision, "id" | "postId">;
+// What other users may see of an account
+export type PublicUser = Pick<User, "id" | "username" | "fullname">;
+export type PostWithAuthor = Post & { username?: string };
+// Deleted comments kept as "[deleted]" placeholders carry no author
+export type CommentWithAuthor = Omit<Comment, "userId"> & { userId: number | null; username?: string };
+export type MessageWithUser = Message & { user?: PublicUser };
+export type ChatWithDetails = Chat & {
+  participants: PublicUser[];
+  lastMessage: Pick<Message, "content" | "createdAt"> | null;
+};
+export type PostFeedQuery = z.infer<typeof postFeedQuerySchema>;
+export type PostFeedPage<T = PostWithAuthor> = {
+  posts: T[];
+  nextCursor: string | null;
+};
+export type PostSearchQuery = z.infer<typeof postSearchQuerySchema>;
+// A single post as served to its public page, with a safe view of the owner
+export type PostDetail = PostWithAuthor & {
+  owner: PublicUser | null;
+};
+// Gazetteer entry used for geocoding and location autocomplete
+export type Place = {
+  name: string;
+  kind: "municipality" | "locality" | "district";
+  district: string;
+  latitude: number;
+  longitude: number;
+  // Other spellings and names the place is known by
+  aliases?: string[];
+};
+export type PostSearchResult = PostWithAuthor & {
+  rank: number;
+  // Matched terms are wrapped in <mark></mark>; render as text, never as HTML
+  highlights: {
+    title: string;
+    description: string;
+    location: string;
+  };
+};
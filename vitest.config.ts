@@ -0,0 +1,27 @@
+import { defineConfig } from "vitest/config";
+import path, { dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "client", "src"),
+      "@shared": path.resolve(__dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["server/**/*.test.ts"],
+    // Files that use TEST_DATABASE_URL share one database, so they take turns
+    fileParallelism: !process.env.TEST_DATABASE_URL,
+    // Each test file gets its own in-memory storage and rate limit state.
+    // Tests that need PostgreSQL use TEST_DATABASE_URL, never DATABASE_URL.
+    env: {
+      STORAGE: "memory",
+      DATABASE_URL: process.env.TEST_DATABASE_URL ?? "",
+      SESSION_SECRET: "test",
+    },
+  },
+});